@@ -4,6 +4,8 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import Compare from "./pages/Compare";
+import Pool from "./pages/Pool";
 import NotFound from "./pages/NotFound";
 import AudioPlayer from "./components/AudioPlayer";
 
@@ -18,6 +20,9 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/s/:scenario" element={<Index />} />
+          <Route path="/compare" element={<Compare />} />
+          <Route path="/pool" element={<Pool />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
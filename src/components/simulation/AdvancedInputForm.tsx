@@ -1,4 +1,5 @@
-import { AdvancedSimulationParams, AdvancedValidationError, CustomRange, generateRangeId, computeTotalWeight, hasValidWeights } from "@/lib/advanced-monte-carlo";
+import { AdvancedSimulationParams, AdvancedValidationError, CustomRange, FdvDropCorrelation, ValuationBasis, createDefaultMarketCapRanges, generateRangeId, computeTotalWeight, hasValidWeights, usesMarketCap } from "@/lib/advanced-monte-carlo";
+import { DEFAULT_SEED } from "@/lib/engine-core";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -6,6 +7,21 @@ import { Button } from "@/components/ui/button";
 import { Plus, AlertCircle, TrendingUp, Percent } from "lucide-react";
 import { RangeCard } from "./RangeCard";
 import { DistributionPreviewChart } from "./DistributionPreviewChart";
+import { SeedControl } from "./SeedControl";
+import { PrecisionControl } from "./PrecisionControl";
+import { SamplingControl } from "./SamplingControl";
+import { CorrelationCard } from "./CorrelationCard";
+import { RangeSetEditor } from "./RangeSetEditor";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { VestingCard } from "./VestingCard";
+import { VestingParams } from "@/lib/vesting";
+import { RarityTiersCard } from "./RarityTiersCard";
+import { HolderShareCard } from "./HolderShareCard";
+import { RarityTier } from "@/lib/allocation";
+import { ElicitationPanel } from "./ElicitationPanel";
+import { ElicitationTarget } from "@/lib/elicitation";
+import { ReferenceClassPanel } from "./ReferenceClassPanel";
+import { ReferenceClass, ReferenceVariable } from "@/lib/reference-class";
 interface AdvancedInputFormProps {
   params: AdvancedSimulationParams;
   errors: AdvancedValidationError[];
@@ -23,6 +39,28 @@ export function AdvancedInputForm({ params, errors, onParamsChange }: AdvancedIn
     onParamsChange({ ...params, numSimulations: parseInt(value) || 0 });
   };
   
+  const handleSeedChange = (seed: number | undefined) => {
+    onParamsChange({ ...params, seed });
+  };
+  
+  const handleValuationBasisChange = (basis: ValuationBasis) => {
+    // Keep the FDV ranges around so switching back restores them
+    const marketCapDefaults = params.marketCapRanges && params.floatRanges ? {} : createDefaultMarketCapRanges();
+    onParamsChange({ ...params, ...marketCapDefaults, valuationBasis: basis });
+  };
+  
+  const handleCorrelationChange = (correlation: FdvDropCorrelation | undefined) => {
+    onParamsChange({ ...params, correlation });
+  };
+  
+  const handleVestingChange = (vesting: VestingParams | undefined) => {
+    onParamsChange({ ...params, vesting });
+  };
+  
+  const handleRarityTiersChange = (rarityTiers: RarityTier[] | undefined) => {
+    onParamsChange({ ...params, rarityTiers });
+  };
+  
   const handleAddFdvRange = () => {
     if (params.fdvRanges.length >= MAX_RANGES) return;
     const newRange: CustomRange = {
@@ -69,9 +107,22 @@ export function AdvancedInputForm({ params, errors, onParamsChange }: AdvancedIn
     onParamsChange({ ...params, dropRanges: updated });
   };
   
+  const handleApplyElicitation = (target: ElicitationTarget, ranges: CustomRange[]) => {
+    onParamsChange(target === 'fdv' ? { ...params, fdvRanges: ranges } : { ...params, dropRanges: ranges });
+  };
+  
+  const handleApplyReferenceClass = (variable: ReferenceVariable, range: CustomRange, referenceClass: ReferenceClass) => {
+    const referenceClasses = { ...params.referenceClasses, [variable]: referenceClass };
+    onParamsChange(variable === 'fdv'
+      ? { ...params, fdvRanges: [range], referenceClasses }
+      : { ...params, dropRanges: [range], referenceClasses });
+  };
+  
   const getFieldError = (field: string) => errors.find(e => e.field === field && !e.rangeId)?.message;
   const getRangeError = (field: string, rangeId: string) => errors.find(e => e.field === field && e.rangeId === rangeId)?.message;
   
+  const marketCapFirst = usesMarketCap(params);
+
   // Compute total weights for display
   const fdvTotalWeight = computeTotalWeight(params.fdvRanges);
   const dropTotalWeight = computeTotalWeight(params.dropRanges);
@@ -123,6 +174,44 @@ export function AdvancedInputForm({ params, errors, onParamsChange }: AdvancedIn
               )}
             </div>
           </div>
+          <div className="max-w-md">
+            <SeedControl
+              enabled={params.seed !== undefined}
+              seed={params.seed ?? DEFAULT_SEED}
+              onToggle={(checked) => handleSeedChange(checked ? DEFAULT_SEED : undefined)}
+              onSeedChange={handleSeedChange}
+            />
+            {getFieldError('seed') && (
+              <div className="flex items-center gap-1 text-destructive text-xs mt-1">
+                <AlertCircle className="h-3 w-3" />
+                <span>{getFieldError('seed')}</span>
+              </div>
+            )}
+          </div>
+          <div className="max-w-md">
+            <PrecisionControl
+              targetPrecision={params.targetPrecision}
+              onChange={(targetPrecision) => onParamsChange({ ...params, targetPrecision })}
+            />
+            {getFieldError('targetPrecision') && (
+              <div className="flex items-center gap-1 text-destructive text-xs mt-1">
+                <AlertCircle className="h-3 w-3" />
+                <span>{getFieldError('targetPrecision')}</span>
+              </div>
+            )}
+          </div>
+          <div className="max-w-md">
+            <SamplingControl
+              sampling={params.sampling}
+              onChange={(sampling) => onParamsChange({ ...params, sampling })}
+            />
+            {getFieldError('sampling') && (
+              <div className="flex items-center gap-1 text-destructive text-xs mt-1">
+                <AlertCircle className="h-3 w-3" />
+                <span>{getFieldError('sampling')}</span>
+              </div>
+            )}
+          </div>
         </CardContent>
       </Card>
 
@@ -134,64 +223,101 @@ export function AdvancedInputForm({ params, errors, onParamsChange }: AdvancedIn
             <div className="flex items-center justify-between">
               <div className="flex items-center gap-2">
                 <TrendingUp className="h-5 w-5 text-primary" />
-                <CardTitle className="text-lg">FDV Distribution</CardTitle>
+                <CardTitle className="text-lg">{marketCapFirst ? 'Valuation' : 'FDV Distribution'}</CardTitle>
               </div>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={handleAddFdvRange}
-                disabled={params.fdvRanges.length >= MAX_RANGES}
-                className="h-8"
-              >
-                <Plus className="h-4 w-4 mr-1" />
-                Add Range
-              </Button>
+              {!marketCapFirst && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleAddFdvRange}
+                  disabled={params.fdvRanges.length >= MAX_RANGES}
+                  className="h-8"
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add Range
+                </Button>
+              )}
             </div>
+            <Tabs value={params.valuationBasis ?? 'fdv'} onValueChange={(v) => handleValuationBasisChange(v as ValuationBasis)}>
+              <TabsList className="grid w-full grid-cols-2 h-8">
+                <TabsTrigger value="fdv" className="text-xs">FDV</TabsTrigger>
+                <TabsTrigger value="marketCap" className="text-xs">Market Cap + Float</TabsTrigger>
+              </TabsList>
+            </Tabs>
             <p className="text-xs text-muted-foreground">
-              Define FDV ranges in millions (e.g., 20 = $20M)
+              {marketCapFirst
+                ? 'Implied FDV = market cap ÷ circulating float, drawn per simulation'
+                : 'Define FDV ranges in millions (e.g., 20 = $20M)'}
             </p>
           </CardHeader>
-          <CardContent className="space-y-3">
-            {/* Distribution Preview Chart */}
-            <div className="mb-4">
-              <p className="text-xs font-medium text-muted-foreground mb-2">Distribution Preview</p>
-              <DistributionPreviewChart ranges={params.fdvRanges} type="fdv" />
-            </div>
-            
-            {params.fdvRanges.length === 0 ? (
-              <div className="p-4 border border-dashed rounded-lg text-center text-sm text-muted-foreground">
-                Add at least one FDV range to run simulation
-              </div>
-            ) : (
-              params.fdvRanges.map((range, index) => (
-                <RangeCard
-                  key={range.id}
-                  range={range}
-                  index={index}
-                  type="fdv"
-                  onUpdate={(r) => handleUpdateFdvRange(index, r)}
-                  onRemove={() => handleRemoveFdvRange(index)}
-                  canRemove={params.fdvRanges.length > 1}
-                  error={getRangeError('fdvRanges', range.id)}
-                />
-              ))
-            )}
-            {getFieldError('fdvRanges') && (
-              <div className="flex items-center gap-1 text-destructive text-xs">
-                <AlertCircle className="h-3 w-3" />
-                <span>{getFieldError('fdvRanges')}</span>
-              </div>
-            )}
-            {!fdvWeightsValid && params.fdvRanges.length > 0 && (
-              <div className="flex items-center gap-1 text-destructive text-xs">
-                <AlertCircle className="h-3 w-3" />
-                <span>At least one range must have a non-zero weight</span>
+          {marketCapFirst ? (
+            <CardContent className="space-y-6">
+              <RangeSetEditor
+                title="Market Cap"
+                description="Market cap at launch in millions (e.g., 10 = $10M)"
+                kind="marketCap"
+                ranges={params.marketCapRanges ?? []}
+                newRange={{ min: 10, max: 40, distributionType: 'uniform', weight: 20 }}
+                maxRanges={MAX_RANGES}
+                fieldError={getFieldError('marketCapRanges')}
+                getRangeError={(id) => getRangeError('marketCapRanges', id)}
+                onChange={(marketCapRanges) => onParamsChange({ ...params, marketCapRanges })}
+              />
+              <RangeSetEditor
+                title="Circulating Float"
+                description="Share of total supply circulating at launch (0-100%)"
+                kind="float"
+                ranges={params.floatRanges ?? []}
+                newRange={{ min: 15, max: 25, distributionType: 'uniform', weight: 20 }}
+                maxRanges={MAX_RANGES}
+                fieldError={getFieldError('floatRanges')}
+                getRangeError={(id) => getRangeError('floatRanges', id)}
+                onChange={(floatRanges) => onParamsChange({ ...params, floatRanges })}
+              />
+            </CardContent>
+          ) : (
+            <CardContent className="space-y-3">
+              {/* Distribution Preview Chart */}
+              <div className="mb-4">
+                <p className="text-xs font-medium text-muted-foreground mb-2">Distribution Preview</p>
+                <DistributionPreviewChart ranges={params.fdvRanges} type="fdv" />
               </div>
-            )}
-            <p className="text-xs text-muted-foreground pt-2">
-              {params.fdvRanges.length}/{MAX_RANGES} ranges • Total Weight: {fdvTotalWeight.toFixed(1)}% (auto-normalized)
-            </p>
-          </CardContent>
+            
+              {params.fdvRanges.length === 0 ? (
+                <div className="p-4 border border-dashed rounded-lg text-center text-sm text-muted-foreground">
+                  Add at least one FDV range to run simulation
+                </div>
+              ) : (
+                params.fdvRanges.map((range, index) => (
+                  <RangeCard
+                    key={range.id}
+                    range={range}
+                    index={index}
+                    type="fdv"
+                    onUpdate={(r) => handleUpdateFdvRange(index, r)}
+                    onRemove={() => handleRemoveFdvRange(index)}
+                    canRemove={params.fdvRanges.length > 1}
+                    error={getRangeError('fdvRanges', range.id)}
+                  />
+                ))
+              )}
+              {getFieldError('fdvRanges') && (
+                <div className="flex items-center gap-1 text-destructive text-xs">
+                  <AlertCircle className="h-3 w-3" />
+                  <span>{getFieldError('fdvRanges')}</span>
+                </div>
+              )}
+              {!fdvWeightsValid && params.fdvRanges.length > 0 && (
+                <div className="flex items-center gap-1 text-destructive text-xs">
+                  <AlertCircle className="h-3 w-3" />
+                  <span>At least one range must have a non-zero weight</span>
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground pt-2">
+                {params.fdvRanges.length}/{MAX_RANGES} ranges • Total Weight: {fdvTotalWeight.toFixed(1)}% (auto-normalized)
+              </p>
+            </CardContent>
+          )}
         </Card>
 
         {/* Airdrop % Distribution Card */}
@@ -260,6 +386,37 @@ export function AdvancedInputForm({ params, errors, onParamsChange }: AdvancedIn
           </CardContent>
         </Card>
       </div>
+
+      <ElicitationPanel fdvAvailable={!marketCapFirst} onApply={handleApplyElicitation} />
+
+      <ReferenceClassPanel fdvAvailable={!marketCapFirst} onApply={handleApplyReferenceClass} />
+
+      <HolderShareCard
+        ranges={params.holderShareRanges}
+        maxRanges={MAX_RANGES}
+        fieldError={getFieldError('holderShareRanges')}
+        getRangeError={(id) => getRangeError('holderShareRanges', id)}
+        onChange={(holderShareRanges) => onParamsChange({ ...params, holderShareRanges })}
+      />
+
+      <CorrelationCard
+        params={params}
+        error={getFieldError('correlation')}
+        onChange={handleCorrelationChange}
+      />
+
+      <VestingCard
+        vesting={params.vesting}
+        errors={errors.filter(e => e.field === 'vesting').map(e => e.message)}
+        onChange={handleVestingChange}
+      />
+
+      <RarityTiersCard
+        tiers={params.rarityTiers}
+        nftSupply={params.nftSupply}
+        errors={errors.filter(e => e.field === 'rarityTiers').map(e => e.message)}
+        onChange={handleRarityTiersChange}
+      />
     </div>
   );
 }
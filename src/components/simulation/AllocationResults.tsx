@@ -0,0 +1,68 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AllocationSummary } from "@/lib/engine-core";
+import { HOLDING_OUTPUT_NAME } from "@/lib/allocation";
+import { formatCurrency, formatProbability } from "@/lib/format";
+
+interface AllocationResultsProps {
+  allocations: AllocationSummary[];
+  thresholds: number[];
+}
+
+const STAT_COLUMNS = [
+  { key: 'p10', label: 'P10' },
+  { key: 'median', label: 'Median' },
+  { key: 'mean', label: 'Mean' },
+  { key: 'p90', label: 'P90' },
+] as const;
+
+export function AllocationResults({ allocations, thresholds }: AllocationResultsProps) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">Value by Rarity Tier</CardTitle>
+        <p className="text-xs text-muted-foreground">
+          Value at TGE per NFT of each tier; the multiple is relative to an even split
+        </p>
+      </CardHeader>
+      <CardContent className="overflow-x-auto">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Tier</TableHead>
+              <TableHead className="text-right">Multiple</TableHead>
+              {STAT_COLUMNS.map(({ key, label }) => (
+                <TableHead key={key} className="text-right">{label}</TableHead>
+              ))}
+              {thresholds.map((threshold) => (
+                <TableHead key={threshold} className="text-right whitespace-nowrap">P(≥ {formatCurrency(threshold, 0)})</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {allocations.map((allocation) => {
+              const isHolding = allocation.name === HOLDING_OUTPUT_NAME;
+              return (
+                <TableRow key={allocation.name} className={isHolding ? "bg-primary/10 font-medium" : undefined}>
+                  <TableCell className="font-medium">{allocation.name}</TableCell>
+                  <TableCell className="text-right font-mono tabular-nums text-xs">×{allocation.factor.toFixed(2)}</TableCell>
+                  {STAT_COLUMNS.map(({ key }) => (
+                    <TableCell key={key} className="text-right font-mono tabular-nums">{formatCurrency(allocation.stats[key], 0)}</TableCell>
+                  ))}
+                  {thresholds.map((threshold) => {
+                    const prob = allocation.thresholdProbs[threshold];
+                    return (
+                      <TableCell key={threshold} className="text-right font-mono tabular-nums">
+                        {prob === undefined ? '—' : formatProbability(prob)}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
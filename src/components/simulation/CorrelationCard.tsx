@@ -0,0 +1,176 @@
+import { useMemo } from "react";
+import {
+  AdvancedSimulationParams,
+  FdvDropCorrelation,
+  sampleFdvDropPairs,
+  validateAdvancedParams,
+} from "@/lib/advanced-monte-carlo";
+import { CopulaFamily, MAX_RANK_CORRELATION } from "@/lib/copula";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScatterChart, Scatter, XAxis, YAxis, ResponsiveContainer, Tooltip } from "recharts";
+import { AlertCircle, Link2 } from "lucide-react";
+
+interface CorrelationCardProps {
+  params: AdvancedSimulationParams;
+  error?: string;
+  onChange: (correlation: FdvDropCorrelation | undefined) => void;
+}
+
+const PREVIEW_POINTS = 800;
+const PREVIEW_SEED = 1;
+
+const COPULA_LABELS: Record<CopulaFamily, { label: string; description: string }> = {
+  gaussian: {
+    label: "Gaussian",
+    description: "Symmetric dependence, no extra clustering in the extremes"
+  },
+  clayton: {
+    label: "Clayton",
+    description: "Strongest dependence at low FDV (rotated when negative)"
+  },
+  gumbel: {
+    label: "Gumbel",
+    description: "Strongest dependence at high FDV (rotated when negative)"
+  }
+};
+
+const RANGE_FIELDS = ['fdvRanges', 'marketCapRanges', 'floatRanges', 'dropRanges'];
+
+const DEFAULT_CORRELATION: FdvDropCorrelation = { copula: 'gaussian', rankCorrelation: 0 };
+
+export function CorrelationCard({ params, error, onChange }: CorrelationCardProps) {
+  const correlation = params.correlation;
+
+  // Preview only once both marginals are valid
+  const rangesValid = useMemo(
+    () => !validateAdvancedParams(params).some(e => RANGE_FIELDS.includes(e.field)),
+    [params]
+  );
+
+  const previewData = useMemo(() => {
+    if (!correlation || !rangesValid) return [];
+    return sampleFdvDropPairs(params, PREVIEW_POINTS, PREVIEW_SEED);
+  }, [params, correlation, rangesValid]);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Link2 className="h-5 w-5 text-primary" />
+            <CardTitle className="text-lg">FDV ↔ Airdrop % Correlation</CardTitle>
+          </div>
+          <Switch
+            checked={!!correlation}
+            onCheckedChange={(checked) => onChange(checked ? DEFAULT_CORRELATION : undefined)}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Off samples FDV and Airdrop % independently. Negative values mean a low FDV tends to come with a bigger community share.
+        </p>
+      </CardHeader>
+      {correlation && (
+        <CardContent className="grid md:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div className="space-y-1.5">
+              <Label className="text-sm font-medium">Copula</Label>
+              <Select
+                value={correlation.copula}
+                onValueChange={(value: CopulaFamily) => onChange({ ...correlation, copula: value })}
+              >
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(COPULA_LABELS) as CopulaFamily[]).map((family) => (
+                    <SelectItem key={family} value={family}>
+                      {COPULA_LABELS[family].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">{COPULA_LABELS[correlation.copula].description}</p>
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label className="text-sm font-medium">Rank correlation (Kendall's τ)</Label>
+                <span className="font-mono text-sm tabular-nums">{correlation.rankCorrelation.toFixed(2)}</span>
+              </div>
+              <Slider
+                value={[correlation.rankCorrelation]}
+                onValueChange={([value]) => onChange({ ...correlation, rankCorrelation: value })}
+                min={-MAX_RANK_CORRELATION}
+                max={MAX_RANK_CORRELATION}
+                step={0.05}
+                className="py-1"
+              />
+              <p className="text-xs text-muted-foreground">0 gives exactly the independent model.</p>
+            </div>
+            {error && (
+              <div className="flex items-center gap-1 text-destructive text-xs">
+                <AlertCircle className="h-3 w-3" />
+                <span>{error}</span>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <p className="text-xs font-medium text-muted-foreground mb-2">Joint Preview ({PREVIEW_POINTS} draws)</p>
+            {previewData.length > 0 ? (
+              <div className="h-48">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ScatterChart margin={{ top: 5, right: 10, left: -10, bottom: 5 }}>
+                    <XAxis
+                      dataKey="fdvM"
+                      type="number"
+                      name="FDV"
+                      domain={['dataMin', 'dataMax']}
+                      tick={{ fontSize: 10 }}
+                      tickFormatter={(v) => `$${v.toFixed(0)}M`}
+                    />
+                    <YAxis
+                      dataKey="dropPct"
+                      type="number"
+                      name="Airdrop %"
+                      domain={['dataMin', 'dataMax']}
+                      tick={{ fontSize: 10 }}
+                      tickFormatter={(v) => `${v.toFixed(0)}%`}
+                    />
+                    <Tooltip
+                      cursor={{ strokeDasharray: '3 3' }}
+                      formatter={(value: number, name: string) => [
+                        name === 'FDV' ? `$${value.toFixed(1)}M` : `${value.toFixed(2)}%`,
+                        name
+                      ]}
+                      contentStyle={{
+                        backgroundColor: 'hsl(var(--card))',
+                        border: '1px solid hsl(var(--border))',
+                        borderRadius: 'var(--radius)',
+                        fontSize: '12px'
+                      }}
+                    />
+                    <Scatter
+                      data={previewData}
+                      fill="hsl(var(--primary))"
+                      fillOpacity={0.35}
+                      shape="circle"
+                      isAnimationActive={false}
+                    />
+                  </ScatterChart>
+                </ResponsiveContainer>
+              </div>
+            ) : (
+              <div className="h-48 flex items-center justify-center rounded-lg border border-dashed text-xs text-muted-foreground">
+                Fix the ranges above to preview
+              </div>
+            )}
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
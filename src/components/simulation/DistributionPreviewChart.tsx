@@ -1,5 +1,9 @@
-import { useMemo } from "react";
-import { CustomRange, DistributionType } from "@/lib/advanced-monte-carlo";
+import { useMemo, useState } from "react";
+import { CustomRange, DistributionType, RangeKind, isCurrencyRange, isSampleableRange } from "@/lib/advanced-monte-carlo";
+import { cdfGap, cdfGapLimit, rangeDensity, sampleRange } from "@/lib/distributions";
+import { Xoshiro128 } from "@/lib/prng";
+import { Button } from "@/components/ui/button";
+import { Dices } from "lucide-react";
 import {
   LineChart,
   Line,
@@ -13,10 +17,14 @@ import {
 
 interface DistributionPreviewChartProps {
   ranges: CustomRange[];
-  type: "fdv" | "drop";
+  type: RangeKind;
 }
 
 const GRID_POINTS = 300;
+// Draws per range for the verification overlay, binned into HISTOGRAM_BINS across the domain
+const DRAW_COUNT = 20000;
+const HISTOGRAM_BINS = 60;
+const DRAW_SEED = 1;
 const RANGE_COLORS = [
   "hsl(var(--chart-1))",
   "hsl(var(--chart-2))",
@@ -30,53 +38,15 @@ const DISTRIBUTION_LABELS: Record<DistributionType, string> = {
   linearDecreasing: "Lin↓",
   linearIncreasing: "Lin↑",
   predictionCentric: "Bell",
+  logUniform: "Log-Unif",
+  lognormal: "LogN",
+  pert: "PERT",
+  triangular: "Tri",
+  trapezoid: "Trap",
+  truncatedExponential: "Exp",
+  empirical: "Emp",
 };
 
-// Compute density for a single range at a given x
-function computeDensity(
-  x: number,
-  range: CustomRange
-): number {
-  const { min, max, distributionType, expectedMin, expectedMax } = range;
-
-  // Outside range = 0
-  if (x < min || x > max) return 0;
-
-  const width = max - min;
-  if (width <= 0) return 0;
-
-  switch (distributionType) {
-    case "uniform":
-      // Constant density
-      return 1 / width;
-
-    case "linearIncreasing":
-      // PDF ∝ (x - min), normalized: 2*(x-min) / width^2
-      return (2 * (x - min)) / (width * width);
-
-    case "linearDecreasing":
-      // PDF ∝ (max - x), normalized: 2*(max-x) / width^2
-      return (2 * (max - x)) / (width * width);
-
-    case "predictionCentric": {
-      // Truncated normal
-      const expMin = expectedMin ?? min;
-      const expMax = expectedMax ?? max;
-      const mean = (expMin + expMax) / 2;
-      // std chosen so ~70% mass lies within expected range
-      const halfRange = (expMax - expMin) / 2;
-      const std = halfRange > 0 ? halfRange / 1.1 : width / 4;
-      
-      // Gaussian PDF (unnormalized for display)
-      const z = (x - mean) / std;
-      return Math.exp(-0.5 * z * z);
-    }
-
-    default:
-      return 0;
-  }
-}
-
 // Get qualitative density label
 function getDensityLabel(value: number): string {
   if (value >= 0.7) return "High";
@@ -84,10 +54,30 @@ function getDensityLabel(value: number): string {
   return "Low";
 }
 
+// Draws from the engine's own sampler, and their Kolmogorov–Smirnov gap to the CDF
+interface DrawCheck {
+  draws: number[];
+  gap: number;
+}
+
+function drawFromRange(range: CustomRange, seed: number): DrawCheck | null {
+  if (!isSampleableRange(range)) return null;
+  const rng = new Xoshiro128(seed);
+  const draws = Array.from({ length: DRAW_COUNT }, () => sampleRange(range, rng));
+  return { draws, gap: cdfGap(range, draws) };
+}
+
 export function DistributionPreviewChart({
   ranges,
   type,
 }: DistributionPreviewChartProps) {
+  const [showDraws, setShowDraws] = useState(false);
+
+  const drawChecks = useMemo(
+    () => (showDraws ? ranges.map((range, j) => drawFromRange(range, DRAW_SEED + j)) : []),
+    [ranges, showDraws]
+  );
+
   const chartData = useMemo(() => {
     if (ranges.length === 0) return [];
 
@@ -111,29 +101,38 @@ export function DistributionPreviewChart({
     for (let j = 0; j < ranges.length; j++) {
       const densities: number[] = [];
       for (let i = 0; i < GRID_POINTS; i++) {
-        densities.push(computeDensity(grid[i], ranges[j]));
+        densities.push(rangeDensity(ranges[j], grid[i]));
       }
       rawDensities.push(densities);
     }
 
     // Step 2: Normalize EACH range independently so max = 1
-    const normalizedDensities: number[][] = rawDensities.map((densities) => {
-      const maxVal = Math.max(...densities, 0.001);
-      return densities.map((d) => d / maxVal);
+    const scales = rawDensities.map((densities) => Math.max(...densities, 0.001));
+    const normalizedDensities: number[][] = rawDensities.map((densities, j) => densities.map((d) => d / scales[j]));
+
+    // Step 3: Histogram of the draws as a density, on the same scale as its curve
+    const binWidth = (globalMax - globalMin) / HISTOGRAM_BINS;
+    const binOf = (x: number) => Math.min(HISTOGRAM_BINS - 1, Math.floor((x - globalMin) / binWidth));
+    const histograms = drawChecks.map((check, j) => {
+      if (!check) return null;
+      const counts = new Array<number>(HISTOGRAM_BINS).fill(0);
+      for (const x of check.draws) counts[binOf(x)]++;
+      return counts.map((c) => c / (check.draws.length * binWidth * scales[j]));
     });
 
-    // Step 3: Build chart data
+    // Step 4: Build chart data
     const data: Record<string, number>[] = [];
     for (let i = 0; i < GRID_POINTS; i++) {
       const point: Record<string, number> = { x: grid[i] };
       for (let j = 0; j < ranges.length; j++) {
         point[`range${j}`] = normalizedDensities[j][i];
+        if (histograms[j]) point[`draws${j}`] = histograms[j][binOf(grid[i])];
       }
       data.push(point);
     }
 
     return data;
-  }, [ranges]);
+  }, [ranges, drawChecks]);
 
   if (ranges.length === 0 || chartData.length === 0) {
     return (
@@ -143,7 +142,7 @@ export function DistributionPreviewChart({
     );
   }
 
-  const xAxisLabel = type === "fdv" ? "FDV ($M)" : "Drop (%)";
+  const isCurrency = isCurrencyRange(type);
 
   // Get range boundaries for reference lines
   const boundaries = ranges.flatMap((r, i) => [
@@ -151,104 +150,145 @@ export function DistributionPreviewChart({
     { x: r.max, rangeIndex: i, type: "max" as const },
   ]);
 
+  const gapLimit = cdfGapLimit(DRAW_COUNT);
+
   return (
-    <div className="h-40">
-      <ResponsiveContainer width="100%" height="100%">
-        <LineChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
-          <XAxis
-            dataKey="x"
-            type="number"
-            domain={["dataMin", "dataMax"]}
-            tickFormatter={(v) => (type === "fdv" ? `$${v}M` : `${v}%`)}
-            tick={{ fontSize: 10, fill: "hsl(var(--muted-foreground))" }}
-            axisLine={{ stroke: "hsl(var(--border))" }}
-            tickLine={{ stroke: "hsl(var(--border))" }}
-          />
-          <YAxis
-            hide
-            domain={[0, 1.1]}
-            label={{ 
-              value: 'Relative Shape', 
-              angle: -90, 
-              position: 'insideLeft', 
-              fontSize: 9,
-              fill: 'hsl(var(--muted-foreground))',
-              style: { textAnchor: 'middle' }
-            }}
-          />
-          <Tooltip
-            contentStyle={{
-              backgroundColor: "hsl(var(--popover))",
-              border: "1px solid hsl(var(--border))",
-              borderRadius: "6px",
-              fontSize: "11px",
-            }}
-            labelStyle={{ color: "hsl(var(--popover-foreground))" }}
-            content={({ active, payload, label }) => {
-              if (!active || !payload?.length) return null;
-              return (
-                <div className="bg-popover border border-border rounded-md p-2 shadow-md text-xs">
-                  <p className="font-medium mb-1">
-                    {type === "fdv" ? `$${Number(label).toFixed(1)}M` : `${Number(label).toFixed(2)}%`}
-                  </p>
-                  {payload.map((entry, idx) => {
-                    const rangeIndex = parseInt(String(entry.dataKey).replace("range", ""));
-                    const range = ranges[rangeIndex];
-                    if (!range) return null;
-                    const value = Number(entry.value) || 0;
-                    return (
-                      <div key={idx} className="flex items-center gap-2">
-                        <span
-                          className="w-2 h-2 rounded-full"
-                          style={{ backgroundColor: entry.color }}
-                        />
-                        <span>R{rangeIndex + 1} ({DISTRIBUTION_LABELS[range.distributionType]}):</span>
-                        <span className="font-medium">{getDensityLabel(value)}</span>
-                      </div>
-                    );
-                  })}
-                </div>
-              );
-            }}
-          />
-          <Legend
-            verticalAlign="top"
-            height={24}
-            iconSize={8}
-            wrapperStyle={{ fontSize: "10px" }}
-            formatter={(value: string) => {
-              const idx = parseInt(value.replace("range", ""));
-              const range = ranges[idx];
-              if (!range) return value;
-              return `R${idx + 1} (${DISTRIBUTION_LABELS[range.distributionType]})`;
-            }}
-          />
-          
-          {/* Range boundary markers */}
-          {boundaries.map((b, i) => (
-            <ReferenceLine
-              key={`boundary-${i}`}
-              x={b.x}
-              stroke={RANGE_COLORS[b.rangeIndex % RANGE_COLORS.length]}
-              strokeDasharray="2 2"
-              strokeOpacity={0.3}
+    <div className="space-y-1">
+      <div className="h-40">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+            <XAxis
+              dataKey="x"
+              type="number"
+              domain={["dataMin", "dataMax"]}
+              tickFormatter={(v) => (isCurrency ? `$${v}M` : `${v}%`)}
+              tick={{ fontSize: 10, fill: "hsl(var(--muted-foreground))" }}
+              axisLine={{ stroke: "hsl(var(--border))" }}
+              tickLine={{ stroke: "hsl(var(--border))" }}
+            />
+            <YAxis
+              hide
+              domain={[0, 1.1]}
+              label={{ 
+                value: 'Relative Shape', 
+                angle: -90, 
+                position: 'insideLeft', 
+                fontSize: 9,
+                fill: 'hsl(var(--muted-foreground))',
+                style: { textAnchor: 'middle' }
+              }}
+            />
+            <Tooltip
+              contentStyle={{
+                backgroundColor: "hsl(var(--popover))",
+                border: "1px solid hsl(var(--border))",
+                borderRadius: "6px",
+                fontSize: "11px",
+              }}
+              labelStyle={{ color: "hsl(var(--popover-foreground))" }}
+              content={({ active, payload, label }) => {
+                if (!active || !payload?.length) return null;
+                return (
+                  <div className="bg-popover border border-border rounded-md p-2 shadow-md text-xs">
+                    <p className="font-medium mb-1">
+                      {isCurrency ? `$${Number(label).toFixed(1)}M` : `${Number(label).toFixed(2)}%`}
+                    </p>
+                    {payload.map((entry, idx) => {
+                      const rangeIndex = parseInt(String(entry.dataKey).replace("range", ""));
+                      const range = ranges[rangeIndex];
+                      if (!range) return null;
+                      const value = Number(entry.value) || 0;
+                      return (
+                        <div key={idx} className="flex items-center gap-2">
+                          <span
+                            className="w-2 h-2 rounded-full"
+                            style={{ backgroundColor: entry.color }}
+                          />
+                          <span>R{rangeIndex + 1} ({DISTRIBUTION_LABELS[range.distributionType]}):</span>
+                          <span className="font-medium">{getDensityLabel(value)}</span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                );
+              }}
             />
-          ))}
-
-          {/* Individual range lines */}
-          {ranges.map((_, i) => (
-            <Line
-              key={`range${i}`}
-              type="monotone"
-              dataKey={`range${i}`}
-              stroke={RANGE_COLORS[i % RANGE_COLORS.length]}
-              strokeWidth={1.5}
-              dot={false}
-              isAnimationActive={false}
+            <Legend
+              verticalAlign="top"
+              height={24}
+              iconSize={8}
+              wrapperStyle={{ fontSize: "10px" }}
+              formatter={(value: string) => {
+                const idx = parseInt(value.replace("range", ""));
+                const range = ranges[idx];
+                if (!range) return value;
+                return `R${idx + 1} (${DISTRIBUTION_LABELS[range.distributionType]})`;
+              }}
             />
-          ))}
-        </LineChart>
-      </ResponsiveContainer>
+          
+            {/* Range boundary markers */}
+            {boundaries.map((b, i) => (
+              <ReferenceLine
+                key={`boundary-${i}`}
+                x={b.x}
+                stroke={RANGE_COLORS[b.rangeIndex % RANGE_COLORS.length]}
+                strokeDasharray="2 2"
+                strokeOpacity={0.3}
+              />
+            ))}
+
+            {/* Individual range lines */}
+            {ranges.map((_, i) => (
+              <Line
+                key={`range${i}`}
+                type="monotone"
+                dataKey={`range${i}`}
+                stroke={RANGE_COLORS[i % RANGE_COLORS.length]}
+                strokeWidth={1.5}
+                dot={false}
+                isAnimationActive={false}
+              />
+            ))}
+
+            {/* Histograms of actual draws */}
+            {drawChecks.map((check, i) =>
+              check && (
+                <Line
+                  key={`draws${i}`}
+                  type="stepAfter"
+                  dataKey={`draws${i}`}
+                  stroke={RANGE_COLORS[i % RANGE_COLORS.length]}
+                  strokeWidth={1}
+                  strokeDasharray="3 2"
+                  strokeOpacity={0.7}
+                  dot={false}
+                  legendType="none"
+                  isAnimationActive={false}
+                />
+              )
+            )}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-[10px] text-muted-foreground">
+          {showDraws && (
+            <>
+              Dashed steps: {DRAW_COUNT.toLocaleString()} draws per range from the simulation sampler. CDF gap{' '}
+              {drawChecks.map((check, i) => (
+                <span key={i} className={check && check.gap > gapLimit ? "text-destructive" : undefined}>
+                  {i > 0 && ' • '}R{i + 1} {check ? `${(check.gap * 100).toFixed(2)}%` : 'incomplete'}
+                </span>
+              ))}
+              {' '}(99% limit {(gapLimit * 100).toFixed(2)}%)
+            </>
+          )}
+        </p>
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setShowDraws(!showDraws)}>
+          <Dices className="h-3 w-3 mr-1" />
+          {showDraws ? 'Hide draws' : 'Overlay draws'}
+        </Button>
+      </div>
     </div>
   );
 }
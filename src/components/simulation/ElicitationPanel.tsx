@@ -0,0 +1,281 @@
+import { useMemo, useState } from "react";
+import { CustomRange } from "@/lib/advanced-monte-carlo";
+import {
+  DEFAULT_ELICITATION,
+  ELICITATION_METHODS,
+  ElicitationInput,
+  ElicitationMethod,
+  ElicitationTarget,
+  fitElicitation,
+  validateElicitation,
+} from "@/lib/elicitation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceDot } from "recharts";
+import { AlertCircle, Check, Wand2 } from "lucide-react";
+
+interface ElicitationPanelProps {
+  // FDV ranges are not used when the valuation is market cap + float
+  fdvAvailable: boolean;
+  onApply: (target: ElicitationTarget, ranges: CustomRange[]) => void;
+}
+
+// Editable form of ElicitationInput: blank values drop the row or the bound
+interface QuantileRow {
+  probability: string;
+  value: string;
+}
+
+interface DraftInput {
+  rows: QuantileRow[];
+  lowerBound: string;
+  upperBound: string;
+}
+
+const TARGET_LABELS: Record<ElicitationTarget, string> = {
+  fdv: "FDV",
+  drop: "Airdrop %"
+};
+
+function toDraft(input: ElicitationInput): DraftInput {
+  return {
+    rows: input.quantiles.map(q => ({ probability: String(q.probability), value: String(q.value) })),
+    lowerBound: input.lowerBound === undefined ? '' : String(input.lowerBound),
+    upperBound: input.upperBound === undefined ? '' : String(input.upperBound)
+  };
+}
+
+function parseOptional(text: string): number | undefined {
+  return text.trim() === '' ? undefined : parseFloat(text);
+}
+
+function parseDraft(draft: DraftInput): ElicitationInput {
+  return {
+    quantiles: draft.rows
+      .filter(row => row.value.trim() !== '')
+      .map(row => ({ probability: parseFloat(row.probability), value: parseFloat(row.value) })),
+    lowerBound: parseOptional(draft.lowerBound),
+    upperBound: parseOptional(draft.upperBound)
+  };
+}
+
+// Build FDV or Airdrop % ranges from a few percentile guesses instead of ranges and weights
+export function ElicitationPanel({ fdvAvailable, onApply }: ElicitationPanelProps) {
+  const [target, setTarget] = useState<ElicitationTarget>(fdvAvailable ? 'fdv' : 'drop');
+  const [method, setMethod] = useState<ElicitationMethod>('lognormal');
+  const [drafts, setDrafts] = useState<Record<ElicitationTarget, DraftInput>>({
+    fdv: toDraft(DEFAULT_ELICITATION.fdv),
+    drop: toDraft(DEFAULT_ELICITATION.drop)
+  });
+  const [applied, setApplied] = useState(false);
+
+  const activeTarget = fdvAvailable ? target : 'drop';
+  const draft = drafts[activeTarget];
+  const isCurrency = activeTarget === 'fdv';
+  const formatValue = (v: number) => (isCurrency ? `$${v.toPrecision(3)}M` : `${v.toPrecision(3)}%`);
+
+  const input = useMemo(() => parseDraft(draft), [draft]);
+  const errors = useMemo(() => validateElicitation(input, activeTarget), [input, activeTarget]);
+  const fit = useMemo(
+    () => (errors.length === 0 ? fitElicitation(input, activeTarget, method) : null),
+    [input, activeTarget, method, errors]
+  );
+
+  const updateDraft = (changes: Partial<DraftInput>) => {
+    setDrafts({ ...drafts, [activeTarget]: { ...draft, ...changes } });
+    setApplied(false);
+  };
+
+  const updateRow = (index: number, changes: Partial<QuantileRow>) => {
+    updateDraft({ rows: draft.rows.map((row, i) => (i === index ? { ...row, ...changes } : row)) });
+  };
+
+  const handleApply = () => {
+    if (!fit) return;
+    onApply(activeTarget, fit.ranges);
+    setApplied(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center gap-2">
+          <Wand2 className="h-5 w-5 text-primary" />
+          <CardTitle className="text-lg">Expert Elicitation</CardTitle>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Describe a variable by percentiles ("80% sure FDV lands between $40M and $250M, most likely $90M")
+          and turn the fitted distribution into ranges.
+        </p>
+      </CardHeader>
+      <CardContent className="grid md:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <Tabs value={activeTarget} onValueChange={(v) => { setTarget(v as ElicitationTarget); setApplied(false); }}>
+              <TabsList className="grid w-full grid-cols-2 h-8">
+                <TabsTrigger value="fdv" className="text-xs" disabled={!fdvAvailable}>{TARGET_LABELS.fdv}</TabsTrigger>
+                <TabsTrigger value="drop" className="text-xs">{TARGET_LABELS.drop}</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <Tabs value={method} onValueChange={(v) => { setMethod(v as ElicitationMethod); setApplied(false); }}>
+              <TabsList className="grid w-full grid-cols-2 h-8">
+                {(Object.keys(ELICITATION_METHODS) as ElicitationMethod[]).map((m) => (
+                  <TabsTrigger key={m} value={m} className="text-xs">{ELICITATION_METHODS[m].label}</TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+          </div>
+          <p className="text-xs text-muted-foreground">{ELICITATION_METHODS[method].description}</p>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-2 gap-3">
+              <Label className="text-xs">Percentile</Label>
+              <Label className="text-xs">{isCurrency ? "FDV ($M)" : "Airdrop (%)"}</Label>
+            </div>
+            {draft.rows.map((row, index) => (
+              <div key={index} className="grid grid-cols-2 gap-3">
+                <div className="relative">
+                  <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">P</span>
+                  <Input
+                    type="number"
+                    step="1"
+                    value={row.probability}
+                    onChange={(e) => updateRow(index, { probability: e.target.value })}
+                    className="font-mono pl-7 h-9"
+                  />
+                </div>
+                <Input
+                  type="number"
+                  step={isCurrency ? "1" : "0.1"}
+                  value={row.value}
+                  onChange={(e) => updateRow(index, { value: e.target.value })}
+                  className="font-mono h-9"
+                  placeholder="optional"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5">
+              <Label className="text-xs">Hard lower bound</Label>
+              <Input
+                type="number"
+                value={draft.lowerBound}
+                onChange={(e) => updateDraft({ lowerBound: e.target.value })}
+                className="font-mono h-9"
+                placeholder="none"
+              />
+            </div>
+            <div className="space-y-1.5">
+              <Label className="text-xs">Hard upper bound</Label>
+              <Input
+                type="number"
+                value={draft.upperBound}
+                onChange={(e) => updateDraft({ upperBound: e.target.value })}
+                className="font-mono h-9"
+                placeholder="none"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Without a bound the fitted range stops where the lognormal fit leaves 0.5% of outcomes beyond it.
+          </p>
+
+          {errors.map((error) => (
+            <div key={error} className="flex items-center gap-1 text-destructive text-xs">
+              <AlertCircle className="h-3 w-3" />
+              <span>{error}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          {fit ? (
+            <>
+              <div className="h-44">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={fit.curve} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+                    <XAxis
+                      dataKey="value"
+                      type="number"
+                      scale={fit.curve[0].value > 0 ? 'log' : 'linear'}
+                      domain={['dataMin', 'dataMax']}
+                      tick={{ fontSize: 10 }}
+                      tickFormatter={formatValue}
+                    />
+                    <YAxis
+                      domain={[0, 1]}
+                      tick={{ fontSize: 10 }}
+                      tickFormatter={(v) => `${(v * 100).toFixed(0)}%`}
+                    />
+                    <Tooltip
+                      formatter={(value: number) => [`${(value * 100).toFixed(1)}%`, 'P(below)']}
+                      labelFormatter={(label) => formatValue(Number(label))}
+                      contentStyle={{
+                        backgroundColor: 'hsl(var(--card))',
+                        border: '1px solid hsl(var(--border))',
+                        borderRadius: 'var(--radius)',
+                        fontSize: '12px'
+                      }}
+                    />
+                    <Line
+                      dataKey="prob"
+                      type="monotone"
+                      stroke="hsl(var(--primary))"
+                      strokeWidth={2}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                    {fit.checks.map((check) => (
+                      <ReferenceDot
+                        key={check.probability}
+                        x={check.target}
+                        y={check.probability / 100}
+                        r={4}
+                        fill="hsl(var(--chart-2))"
+                        stroke="hsl(var(--background))"
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              <p className="text-xs text-muted-foreground text-center">Fitted CDF • dots are your guesses</p>
+
+              <div className="grid grid-cols-3 gap-x-4 gap-y-1 text-sm">
+                <span className="text-xs text-muted-foreground">Percentile</span>
+                <span className="text-xs text-muted-foreground text-right">Your guess</span>
+                <span className="text-xs text-muted-foreground text-right">Fitted</span>
+                {fit.checks.map((check) => (
+                  <div key={check.probability} className="contents">
+                    <span className="text-muted-foreground">P{check.probability}</span>
+                    <span className="font-mono tabular-nums text-right">{formatValue(check.target)}</span>
+                    <span className="font-mono tabular-nums text-right">{formatValue(check.fitted)}</span>
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-xs text-muted-foreground">
+                  {fit.ranges.length === 1 ? '1 range' : `${fit.ranges.length} ranges`} •{' '}
+                  {formatValue(fit.ranges[0].min)} – {formatValue(fit.ranges[fit.ranges.length - 1].max)}
+                </p>
+                <Button size="sm" onClick={handleApply} disabled={applied}>
+                  {applied ? <Check className="h-4 w-4 mr-1" /> : null}
+                  {applied ? 'Applied' : `Replace ${TARGET_LABELS[activeTarget]} ranges`}
+                </Button>
+              </div>
+            </>
+          ) : (
+            <div className="h-44 flex items-center justify-center text-muted-foreground text-sm border border-dashed rounded-lg">
+              Fix the inputs to see the fit
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
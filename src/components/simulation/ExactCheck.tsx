@@ -0,0 +1,102 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CheckCircle2, AlertTriangle, Sigma } from "lucide-react";
+import { ConfidenceInterval, IntervalStat, SimulationResults } from "@/lib/engine-core";
+import { ExactResults } from "@/lib/exact-distribution";
+import { formatCurrency, formatDuration, formatProbability } from "@/lib/format";
+
+interface ExactCheckProps {
+  results: SimulationResults;
+  exact: ExactResults | null;  // null = the model has no exact form (correlated factors)
+  thresholds: number[];
+}
+
+const CHECKED_STATS: { key: IntervalStat; label: string }[] = [
+  { key: 'median', label: 'Median' },
+  { key: 'p10', label: 'P10' },
+  { key: 'p90', label: 'P90' },
+  { key: 'mean', label: 'Mean' },
+];
+
+interface CheckRow {
+  label: string;
+  simulated: string;
+  exact: string;
+  // Whether the exact value lies in the 95% Monte Carlo interval; undefined without one
+  agrees?: boolean;
+}
+
+function isInside(value: number, interval?: ConfidenceInterval): boolean | undefined {
+  return interval ? value >= interval.low && value <= interval.high : undefined;
+}
+
+export function ExactCheck({ results, exact, thresholds }: ExactCheckProps) {
+  if (!exact) {
+    return (
+      <Card>
+        <CardContent className="pt-6 text-xs text-muted-foreground">
+          No exact cross-check: with correlated FDV and Airdrop % the value has no closed form, so only the simulation applies.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const rows: CheckRow[] = [
+    ...CHECKED_STATS.map(({ key, label }) => ({
+      label,
+      simulated: formatCurrency(results.stats[key], 2),
+      exact: formatCurrency(exact.stats[key], 2),
+      agrees: isInside(exact.stats[key], results.intervals?.stats[key])
+    })),
+    ...thresholds
+      .filter(threshold => results.thresholdProbs[threshold] !== undefined && exact.thresholdProbs[threshold] !== undefined)
+      .map(threshold => ({
+        label: `P(≥ ${formatCurrency(threshold, 0)})`,
+        simulated: formatProbability(results.thresholdProbs[threshold]),
+        exact: formatProbability(exact.thresholdProbs[threshold]),
+        agrees: isInside(exact.thresholdProbs[threshold], results.intervals?.thresholdProbs[threshold])
+      }))
+  ];
+  const disagreements = rows.filter(row => row.agrees === false).length;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center gap-2">
+          <Sigma className="h-5 w-5 text-primary" />
+          <CardTitle className="text-base">Exact Cross-Check</CardTitle>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          The value at TGE computed without sampling, by convolving the input distributions in log space.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="grid grid-cols-[1fr_auto_auto_auto] gap-x-4 gap-y-1 text-sm items-center">
+          <span className="text-xs text-muted-foreground" />
+          <span className="text-xs text-muted-foreground text-right">Simulated</span>
+          <span className="text-xs text-muted-foreground text-right">Exact</span>
+          <span />
+          {rows.map(row => (
+            <div key={row.label} className="contents">
+              <span className="text-muted-foreground">{row.label}</span>
+              <span className="font-mono tabular-nums text-right">{row.simulated}</span>
+              <span className="font-mono tabular-nums text-right">{row.exact}</span>
+              {row.agrees === undefined ? (
+                <span />
+              ) : row.agrees ? (
+                <CheckCircle2 className="h-4 w-4 text-primary" aria-label="Within the 95% Monte Carlo error" />
+              ) : (
+                <AlertTriangle className="h-4 w-4 text-destructive" aria-label="Outside the 95% Monte Carlo error" />
+              )}
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {disagreements === 0
+            ? 'Every exact value falls within the 95% Monte Carlo error of the simulation.'
+            : `${disagreements} of ${rows.length} exact values fall outside the 95% Monte Carlo error; about 1 in 20 is expected by chance.`}
+          {' '}Exact to about {(exact.logStep * 100).toFixed(1)}% of the value • computed in {formatDuration(exact.executionTimeMs)}
+        </p>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,58 @@
+import { useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Zap } from "lucide-react";
+import { Scenario } from "@/lib/scenario";
+import { validateParams } from "@/lib/simple-monte-carlo";
+import { validateAdvancedParams } from "@/lib/advanced-monte-carlo";
+import { PREVIEW_LOG_STEP, computeScenarioExact } from "@/lib/exact-distribution";
+import { formatCurrency, formatProbability } from "@/lib/format";
+
+interface ExactPreviewProps {
+  scenario: Scenario;
+  className?: string;
+}
+
+function isValidScenario(scenario: Scenario): boolean {
+  return scenario.mode === 'classic'
+    ? validateParams(scenario.params).length === 0
+    : validateAdvancedParams(scenario.params).length === 0;
+}
+
+// Live, sampling-free estimate of the value at TGE that follows the inputs as they are edited
+export function ExactPreview({ scenario, className = "" }: ExactPreviewProps) {
+  const valid = isValidScenario(scenario);
+  const exact = useMemo(() => (valid ? computeScenarioExact(scenario, PREVIEW_LOG_STEP) : null), [scenario, valid]);
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-2">
+        <div className="flex items-center gap-2">
+          <Zap className="h-4 w-4 text-primary" />
+          <CardTitle className="text-sm">Instant Preview</CardTitle>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2 text-sm">
+        {!valid ? (
+          <p className="text-xs text-muted-foreground">Appears once the inputs are valid.</p>
+        ) : !exact ? (
+          <p className="text-xs text-muted-foreground">Not available with correlated FDV and Airdrop %; run the simulation instead.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-x-4 gap-y-1">
+              <span>Median <span className="font-mono font-medium">{formatCurrency(exact.stats.median, 0)}</span></span>
+              <span>P10–P90 <span className="font-mono">{formatCurrency(exact.stats.p10, 0)} – {formatCurrency(exact.stats.p90, 0)}</span></span>
+            </div>
+            <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+              {scenario.thresholds.map(threshold => (
+                <span key={threshold}>
+                  P(≥ {formatCurrency(threshold, 0)}) <span className="font-mono text-foreground">{formatProbability(exact.thresholdProbs[threshold])}</span>
+                </span>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">Value per NFT at TGE, computed exactly from the inputs without sampling.</p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
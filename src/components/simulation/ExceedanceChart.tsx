@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine } from "recharts";
+import { ExceedancePoint } from "@/lib/engine-core";
+import { formatCurrency } from "@/lib/format";
+
+interface ExceedanceChartProps {
+  curve: ExceedancePoint[];
+  thresholds: number[];
+  onAddThreshold: (point: ExceedancePoint) => void;
+  exactCurve?: ExceedancePoint[];  // Sampling-free curve to overlay as a cross-check
+}
+
+// Probability with enough digits to tell tail points apart
+function formatExactProbability(prob: number): string {
+  if (prob > 0 && prob < 0.001) return `${(prob * 100).toFixed(4)}%`;
+  return `${(prob * 100).toFixed(2)}%`;
+}
+
+// Exact curve at x, interpolated in log value; undefined outside the curve
+function interpolateCurve(curve: ExceedancePoint[], x: number): number | undefined {
+  if (x <= 0 || curve.length === 0 || x < curve[0].value || x > curve[curve.length - 1].value) return undefined;
+  const i = curve.findIndex(p => p.value >= x);
+  if (i <= 0) return curve[0].prob;
+  const a = curve[i - 1];
+  const b = curve[i];
+  const t = (Math.log(x) - Math.log(a.value)) / (Math.log(b.value) - Math.log(a.value));
+  return a.prob + t * (b.prob - a.prob);
+}
+
+export function ExceedanceChart({ curve, thresholds, onAddThreshold, exactCurve }: ExceedanceChartProps) {
+  const [useLogScale, setUseLogScale] = useState(true);
+
+  // Log axes cannot show zero; the curve already starts at the smallest positive sample
+  const points = useLogScale ? curve.filter(p => p.value > 0) : curve;
+  const data = exactCurve
+    ? points.map(p => ({ ...p, exactProb: interpolateCurve(exactCurve, p.value) }))
+    : points;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2 flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="text-base">Exceedance Curve</CardTitle>
+          <p className="text-xs text-muted-foreground mt-1">
+            Chance of at least each value. Click the curve to add a threshold.
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setUseLogScale(!useLogScale)}
+          className="h-7 text-xs"
+        >
+          {useLogScale ? 'Linear X' : 'Log X'}
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <div className="h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart
+              data={data}
+              margin={{ top: 10, right: 20, left: 0, bottom: 0 }}
+              onClick={(state) => {
+                const point = state?.activePayload?.[0]?.payload as ExceedancePoint | undefined;
+                if (point) onAddThreshold(point);
+              }}
+              className="cursor-crosshair"
+            >
+              <XAxis
+                dataKey="value"
+                type="number"
+                scale={useLogScale ? 'log' : 'linear'}
+                domain={['dataMin', 'dataMax']}
+                tick={{ fontSize: 10 }}
+                tickFormatter={(v) => formatCurrency(v, 0)}
+              />
+              <YAxis
+                domain={[0, 1]}
+                tick={{ fontSize: 10 }}
+                tickFormatter={(v) => `${(v * 100).toFixed(0)}%`}
+              />
+              <Tooltip
+                formatter={(value: number, name: string) => [formatExactProbability(value), name === 'exactProb' ? 'Exact' : 'P(value ≥ x)']}
+                labelFormatter={(label) => `x = ${formatCurrency(Number(label), 2)}`}
+                contentStyle={{
+                  backgroundColor: 'hsl(var(--card))',
+                  border: '1px solid hsl(var(--border))',
+                  borderRadius: 'var(--radius)',
+                  fontSize: '12px'
+                }}
+              />
+              {thresholds.map((threshold) => (
+                <ReferenceLine
+                  key={threshold}
+                  x={threshold}
+                  stroke="hsl(var(--muted-foreground))"
+                  strokeDasharray="4 4"
+                  ifOverflow="hidden"
+                />
+              ))}
+              <Line
+                dataKey="prob"
+                type="stepAfter"
+                stroke="hsl(var(--primary))"
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+              {exactCurve && (
+                <Line
+                  dataKey="exactProb"
+                  type="monotone"
+                  stroke="hsl(var(--chart-2))"
+                  strokeWidth={1.5}
+                  strokeDasharray="5 3"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+        <div className="flex justify-center gap-6 mt-2 text-xs text-muted-foreground">
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-0.5 bg-primary" />
+            <span>P(value ≥ x)</span>
+          </div>
+          {exactCurve && (
+            <div className="flex items-center gap-2">
+              <div className="w-4 h-0.5" style={{ borderTop: '2px dashed hsl(var(--chart-2))' }} />
+              <span>Exact</span>
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            <div className="w-4 h-0.5" style={{ borderTop: '2px dashed hsl(var(--muted-foreground))' }} />
+            <span>Thresholds</span>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,86 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { toast } from "@/components/ui/sonner";
+import { Download } from "lucide-react";
+import { SimulationResults } from "@/lib/engine-core";
+import { Scenario } from "@/lib/scenario";
+import {
+  buildResultsExport,
+  downloadFile,
+  exportFileName,
+  resultsToCsv,
+  resultsToJson,
+  samplesToBinary,
+  samplesToCsv,
+} from "@/lib/results-export";
+
+interface ExportResultsMenuProps {
+  scenario: Scenario;
+  results: SimulationResults;
+  keepSamples: boolean;
+  onKeepSamplesChange: (keep: boolean) => void;
+}
+
+export function ExportResultsMenu({ scenario, results, keepSamples, onKeepSamplesChange }: ExportResultsMenuProps) {
+  const values = results.values;
+
+  const exportSummary = (format: 'json' | 'csv') => {
+    const data = buildResultsExport(scenario, results);
+    if (format === 'json') {
+      downloadFile(resultsToJson(data), exportFileName(data, 'results', 'json'), 'application/json');
+    } else {
+      downloadFile(resultsToCsv(data), exportFileName(data, 'results', 'csv'), 'text/csv');
+    }
+  };
+
+  const exportSamples = (format: 'csv' | 'binary') => {
+    if (!values) return;
+    const data = buildResultsExport(scenario, results);
+    if (format === 'csv') {
+      downloadFile(samplesToCsv(values), exportFileName(data, 'samples', 'csv'), 'text/csv');
+    } else {
+      downloadFile(samplesToBinary(values), exportFileName(data, 'samples', 'f64'), 'application/octet-stream');
+    }
+    toast.success(`Exported ${values.length.toLocaleString()} samples`);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8">
+          <Download className="h-4 w-4 mr-1" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel className="text-xs">Results</DropdownMenuLabel>
+        <DropdownMenuItem onSelect={() => exportSummary('json')}>Results (JSON)</DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => exportSummary('csv')}>Results (CSV)</DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel className="text-xs">Raw samples</DropdownMenuLabel>
+        <DropdownMenuItem disabled={!values} onSelect={() => exportSamples('csv')}>Samples (CSV)</DropdownMenuItem>
+        <DropdownMenuItem disabled={!values} onSelect={() => exportSamples('binary')}>Samples (float64 binary)</DropdownMenuItem>
+        <DropdownMenuCheckboxItem
+          checked={keepSamples}
+          onCheckedChange={(checked) => onKeepSamplesChange(checked === true)}
+          onSelect={(event) => event.preventDefault()}
+        >
+          Keep raw samples on next run
+        </DropdownMenuCheckboxItem>
+        {!values && (
+          <p className="px-2 pb-1.5 text-xs text-muted-foreground">
+            Raw samples are not kept by default. Enable the option above and run again to export them.
+          </p>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
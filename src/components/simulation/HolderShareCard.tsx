@@ -0,0 +1,50 @@
+import { CustomRange, createDefaultHolderShareRanges } from "@/lib/advanced-monte-carlo";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Users } from "lucide-react";
+import { RangeSetEditor } from "./RangeSetEditor";
+
+interface HolderShareCardProps {
+  ranges?: CustomRange[];
+  maxRanges: number;
+  fieldError?: string;
+  getRangeError: (rangeId: string) => string | undefined;
+  onChange: (ranges: CustomRange[] | undefined) => void;
+}
+
+export function HolderShareCard({ ranges, maxRanges, fieldError, getRangeError, onChange }: HolderShareCardProps) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Users className="h-5 w-5 text-primary" />
+            <CardTitle className="text-lg">Holder Share</CardTitle>
+          </div>
+          <Switch
+            checked={!!ranges}
+            onCheckedChange={(checked) => onChange(checked ? createDefaultHolderShareRanges() : undefined)}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Off gives the whole airdrop to this collection. On shares it with testnet users, stakers or other collections: value per NFT is multiplied by the share going to NFT holders.
+        </p>
+      </CardHeader>
+      {ranges && (
+        <CardContent>
+          <RangeSetEditor
+            title="Holder Share"
+            description="Share of the airdrop going to NFT holders (0-100%)"
+            kind="holderShare"
+            ranges={ranges}
+            newRange={{ min: 30, max: 60, distributionType: 'uniform', weight: 20 }}
+            maxRanges={maxRanges}
+            fieldError={fieldError}
+            getRangeError={getRangeError}
+            onChange={onChange}
+          />
+        </CardContent>
+      )}
+    </Card>
+  );
+}
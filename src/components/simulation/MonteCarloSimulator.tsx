@@ -2,7 +2,9 @@ import { useState, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Play, AlertTriangle, Loader2 } from "lucide-react";
-import { SimulationParams, SimulationResults, PRESETS, runSimulation } from "@/lib/monte-carlo";
+import { SimulationParams, SimulationResults, PRESETS } from "@/lib/monte-carlo";
+import { useSimulationWorker } from "@/hooks/use-simulation-worker";
+import { toast } from "@/components/ui/sonner";
 import { FDVDistributionPanel } from "./FDVDistributionPanel";
 import { DropDistributionPanel } from "./DropDistributionPanel";
 import { SimulationSettings } from "./SimulationSettings";
@@ -10,6 +12,7 @@ import { PresetButtons } from "./PresetButtons";
 import { ResultsHistogram } from "./ResultsHistogram";
 import { StatisticsPanel } from "./StatisticsPanel";
 import { ThresholdAnalysis } from "./ThresholdAnalysis";
+import { SimulationProgressBar } from "./SimulationProgressBar";
 
 const DEFAULT_THRESHOLDS = [60, 120, 300];
 
@@ -23,7 +26,7 @@ export function MonteCarloSimulator() {
   const [activePreset, setActivePreset] = useState<string | null>('base');
   const [results, setResults] = useState<SimulationResults | null>(null);
   const [thresholds, setThresholds] = useState<number[]>(DEFAULT_THRESHOLDS);
-  const [isRunning, setIsRunning] = useState(false);
+  const { run: runInWorker, cancel: cancelSimulation, isRunning, progress } = useSimulationWorker();
 
   const handleParamChange = useCallback((key: string, value: number) => {
     setParams(prev => ({ ...prev, [key]: value }));
@@ -42,19 +45,17 @@ export function MonteCarloSimulator() {
   }, []);
 
   const handleRunSimulation = useCallback(() => {
-    setIsRunning(true);
+    const simParams: SimulationParams = useDeterministicSeed 
+      ? params 
+      : { ...params, seed: undefined };
     
-    // Use setTimeout to allow UI to update before heavy computation
-    setTimeout(() => {
-      const simParams: SimulationParams = useDeterministicSeed 
-        ? params 
-        : { ...params, seed: undefined };
-      
-      const newResults = runSimulation(simParams, thresholds);
-      setResults(newResults);
-      setIsRunning(false);
-    }, 10);
-  }, [params, useDeterministicSeed, thresholds]);
+    // Runs in a worker so the UI stays responsive; null means cancelled
+    runInWorker({ engine: 'legacy', params: simParams, thresholds }).then(newResults => {
+      if (newResults) setResults(newResults);
+    }).catch(error => {
+      toast.error("Simulation failed", { description: error instanceof Error ? error.message : undefined });
+    });
+  }, [params, useDeterministicSeed, thresholds, runInWorker]);
 
   return (
     <div className="min-h-screen bg-background">
@@ -141,6 +142,10 @@ export function MonteCarloSimulator() {
                 </>
               )}
             </Button>
+
+            {isRunning && progress && (
+              <SimulationProgressBar progress={progress} onCancel={cancelSimulation} />
+            )}
           </div>
 
           {/* Right Panel - Results */}
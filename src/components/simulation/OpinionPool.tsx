@@ -0,0 +1,372 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "@/components/ui/sonner";
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, Legend } from "recharts";
+import { AlertCircle, ExternalLink, Loader2, Play, Trash2, Users } from "lucide-react";
+import { validateAdvancedParams } from "@/lib/advanced-monte-carlo";
+import { SimulationResults } from "@/lib/engine-core";
+import { COMPARED_STATS } from "@/lib/comparison";
+import { Scenario } from "@/lib/scenario";
+import { ScenarioImportResult } from "@/lib/scenario-import";
+import { SavedScenario, generateScenarioId } from "@/lib/scenario-storage";
+import { buildShareUrl } from "@/lib/scenario-url";
+import {
+  Analyst,
+  MAX_ANALYSTS,
+  MIN_ANALYSTS,
+  POOLING_METHODS,
+  PoolingMethod,
+  poolForecasts,
+  poolThresholds,
+  validateAnalysts,
+} from "@/lib/opinion-pool";
+import { formatCurrency, formatProbability } from "@/lib/format";
+import { useSimulationWorker } from "@/hooks/use-simulation-worker";
+import { ImportScenarioButton } from "./ScenarioImport";
+import { SimulationProgressBar } from "./SimulationProgressBar";
+
+interface OpinionPoolProps {
+  library: SavedScenario[];
+}
+
+const SCENARIO_COLORS = [
+  "hsl(var(--chart-1))",
+  "hsl(var(--chart-2))",
+  "hsl(var(--chart-3))",
+  "hsl(var(--chart-4))",
+  "hsl(var(--chart-5))",
+];
+
+export function OpinionPool({ library }: OpinionPoolProps) {
+  const [analysts, setAnalysts] = useState<Analyst[]>([]);
+  const [results, setResults] = useState<Record<string, SimulationResults>>({});
+  const [method, setMethod] = useState<PoolingMethod>('linear');
+  const [runningName, setRunningName] = useState<string | null>(null);
+  const { run, cancel, isRunning, progress } = useSimulationWorker();
+
+  const advancedLibrary = library.filter((s) => s.scenario.mode === 'advanced');
+  const errors = validateAnalysts(analysts);
+  const pending = analysts.filter((a) => !results[a.id]);
+  const thresholds = useMemo(() => poolThresholds(analysts), [analysts]);
+
+  const addScenario = (name: string, scenario: Scenario) => {
+    if (scenario.mode !== 'advanced') {
+      toast.error("Only Advanced scenarios can be pooled");
+      return;
+    }
+    if (analysts.length >= MAX_ANALYSTS) {
+      toast.error(`At most ${MAX_ANALYSTS} analysts can be pooled`);
+      return;
+    }
+    if (validateAdvancedParams(scenario.params).length > 0) {
+      toast.error(`${name} has invalid inputs`, { description: "Fix it in the simulator first." });
+      return;
+    }
+    setAnalysts([...analysts, { id: generateScenarioId(), name, weight: 1, params: scenario.params, thresholds: scenario.thresholds }]);
+  };
+
+  const handleImport = (result: ScenarioImportResult) => {
+    if (result.ok === false) {
+      toast.error(result.message);
+      return;
+    }
+    addScenario(`Analyst ${analysts.length + 1}`, result.scenario);
+  };
+
+  const updateAnalyst = (id: string, changes: Partial<Analyst>) => {
+    setAnalysts((prev) => prev.map((a) => (a.id === id ? { ...a, ...changes } : a)));
+  };
+
+  const removeAnalyst = (id: string) => {
+    setAnalysts(analysts.filter((a) => a.id !== id));
+    setResults(({ [id]: _removed, ...rest }) => rest);
+  };
+
+  // Run every analyst without results, one after another, each from its own params
+  const handleRun = async () => {
+    for (const analyst of pending) {
+      setRunningName(analyst.name);
+      let runResults: SimulationResults | null;
+      try {
+        runResults = await run({ engine: 'advanced', params: analyst.params, thresholds: analyst.thresholds }, true);
+      } catch (error) {
+        toast.error(`${analyst.name}: simulation failed`, { description: error instanceof Error ? error.message : undefined });
+        break;
+      }
+      if (!runResults) break;  // Cancelled
+      // Pin the seed so the analyst's params alone reproduce this run
+      updateAnalyst(analyst.id, { params: { ...analyst.params, seed: runResults.seed } });
+      setResults((prev) => ({ ...prev, [analyst.id]: runResults }));
+    }
+    setRunningName(null);
+  };
+
+  const handleOpen = async (analyst: Analyst) => {
+    window.open(await buildShareUrl({ mode: 'advanced', params: analyst.params, thresholds: analyst.thresholds }), "_blank", "noopener");
+  };
+
+  const ready = errors.length === 0 && pending.length === 0;
+  const pooled = useMemo(() => {
+    if (!ready) return null;
+    return poolForecasts(analysts.map((a) => results[a.id].values), analysts.map((a) => a.weight), method, thresholds);
+  }, [ready, analysts, results, method, thresholds]);
+
+  const chartData = useMemo(
+    () =>
+      pooled?.grid.map((point) => ({
+        value: point.value,
+        pooled: point.pooled,
+        ...Object.fromEntries(point.analysts.map((density, i) => [`analyst${i}`, density])),
+      })) ?? [],
+    [pooled]
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* Analysts */}
+      <Card>
+        <CardHeader className="pb-3">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div className="flex items-center gap-2">
+              <Users className="h-5 w-5 text-primary" />
+              <CardTitle className="text-lg">Analysts</CardTitle>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value="" onValueChange={(id) => {
+                const saved = advancedLibrary.find((s) => s.id === id);
+                if (saved) addScenario(saved.name, saved.scenario);
+              }}>
+                <SelectTrigger className="h-9 w-48" disabled={advancedLibrary.length === 0}>
+                  <SelectValue placeholder="Add from library" />
+                </SelectTrigger>
+                <SelectContent>
+                  {advancedLibrary.map((s) => (
+                    <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <ImportScenarioButton onImport={handleImport} />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Add {MIN_ANALYSTS}–{MAX_ANALYSTS} Advanced scenarios, one per analyst, and weight how much each view counts.
+            Each is simulated from its own inputs and seed, so any single run can be reopened and reproduced.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {analysts.length === 0 ? (
+            <div className="p-4 border border-dashed rounded-lg text-center text-sm text-muted-foreground">
+              Add scenarios from the library or import scenario files
+            </div>
+          ) : (
+            analysts.map((analyst, i) => {
+              const analystResults = results[analyst.id];
+              return (
+                <div key={analyst.id} className="flex flex-wrap items-center gap-3 rounded-lg border p-3">
+                  <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: SCENARIO_COLORS[i] }} />
+                  <Input
+                    value={analyst.name}
+                    onChange={(e) => updateAnalyst(analyst.id, { name: e.target.value })}
+                    className="h-8 w-40"
+                  />
+                  <div className="flex items-center gap-1.5">
+                    <span className="text-xs text-muted-foreground">Weight</span>
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.5"
+                      value={analyst.weight}
+                      onChange={(e) => updateAnalyst(analyst.id, { weight: parseFloat(e.target.value) || 0 })}
+                      className="h-8 w-20 font-mono"
+                    />
+                    {pooled && (
+                      <span className="text-xs text-muted-foreground tabular-nums">= {formatProbability(pooled.weights[i])}</span>
+                    )}
+                  </div>
+                  <span className="flex-1 text-xs text-muted-foreground tabular-nums">
+                    {analystResults
+                      ? `Median ${formatCurrency(analystResults.stats.median, 0)} • seed ${analystResults.seed}`
+                      : 'Not run yet'}
+                  </span>
+                  <Button variant="ghost" size="sm" className="h-8" onClick={() => handleOpen(analyst)}>
+                    <ExternalLink className="h-4 w-4 mr-1" />
+                    Open
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive"
+                    onClick={() => removeAnalyst(analyst.id)}
+                    disabled={isRunning}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              );
+            })
+          )}
+
+          {errors.map((error) => (
+            <div key={error} className="flex items-center gap-1 text-destructive text-xs">
+              <AlertCircle className="h-3 w-3" />
+              <span>{error}</span>
+            </div>
+          ))}
+
+          <div className="flex flex-wrap items-center justify-between gap-3 pt-2">
+            <div className="space-y-1">
+              <Tabs value={method} onValueChange={(v) => setMethod(v as PoolingMethod)}>
+                <TabsList className="h-8">
+                  {(Object.keys(POOLING_METHODS) as PoolingMethod[]).map((m) => (
+                    <TabsTrigger key={m} value={m} className="text-xs">{POOLING_METHODS[m].label}</TabsTrigger>
+                  ))}
+                </TabsList>
+              </Tabs>
+              <p className="text-xs text-muted-foreground">{POOLING_METHODS[method].description}</p>
+            </div>
+            <Button onClick={handleRun} disabled={isRunning || pending.length === 0}>
+              {isRunning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+              {pending.length === 0 ? 'All analysts run' : `Run ${pending.length} ${pending.length === 1 ? 'analyst' : 'analysts'}`}
+            </Button>
+          </div>
+          {isRunning && progress && (
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">Simulating {runningName}…</p>
+              <SimulationProgressBar progress={progress} onCancel={cancel} />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {ready && !pooled && (
+        <div className="h-32 flex items-center justify-center rounded-lg border bg-card">
+          <p className="text-sm text-muted-foreground">
+            The analysts' distributions do not overlap, so the logarithmic pool is empty. Try linear pooling.
+          </p>
+        </div>
+      )}
+
+      {pooled && (
+        <>
+          {/* Analysts vs consensus */}
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Analysts vs Consensus</CardTitle>
+              <p className="text-xs text-muted-foreground">Probability per decade of value per NFT (log scale)</p>
+            </CardHeader>
+            <CardContent>
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+                    <XAxis
+                      dataKey="value"
+                      type="number"
+                      scale="log"
+                      domain={["dataMin", "dataMax"]}
+                      tick={{ fontSize: 10 }}
+                      tickFormatter={(v) => formatCurrency(v, 0)}
+                    />
+                    <YAxis tick={{ fontSize: 10 }} tickFormatter={(v) => v.toFixed(2)} />
+                    <Tooltip
+                      formatter={(value: number, name: string) => [value.toFixed(3), name]}
+                      labelFormatter={(label) => `Value: ${formatCurrency(Number(label), 0)}`}
+                      contentStyle={{
+                        backgroundColor: 'hsl(var(--card))',
+                        border: '1px solid hsl(var(--border))',
+                        borderRadius: 'var(--radius)',
+                        fontSize: '12px'
+                      }}
+                    />
+                    <Legend wrapperStyle={{ fontSize: "11px" }} />
+                    {analysts.map((analyst, i) => (
+                      <Line
+                        key={analyst.id}
+                        dataKey={`analyst${i}`}
+                        name={analyst.name}
+                        type="monotone"
+                        stroke={SCENARIO_COLORS[i]}
+                        strokeWidth={1.5}
+                        strokeOpacity={0.8}
+                        dot={false}
+                        isAnimationActive={false}
+                      />
+                    ))}
+                    <Line
+                      dataKey="pooled"
+                      name="Consensus"
+                      type="monotone"
+                      stroke="hsl(var(--foreground))"
+                      strokeWidth={3}
+                      dot={false}
+                      isAnimationActive={false}
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Statistics */}
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Statistics</CardTitle>
+              <p className="text-xs text-muted-foreground">
+                Consensus by {POOLING_METHODS[method].label.toLowerCase()} pooling; percentiles within about 2% from the shared grid
+              </p>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Statistic</TableHead>
+                    {analysts.map((analyst, i) => (
+                      <TableHead key={analyst.id} className="text-right" style={{ color: SCENARIO_COLORS[i] }}>{analyst.name}</TableHead>
+                    ))}
+                    <TableHead className="text-right font-semibold text-foreground">Consensus</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {COMPARED_STATS.map(({ key, label }) => (
+                    <TableRow key={key}>
+                      <TableCell className="font-medium">{label}</TableCell>
+                      {analysts.map((analyst) => (
+                        <TableCell key={analyst.id} className="text-right font-mono tabular-nums">
+                          {formatCurrency(results[analyst.id].stats[key], 0)}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right font-mono tabular-nums font-semibold bg-primary/10">
+                        {formatCurrency(pooled.stats[key], 0)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {thresholds.map((threshold) => (
+                    <TableRow key={threshold}>
+                      <TableCell className="font-medium">P(≥ {formatCurrency(threshold, 0)})</TableCell>
+                      {analysts.map((analyst) => {
+                        const prob = results[analyst.id].thresholdProbs[threshold];
+                        return (
+                          <TableCell key={analyst.id} className="text-right font-mono tabular-nums">
+                            {prob === undefined ? '—' : formatProbability(prob)}
+                          </TableCell>
+                        );
+                      })}
+                      <TableCell className="text-right font-mono tabular-nums font-semibold bg-primary/10">
+                        {formatProbability(pooled.thresholdProbs[threshold])}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <p className="text-xs text-muted-foreground mt-2">— = threshold was not in that analyst's scenario</p>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
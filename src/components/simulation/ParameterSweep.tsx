@@ -0,0 +1,242 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertCircle, Grid3x3, X } from "lucide-react";
+import { toast } from "@/components/ui/sonner";
+import { useAnalysisWorker } from "@/hooks/use-simulation-worker";
+import { SimpleSimulationParams } from "@/lib/simple-monte-carlo";
+import {
+  MAX_SWEEP_STEPS,
+  MIN_SWEEP_STEPS,
+  SWEEP_FIELDS,
+  SweepAxis,
+  SweepCell,
+  SweepField,
+  SweepResult,
+  validateSweepAxes,
+} from "@/lib/parameter-sweep";
+import { formatCurrency, formatProbability } from "@/lib/format";
+
+interface ParameterSweepProps {
+  params: SimpleSimulationParams;
+  thresholds: number[];
+}
+
+// 'median' | 'p10' | 'p90', or 'prob:<threshold>'
+type SweepMetric = string;
+
+const STAT_METRICS = [
+  { key: 'median', label: 'Median' },
+  { key: 'p10', label: 'P10' },
+  { key: 'p90', label: 'P90' },
+] as const;
+
+function formatAxisValue(field: SweepField, value: number): string {
+  switch (SWEEP_FIELDS[field].unit) {
+    case 'millions':
+      return formatCurrency(value * 1_000_000, 0);
+    case 'percent':
+      return `${Number(value.toFixed(1))}%`;
+    default:
+      return value.toLocaleString();
+  }
+}
+
+function isProbabilityMetric(metric: SweepMetric): boolean {
+  return metric.startsWith('prob:');
+}
+
+function metricValue(cell: SweepCell, metric: SweepMetric): number | undefined {
+  if (isProbabilityMetric(metric)) return cell.thresholdProbs[Number(metric.slice(5))];
+  return cell[metric as 'median' | 'p10' | 'p90'];
+}
+
+function formatMetric(metric: SweepMetric, value: number): string {
+  return isProbabilityMetric(metric) ? formatProbability(value) : formatCurrency(value, 0);
+}
+
+function AxisEditor({ name, axis, onChange }: { name: string; axis: SweepAxis; onChange: (axis: SweepAxis) => void }) {
+  return (
+    <div className="grid grid-cols-[2fr_1fr_1fr_1fr] gap-2 items-end">
+      <div className="space-y-1">
+        <Label className="text-xs">{name} axis</Label>
+        <Select value={axis.field} onValueChange={(field: SweepField) => onChange({ ...axis, field })}>
+          <SelectTrigger className="h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(SWEEP_FIELDS) as SweepField[]).map((field) => (
+              <SelectItem key={field} value={field}>{SWEEP_FIELDS[field].label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {(['from', 'to', 'steps'] as const).map((key) => (
+        <div key={key} className="space-y-1">
+          <Label className="text-xs capitalize">{key}</Label>
+          <Input
+            type="number"
+            min={key === 'steps' ? MIN_SWEEP_STEPS : 0}
+            max={key === 'steps' ? MAX_SWEEP_STEPS : undefined}
+            value={axis[key]}
+            onChange={(e) => onChange({ ...axis, [key]: key === 'steps' ? parseInt(e.target.value) || 0 : parseFloat(e.target.value) || 0 })}
+            className="h-8 font-mono"
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function ParameterSweep({ params, thresholds }: ParameterSweepProps) {
+  const [xAxis, setXAxis] = useState<SweepAxis>(() => ({ field: 'fdvMaxM', from: params.fdvMaxM / 2, to: params.fdvMaxM * 2, steps: 6 }));
+  const [yAxis, setYAxis] = useState<SweepAxis>(() => ({ field: 'dropMaxPct', from: Math.max(1, params.dropMaxPct / 2), to: Math.min(100, params.dropMaxPct * 1.5), steps: 6 }));
+  const [metric, setMetric] = useState<SweepMetric>(() => (thresholds.length > 0 ? `prob:${thresholds[0]}` : 'median'));
+  const [result, setResult] = useState<SweepResult | null>(null);
+  const [hovered, setHovered] = useState<SweepCell | null>(null);
+  // Cancel terminates the worker, as it does for the main run
+  const { run, cancel: handleCancel, progress } = useAnalysisWorker();
+
+  const axisErrors = validateSweepAxes(xAxis, yAxis);
+
+  const handleRun = () => {
+    run({ kind: 'sweep', base: params, xAxis, yAxis, thresholds }, xAxis.steps * yAxis.steps)
+      .then(next => {
+        if (!next) return;
+        setHovered(null);
+        setResult(next);
+        // Keep the metric valid for the thresholds the sweep was run with
+        if (isProbabilityMetric(metric) && !thresholds.includes(Number(metric.slice(5)))) setMetric('median');
+      })
+      .catch(error => toast.error("Parameter sweep failed", { description: error instanceof Error ? error.message : undefined }));
+  };
+
+  // Color scale: probabilities on [0, 1], currency on a log scale across the grid
+  const values = result
+    ? result.cells.flat().map(cell => (cell ? metricValue(cell, metric) : undefined)).filter((v): v is number => v !== undefined)
+    : [];
+  const positive = values.filter(v => v > 0);
+  const logMin = positive.length > 0 ? Math.log(Math.min(...positive)) : 0;
+  const logMax = positive.length > 0 ? Math.log(Math.max(...positive)) : 0;
+  const intensity = (value: number) => {
+    if (isProbabilityMetric(metric)) return value;
+    if (value <= 0 || logMax === logMin) return value > 0 ? 1 : 0;
+    return (Math.log(value) - logMin) / (logMax - logMin);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center gap-2">
+          <Grid3x3 className="h-5 w-5 text-primary" />
+          <CardTitle className="text-base">Parameter Sweep</CardTitle>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Vary two inputs over a grid (other inputs as currently set) and compare one output across every combination.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-3">
+          <AxisEditor name="X" axis={xAxis} onChange={setXAxis} />
+          <AxisEditor name="Y" axis={yAxis} onChange={setYAxis} />
+          {axisErrors.map((message) => (
+            <div key={message} className="flex items-center gap-1 text-destructive text-xs">
+              <AlertCircle className="h-3 w-3" />
+              <span>{message}</span>
+            </div>
+          ))}
+          <div className="flex items-center gap-2">
+            <Select value={metric} onValueChange={setMetric}>
+              <SelectTrigger className="h-8 w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STAT_METRICS.map(({ key, label }) => (
+                  <SelectItem key={key} value={key}>{label}</SelectItem>
+                ))}
+                {(result?.thresholds ?? thresholds).map((threshold) => (
+                  <SelectItem key={threshold} value={`prob:${threshold}`}>P(≥ {formatCurrency(threshold, 0)})</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={handleRun} disabled={!!progress || axisErrors.length > 0} className="h-8 text-xs">
+              Run sweep ({(xAxis.steps * yAxis.steps || 0).toLocaleString()} runs)
+            </Button>
+          </div>
+        </div>
+
+        {progress && (
+          <div className="flex items-center gap-2">
+            <Progress value={(progress.completed / progress.total) * 100} className="h-2 flex-1" />
+            <span className="text-xs text-muted-foreground tabular-nums">{progress.completed}/{progress.total}</span>
+            <Button variant="outline" size="sm" onClick={handleCancel} className="h-7 text-xs">
+              <X className="mr-1 h-3 w-3" />
+              Cancel
+            </Button>
+          </div>
+        )}
+
+        {result && (
+          <div className="space-y-2">
+            <div
+              className="grid gap-px text-[10px]"
+              style={{ gridTemplateColumns: `auto repeat(${result.xValues.length}, minmax(0, 1fr))` }}
+              onMouseLeave={() => setHovered(null)}
+            >
+              {/* Highest Y on top */}
+              {result.yValues.map((_, i) => result.yValues.length - 1 - i).map((row) => (
+                <div key={row} className="contents">
+                  <div className="pr-2 flex items-center justify-end text-muted-foreground font-mono">
+                    {formatAxisValue(result.yAxis.field, result.yValues[row])}
+                  </div>
+                  {result.cells[row].map((cell, col) => {
+                    const value = cell ? metricValue(cell, metric) : undefined;
+                    const level = value === undefined ? 0 : intensity(value);
+                    return (
+                      <div
+                        key={col}
+                        className={`h-9 flex items-center justify-center rounded-sm font-mono tabular-nums ${value === undefined ? 'bg-muted text-muted-foreground' : level > 0.55 ? 'text-primary-foreground' : 'text-foreground'}`}
+                        style={value === undefined ? undefined : { backgroundColor: `hsl(var(--primary) / ${0.08 + level * 0.92})` }}
+                        onMouseEnter={() => setHovered(cell)}
+                      >
+                        {value === undefined ? '—' : formatMetric(metric, value)}
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+              <div />
+              {result.xValues.map((x) => (
+                <div key={x} className="pt-1 text-center text-muted-foreground font-mono">
+                  {formatAxisValue(result.xAxis.field, x)}
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground text-center">
+              X: {SWEEP_FIELDS[result.xAxis.field].label} • Y: {SWEEP_FIELDS[result.yAxis.field].label} • {result.numSamples.toLocaleString()} samples per cell • Seed {result.seed}
+            </p>
+            <div className="min-h-10 rounded-md bg-muted/40 p-2 text-xs">
+              {hovered ? (
+                <div className="flex flex-wrap gap-x-4 gap-y-1">
+                  <span>{SWEEP_FIELDS[result.xAxis.field].label}: <span className="font-mono">{formatAxisValue(result.xAxis.field, hovered.x)}</span></span>
+                  <span>{SWEEP_FIELDS[result.yAxis.field].label}: <span className="font-mono">{formatAxisValue(result.yAxis.field, hovered.y)}</span></span>
+                  <span>Median: <span className="font-mono">{formatCurrency(hovered.median, 0)}</span></span>
+                  <span>P10–P90: <span className="font-mono">{formatCurrency(hovered.p10, 0)} – {formatCurrency(hovered.p90, 0)}</span></span>
+                  {result.thresholds.map((threshold) => (
+                    <span key={threshold}>P(≥ {formatCurrency(threshold, 0)}): <span className="font-mono">{formatProbability(hovered.thresholdProbs[threshold])}</span></span>
+                  ))}
+                </div>
+              ) : (
+                <span className="text-muted-foreground">Hover a cell for details. Grey cells have invalid inputs (e.g. Min above Max).</span>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
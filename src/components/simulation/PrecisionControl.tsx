@@ -0,0 +1,45 @@
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { DEFAULT_TARGET_PRECISION } from "@/lib/engine-core";
+
+interface PrecisionControlProps {
+  targetPrecision?: number;
+  onChange: (targetPrecision: number | undefined) => void;
+}
+
+export function PrecisionControl({ targetPrecision, onChange }: PrecisionControlProps) {
+  const enabled = targetPrecision !== undefined;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between p-3 bg-muted/30 rounded-lg">
+        <div className="space-y-0.5">
+          <Label className="text-sm font-medium">Auto-Stop</Label>
+          <p className="text-xs text-muted-foreground">
+            Stop early once the median is precise enough; simulations become the maximum
+          </p>
+        </div>
+        <Switch
+          checked={enabled}
+          onCheckedChange={(checked) => onChange(checked ? DEFAULT_TARGET_PRECISION : undefined)}
+        />
+      </div>
+
+      {enabled && (
+        <div className="flex items-center gap-3">
+          <Label className="text-sm">Median within ±</Label>
+          <Input
+            type="number"
+            step={0.1}
+            min={0}
+            value={targetPrecision}
+            onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+            className="w-24 h-8 font-mono text-sm"
+          />
+          <span className="text-sm text-muted-foreground">% (95% confidence)</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from "react";
-import { CustomRange, DistributionType } from "@/lib/advanced-monte-carlo";
+import { CustomRange, DistributionType, RangeKind, isCurrencyRange, withDistributionType } from "@/lib/advanced-monte-carlo";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -11,7 +11,7 @@ import { ChevronDown, ChevronUp, Trash2, AlertCircle } from "lucide-react";
 interface RangeCardProps {
   range: CustomRange;
   index: number;
-  type: 'fdv' | 'drop';
+  type: RangeKind;
   onUpdate: (range: CustomRange) => void;
   onRemove: () => void;
   canRemove: boolean;
@@ -34,15 +34,112 @@ const DISTRIBUTION_LABELS: Record<DistributionType, { label: string; description
   predictionCentric: {
     label: "Prediction-Centric",
     description: "Concentrates around your expected outcome"
+  },
+  logUniform: {
+    label: "Log-Uniform",
+    description: "Each order of magnitude equally likely"
+  },
+  lognormal: {
+    label: "Lognormal",
+    description: "Right-skewed around a median, cut at the range"
+  },
+  pert: {
+    label: "PERT",
+    description: "Smooth curve peaking at the most likely value"
+  },
+  triangular: {
+    label: "Triangular",
+    description: "Rises to the most likely value, then falls"
+  },
+  trapezoid: {
+    label: "Trapezoid",
+    description: "Flat across a plateau, tapering to both ends"
+  },
+  truncatedExponential: {
+    label: "Exponential Decay",
+    description: "Highest at minimum, halving every half-life"
+  },
+  empirical: {
+    label: "Empirical",
+    description: "Past launches from a reference class"
+  }
+};
+
+// Shape parameters shown under the selector, by distribution type
+type ShapeField = 'mode' | 'plateauMin' | 'plateauMax' | 'median' | 'sigma' | 'halfLife' | 'bandwidth';
+
+// Log-space spreads, entered without a unit
+const UNITLESS_FIELDS: ShapeField[] = ['sigma', 'bandwidth'];
+
+const SHAPE_FIELDS: Partial<Record<DistributionType, { hint: string; fields: { key: ShapeField; label: string }[] }>> = {
+  pert: {
+    hint: "Beta-shaped curve with its peak at the most likely value",
+    fields: [{ key: 'mode', label: "Most Likely" }]
+  },
+  triangular: {
+    hint: "Density rises linearly from Min to the most likely value, then falls to Max",
+    fields: [{ key: 'mode', label: "Most Likely" }]
+  },
+  trapezoid: {
+    hint: "Equally likely across the plateau, falling linearly to Min and Max",
+    fields: [{ key: 'plateauMin', label: "Plateau Start" }, { key: 'plateauMax', label: "Plateau End" }]
+  },
+  lognormal: {
+    hint: "Half of outcomes fall below the median before cutting to the range; σ is the spread of ln(value) (0.5 ≈ ×1.65 per σ)",
+    fields: [{ key: 'median', label: "Median" }, { key: 'sigma', label: "Spread (σ)" }]
+  },
+  truncatedExponential: {
+    hint: "Most likely at Min; the density halves every half-life above it",
+    fields: [{ key: 'halfLife', label: "Half-life" }]
+  },
+  empirical: {
+    hint: "Values from the Reference Class panel. Smoothing 0 resamples them as-is; above 0 spreads each over a lognormal bump of that log-σ",
+    fields: [{ key: 'bandwidth', label: "Smoothing (σ)" }]
   }
 };
 
+interface ValueInputProps {
+  label: string;
+  value: number | undefined;
+  placeholder?: string;
+  isCurrency: boolean;
+  unitLabel?: string;
+  step: string;
+  onChange: (value: number) => void;
+}
+
+function ValueInput({ label, value, placeholder, isCurrency, unitLabel, step, onChange }: ValueInputProps) {
+  return (
+    <div className="space-y-1.5">
+      <Label className="text-xs">{label}</Label>
+      <div className="relative">
+        {isCurrency && (
+          <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">$</span>
+        )}
+        <Input
+          type="number"
+          step={step}
+          value={value ?? ''}
+          onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+          className={`font-mono ${isCurrency ? 'pl-7' : ''} ${unitLabel ? 'pr-8' : ''}`}
+          placeholder={placeholder}
+        />
+        {unitLabel && (
+          <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground text-xs">
+            {unitLabel}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
 export function RangeCard({ range, index, type, onUpdate, onRemove, canRemove, error }: RangeCardProps) {
   const [isOpen, setIsOpen] = useState(true);
   
-  const isFDV = type === 'fdv';
-  const unitLabel = isFDV ? "M" : "%";
-  const prefixLabel = isFDV ? "$" : "";
+  const isCurrency = isCurrencyRange(type);
+  const unitLabel = isCurrency ? "M" : "%";
+  const prefixLabel = isCurrency ? "$" : "";
   
   const handleMinChange = (value: string) => {
     onUpdate({ ...range, min: parseFloat(value) || 0 });
@@ -53,31 +150,20 @@ export function RangeCard({ range, index, type, onUpdate, onRemove, canRemove, e
   };
   
   const handleDistributionChange = (value: DistributionType) => {
-    const updated: CustomRange = { ...range, distributionType: value };
-    // Clear expected values when switching away from prediction-centric
-    if (value !== 'predictionCentric') {
-      delete updated.expectedMin;
-      delete updated.expectedMax;
-    } else {
-      // Initialize with midpoint of range
-      updated.expectedMin = range.min + (range.max - range.min) * 0.3;
-      updated.expectedMax = range.min + (range.max - range.min) * 0.7;
-    }
-    onUpdate(updated);
+    onUpdate(withDistributionType(range, value));
   };
   
-  const handleExpectedMinChange = (value: string) => {
-    onUpdate({ ...range, expectedMin: parseFloat(value) || 0 });
-  };
-  
-  const handleExpectedMaxChange = (value: string) => {
-    onUpdate({ ...range, expectedMax: parseFloat(value) || 0 });
+  const handleFieldChange = (key: 'expectedMin' | 'expectedMax' | ShapeField, value: number) => {
+    onUpdate({ ...range, [key]: value });
   };
 
   const handleWeightChange = (value: string) => {
     onUpdate({ ...range, weight: Math.max(0, parseFloat(value) || 0) });
   };
 
+  const valueStep = isCurrency ? "1" : "0.1";
+  const shape = SHAPE_FIELDS[range.distributionType];
+
   return (
     <Collapsible open={isOpen} onOpenChange={setIsOpen}>
       <Card className={error ? "border-destructive" : ""}>
@@ -118,15 +204,15 @@ export function RangeCard({ range, index, type, onUpdate, onRemove, canRemove, e
               <div className="space-y-1.5">
                 <Label className="text-xs">Min</Label>
                 <div className="relative">
-                  {isFDV && (
+                  {isCurrency && (
                     <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">$</span>
                   )}
                   <Input
                     type="number"
-                    step={isFDV ? "1" : "0.1"}
+                    step={isCurrency ? "1" : "0.1"}
                     value={range.min}
                     onChange={(e) => handleMinChange(e.target.value)}
-                    className={`font-mono ${isFDV ? 'pl-7' : ''} pr-8`}
+                    className={`font-mono ${isCurrency ? 'pl-7' : ''} pr-8`}
                   />
                   <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground text-xs">
                     {unitLabel}
@@ -136,15 +222,15 @@ export function RangeCard({ range, index, type, onUpdate, onRemove, canRemove, e
               <div className="space-y-1.5">
                 <Label className="text-xs">Max</Label>
                 <div className="relative">
-                  {isFDV && (
+                  {isCurrency && (
                     <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">$</span>
                   )}
                   <Input
                     type="number"
-                    step={isFDV ? "1" : "0.1"}
+                    step={isCurrency ? "1" : "0.1"}
                     value={range.max}
                     onChange={(e) => handleMaxChange(e.target.value)}
-                    className={`font-mono ${isFDV ? 'pl-7' : ''} pr-8`}
+                    className={`font-mono ${isCurrency ? 'pl-7' : ''} pr-8`}
                   />
                   <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground text-xs">
                     {unitLabel}
@@ -177,14 +263,17 @@ export function RangeCard({ range, index, type, onUpdate, onRemove, canRemove, e
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {Object.entries(DISTRIBUTION_LABELS).map(([key, { label, description }]) => (
-                    <SelectItem key={key} value={key}>
-                      <div className="flex flex-col items-start">
-                        <span>{label}</span>
-                        <span className="text-xs text-muted-foreground">{description}</span>
-                      </div>
-                    </SelectItem>
-                  ))}
+                  {Object.entries(DISTRIBUTION_LABELS)
+                    // Empirical values only come from a reference class
+                    .filter(([key]) => key !== 'empirical' || range.distributionType === 'empirical')
+                    .map(([key, { label, description }]) => (
+                      <SelectItem key={key} value={key}>
+                        <div className="flex flex-col items-start">
+                          <span>{label}</span>
+                          <span className="text-xs text-muted-foreground">{description}</span>
+                        </div>
+                      </SelectItem>
+                    ))}
                 </SelectContent>
               </Select>
             </div>
@@ -196,44 +285,52 @@ export function RangeCard({ range, index, type, onUpdate, onRemove, canRemove, e
                   Define where outcomes should concentrate (70% of results will fall within this range)
                 </p>
                 <div className="grid grid-cols-2 gap-3">
-                  <div className="space-y-1.5">
-                    <Label className="text-xs">Expected Min</Label>
-                    <div className="relative">
-                      {isFDV && (
-                        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">$</span>
-                      )}
-                      <Input
-                        type="number"
-                        step={isFDV ? "1" : "0.1"}
-                        value={range.expectedMin ?? ''}
-                        onChange={(e) => handleExpectedMinChange(e.target.value)}
-                        className={`font-mono ${isFDV ? 'pl-7' : ''} pr-8`}
-                        placeholder={String(range.min)}
-                      />
-                      <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground text-xs">
-                        {unitLabel}
-                      </span>
-                    </div>
-                  </div>
-                  <div className="space-y-1.5">
-                    <Label className="text-xs">Expected Max</Label>
-                    <div className="relative">
-                      {isFDV && (
-                        <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground text-sm">$</span>
-                      )}
-                      <Input
-                        type="number"
-                        step={isFDV ? "1" : "0.1"}
-                        value={range.expectedMax ?? ''}
-                        onChange={(e) => handleExpectedMaxChange(e.target.value)}
-                        className={`font-mono ${isFDV ? 'pl-7' : ''} pr-8`}
-                        placeholder={String(range.max)}
+                  <ValueInput
+                    label="Expected Min"
+                    value={range.expectedMin}
+                    placeholder={String(range.min)}
+                    isCurrency={isCurrency}
+                    unitLabel={unitLabel}
+                    step={valueStep}
+                    onChange={(value) => handleFieldChange('expectedMin', value)}
+                  />
+                  <ValueInput
+                    label="Expected Max"
+                    value={range.expectedMax}
+                    placeholder={String(range.max)}
+                    isCurrency={isCurrency}
+                    unitLabel={unitLabel}
+                    step={valueStep}
+                    onChange={(value) => handleFieldChange('expectedMax', value)}
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Shape Parameters */}
+            {shape && (
+              <div className="p-3 bg-muted/50 rounded-lg space-y-3">
+                <p className="text-xs text-muted-foreground">{shape.hint}</p>
+                {range.samples && (
+                  <p className="text-xs font-mono text-muted-foreground">
+                    {range.samples.length} values: {range.samples.map(v => `${prefixLabel}${v}${unitLabel}`).join(', ')}
+                  </p>
+                )}
+                <div className="grid grid-cols-2 gap-3">
+                  {shape.fields.map(({ key, label }) => {
+                    const unitless = UNITLESS_FIELDS.includes(key);
+                    return (
+                      <ValueInput
+                        key={key}
+                        label={label}
+                        value={range[key]}
+                        isCurrency={isCurrency && !unitless}
+                        unitLabel={unitless ? undefined : unitLabel}
+                        step={unitless ? "0.05" : valueStep}
+                        onChange={(value) => handleFieldChange(key, value)}
                       />
-                      <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground text-xs">
-                        {unitLabel}
-                      </span>
-                    </div>
-                  </div>
+                    );
+                  })}
                 </div>
               </div>
             )}
@@ -0,0 +1,102 @@
+import { CustomRange, RangeKind, computeTotalWeight, generateRangeId, hasValidWeights } from "@/lib/advanced-monte-carlo";
+import { Button } from "@/components/ui/button";
+import { Plus, AlertCircle } from "lucide-react";
+import { RangeCard } from "./RangeCard";
+import { DistributionPreviewChart } from "./DistributionPreviewChart";
+
+interface RangeSetEditorProps {
+  title: string;
+  description: string;
+  kind: RangeKind;
+  ranges: CustomRange[];
+  // Range added by the "Add Range" button (without id)
+  newRange: Omit<CustomRange, 'id'>;
+  maxRanges: number;
+  fieldError?: string;
+  getRangeError: (rangeId: string) => string | undefined;
+  onChange: (ranges: CustomRange[]) => void;
+}
+
+// Titled editor for one set of ranges: preview, range cards and weight summary
+export function RangeSetEditor({
+  title,
+  description,
+  kind,
+  ranges,
+  newRange,
+  maxRanges,
+  fieldError,
+  getRangeError,
+  onChange,
+}: RangeSetEditorProps) {
+  const totalWeight = computeTotalWeight(ranges);
+  const weightsValid = hasValidWeights(ranges);
+
+  const handleAdd = () => {
+    if (ranges.length >= maxRanges) return;
+    onChange([...ranges, { ...newRange, id: generateRangeId() }]);
+  };
+
+  const handleUpdate = (index: number, range: CustomRange) => {
+    const updated = [...ranges];
+    updated[index] = range;
+    onChange(updated);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium">{title}</p>
+          <p className="text-xs text-muted-foreground">{description}</p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleAdd}
+          disabled={ranges.length >= maxRanges}
+          className="h-8"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Range
+        </Button>
+      </div>
+
+      <DistributionPreviewChart ranges={ranges} type={kind} />
+
+      {ranges.length === 0 ? (
+        <div className="p-4 border border-dashed rounded-lg text-center text-sm text-muted-foreground">
+          Add at least one {title} range to run simulation
+        </div>
+      ) : (
+        ranges.map((range, index) => (
+          <RangeCard
+            key={range.id}
+            range={range}
+            index={index}
+            type={kind}
+            onUpdate={(r) => handleUpdate(index, r)}
+            onRemove={() => onChange(ranges.filter((_, i) => i !== index))}
+            canRemove={ranges.length > 1}
+            error={getRangeError(range.id)}
+          />
+        ))
+      )}
+      {fieldError && (
+        <div className="flex items-center gap-1 text-destructive text-xs">
+          <AlertCircle className="h-3 w-3" />
+          <span>{fieldError}</span>
+        </div>
+      )}
+      {!weightsValid && ranges.length > 0 && (
+        <div className="flex items-center gap-1 text-destructive text-xs">
+          <AlertCircle className="h-3 w-3" />
+          <span>At least one range must have a non-zero weight</span>
+        </div>
+      )}
+      <p className="text-xs text-muted-foreground">
+        {ranges.length}/{maxRanges} ranges • Total Weight: {totalWeight.toFixed(1)}% (auto-normalized)
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,107 @@
+import { RarityTier, createDefaultTiers } from "@/lib/allocation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { AlertCircle, Gem, Plus, Trash2 } from "lucide-react";
+
+interface RarityTiersCardProps {
+  tiers?: RarityTier[];
+  nftSupply: number;
+  errors: string[];
+  onChange: (tiers: RarityTier[] | undefined) => void;
+}
+
+const MAX_TIERS = 8;
+
+const COLUMNS: { key: keyof RarityTier; label: string; step?: number }[] = [
+  { key: 'name', label: "Tier" },
+  { key: 'count', label: "NFTs", step: 1 },
+  { key: 'multiplier', label: "Multiplier", step: 0.5 },
+  { key: 'held', label: "You hold", step: 1 },
+];
+
+export function RarityTiersCard({ tiers, nftSupply, errors, onChange }: RarityTiersCardProps) {
+  const totalCount = tiers?.reduce((sum, t) => sum + t.count, 0) ?? 0;
+
+  const updateTier = (index: number, key: keyof RarityTier, value: string) => {
+    if (!tiers) return;
+    const parsed = key === 'name' ? value : key === 'multiplier' ? parseFloat(value) || 0 : parseInt(value) || 0;
+    onChange(tiers.map((tier, i) => (i === index ? { ...tier, [key]: parsed } : tier)));
+  };
+
+  const addTier = () => {
+    if (!tiers || tiers.length >= MAX_TIERS) return;
+    onChange([...tiers, { name: `Tier ${tiers.length + 1}`, count: 1, multiplier: 1, held: 0 }]);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Gem className="h-5 w-5 text-primary" />
+            <CardTitle className="text-lg">Rarity Tiers</CardTitle>
+          </div>
+          <Switch
+            checked={!!tiers}
+            onCheckedChange={(checked) => onChange(checked ? createDefaultTiers(nftSupply) : undefined)}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Off splits the airdrop evenly across NFTs. On splits it by tier multiplier (an NFT with multiplier 5 gets 5× a multiplier-1 NFT) and values your holding.
+        </p>
+      </CardHeader>
+      {tiers && (
+        <CardContent className="space-y-3">
+          <div className="grid grid-cols-[2fr_1fr_1fr_1fr_auto] gap-2 items-center">
+            {COLUMNS.map(({ key, label }) => (
+              <span key={key} className="text-xs font-medium text-muted-foreground">{label}</span>
+            ))}
+            <span className="w-8" />
+            {tiers.map((tier, index) => (
+              <div key={index} className="contents">
+                {COLUMNS.map(({ key, label, step }) => (
+                  <Input
+                    key={key}
+                    aria-label={`${label} (row ${index + 1})`}
+                    type={key === 'name' ? 'text' : 'number'}
+                    step={step}
+                    min={key === 'name' ? undefined : 0}
+                    value={tier[key]}
+                    onChange={(e) => updateTier(index, key, e.target.value)}
+                    className={key === 'name' ? "h-8" : "h-8 font-mono"}
+                  />
+                ))}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  disabled={tiers.length <= 1}
+                  onClick={() => onChange(tiers.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center justify-between">
+            <p className="text-xs text-muted-foreground">
+              {totalCount.toLocaleString()} / {nftSupply.toLocaleString()} NFTs assigned
+            </p>
+            <Button variant="outline" size="sm" onClick={addTier} disabled={tiers.length >= MAX_TIERS}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Tier
+            </Button>
+          </div>
+          {errors.map((message) => (
+            <div key={message} className="flex items-center gap-1 text-destructive text-xs">
+              <AlertCircle className="h-3 w-3" />
+              <span>{message}</span>
+            </div>
+          ))}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
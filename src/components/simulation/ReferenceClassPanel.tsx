@@ -0,0 +1,243 @@
+import { useMemo, useRef, useState } from "react";
+import { CustomRange } from "@/lib/advanced-monte-carlo";
+import {
+  EMPIRICAL_SMOOTHING,
+  EmpiricalSmoothing,
+  MIN_REFERENCE_LAUNCHES,
+  REFERENCE_VARIABLE_LABELS,
+  ReferenceClass,
+  ReferenceFilter,
+  ReferenceLaunch,
+  ReferenceVariable,
+  createEmpiricalRange,
+  filterLaunches,
+  launchChains,
+  parseReferenceDataset,
+  referenceValues,
+} from "@/lib/reference-class";
+import { BUNDLED_DATASET_NAME, BUNDLED_LAUNCHES } from "@/lib/reference-launches";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertCircle, History, Upload } from "lucide-react";
+
+interface ReferenceClassPanelProps {
+  // FDV ranges are not used when the valuation is market cap + float
+  fdvAvailable: boolean;
+  onApply: (variable: ReferenceVariable, range: CustomRange, referenceClass: ReferenceClass) => void;
+}
+
+interface Dataset {
+  name: string;
+  launches: ReferenceLaunch[];
+}
+
+const ANY_CHAIN = "any";
+
+const DEFAULT_FILTER: ReferenceFilter = { nftRelatedOnly: true, fromYear: 2024 };
+
+interface ReferenceLaunchTableProps {
+  launches: ReferenceLaunch[];
+}
+
+// Source rows of a reference class
+export function ReferenceLaunchTable({ launches }: ReferenceLaunchTableProps) {
+  return (
+    <div className="max-h-64 overflow-auto rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Launch</TableHead>
+            <TableHead>Date</TableHead>
+            <TableHead>Chain</TableHead>
+            <TableHead className="text-right">FDV</TableHead>
+            <TableHead className="text-right">Airdrop</TableHead>
+            <TableHead className="text-right whitespace-nowrap">To NFT holders</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {launches.map((launch) => (
+            <TableRow key={`${launch.name}-${launch.launchDate}`}>
+              <TableCell className="font-medium whitespace-nowrap">
+                {launch.name}
+                {launch.token && <span className="ml-1 text-xs text-muted-foreground">{launch.token}</span>}
+              </TableCell>
+              <TableCell className="font-mono text-xs">{launch.launchDate}</TableCell>
+              <TableCell className="text-xs">{launch.chain}</TableCell>
+              <TableCell className="text-right font-mono tabular-nums">${launch.fdvM.toLocaleString()}M</TableCell>
+              <TableCell className="text-right font-mono tabular-nums">{launch.airdropPct}%</TableCell>
+              <TableCell className="text-right font-mono tabular-nums">
+                {launch.nftHolderSharePct === undefined ? '—' : `${launch.nftHolderSharePct}%`}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+// Build empirical FDV or Airdrop % ranges from a filtered set of past launches
+export function ReferenceClassPanel({ fdvAvailable, onApply }: ReferenceClassPanelProps) {
+  const [dataset, setDataset] = useState<Dataset>({ name: BUNDLED_DATASET_NAME, launches: BUNDLED_LAUNCHES });
+  const [loadMessages, setLoadMessages] = useState<string[]>([]);
+  const [filter, setFilter] = useState<ReferenceFilter>(DEFAULT_FILTER);
+  const [smoothing, setSmoothing] = useState<EmpiricalSmoothing>('kde');
+  const [applied, setApplied] = useState<ReferenceVariable[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const chains = useMemo(() => launchChains(dataset.launches), [dataset]);
+  const matches = useMemo(() => filterLaunches(dataset.launches, filter), [dataset, filter]);
+  const enough = matches.length >= MIN_REFERENCE_LAUNCHES;
+
+  const updateFilter = (changes: Partial<ReferenceFilter>) => {
+    setFilter({ ...filter, ...changes });
+    setApplied([]);
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again after fixing it
+    event.target.value = "";
+    if (!file) return;
+    let text: string;
+    try {
+      text = await file.text();
+    } catch {
+      setLoadMessages([`Could not read ${file.name}.`]);
+      return;
+    }
+    const result = parseReferenceDataset(text);
+    if (result.ok === false) {
+      setLoadMessages([result.message]);
+      return;
+    }
+    setDataset({ name: file.name, launches: result.launches });
+    setLoadMessages(result.skipped);
+    setFilter({ nftRelatedOnly: false });
+    setApplied([]);
+  };
+
+  const handleApply = (variable: ReferenceVariable) => {
+    const range = createEmpiricalRange(referenceValues(matches, variable), variable, smoothing);
+    onApply(variable, range, { datasetName: dataset.name, filter, launches: matches });
+    setApplied([...applied.filter(v => v !== variable), variable]);
+  };
+
+  const isBundled = dataset.launches === BUNDLED_LAUNCHES;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <History className="h-5 w-5 text-primary" />
+            <CardTitle className="text-lg">Reference Class</CardTitle>
+          </div>
+          <input ref={inputRef} type="file" accept=".json,.csv,application/json,text/csv" className="hidden" onChange={handleFile} />
+          <Button variant="outline" size="sm" className="h-8" onClick={() => inputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-1" />
+            Load JSON / CSV
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Base FDV or Airdrop % on comparable past launches instead of gut feeling. Dataset: {dataset.name} • {dataset.launches.length} launches
+        </p>
+        {isBundled && (
+          <p className="text-xs text-muted-foreground">
+            The bundled figures are rounded approximations from public reporting; check them or load your own dataset
+            (name, launchDate YYYY-MM, chain, nftRelated, fdvM, airdropPct, optional token, nftHolderSharePct, collectionSupply).
+          </p>
+        )}
+        {loadMessages.map((message) => (
+          <div key={message} className="flex items-center gap-1 text-destructive text-xs">
+            <AlertCircle className="h-3 w-3" />
+            <span>{message}</span>
+          </div>
+        ))}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid sm:grid-cols-3 gap-4 items-end">
+          <div className="flex items-center justify-between gap-2 h-9">
+            <Label className="text-sm">NFT-related only</Label>
+            <Switch
+              checked={filter.nftRelatedOnly}
+              onCheckedChange={(nftRelatedOnly) => updateFilter({ nftRelatedOnly })}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Launched from (year)</Label>
+            <Input
+              type="number"
+              value={filter.fromYear ?? ''}
+              onChange={(e) => updateFilter({ fromYear: e.target.value === '' ? undefined : parseInt(e.target.value) })}
+              className="font-mono h-9"
+              placeholder="any"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Chain</Label>
+            <Select
+              value={filter.chain ?? ANY_CHAIN}
+              onValueChange={(value) => updateFilter({ chain: value === ANY_CHAIN ? undefined : value })}
+            >
+              <SelectTrigger className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY_CHAIN}>Any chain</SelectItem>
+                {chains.map((chain) => (
+                  <SelectItem key={chain} value={chain}>{chain}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {matches.length > 0 ? (
+          <ReferenceLaunchTable launches={matches} />
+        ) : (
+          <div className="p-4 border border-dashed rounded-lg text-center text-sm text-muted-foreground">
+            No launches match the filters
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="space-y-1">
+            <Tabs value={smoothing} onValueChange={(v) => setSmoothing(v as EmpiricalSmoothing)}>
+              <TabsList className="h-8">
+                {(Object.keys(EMPIRICAL_SMOOTHING) as EmpiricalSmoothing[]).map((s) => (
+                  <TabsTrigger key={s} value={s} className="text-xs">{EMPIRICAL_SMOOTHING[s].label}</TabsTrigger>
+                ))}
+              </TabsList>
+            </Tabs>
+            <p className="text-xs text-muted-foreground">{EMPIRICAL_SMOOTHING[smoothing].description}</p>
+          </div>
+          <div className="flex gap-2">
+            {(Object.keys(REFERENCE_VARIABLE_LABELS) as ReferenceVariable[]).map((variable) => (
+              <Button
+                key={variable}
+                size="sm"
+                variant={applied.includes(variable) ? "secondary" : "default"}
+                disabled={!enough || (variable === 'fdv' && !fdvAvailable)}
+                onClick={() => handleApply(variable)}
+              >
+                Use for {REFERENCE_VARIABLE_LABELS[variable]}
+              </Button>
+            ))}
+          </div>
+        </div>
+        {!enough && (
+          <p className="text-xs text-muted-foreground">
+            At least {MIN_REFERENCE_LAUNCHES} matching launches are needed; {matches.length} match.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,40 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { History } from "lucide-react";
+import { AdvancedSimulationParams } from "@/lib/advanced-monte-carlo";
+import { REFERENCE_VARIABLE_LABELS, activeReferenceClasses, describeFilter } from "@/lib/reference-class";
+import { ReferenceLaunchTable } from "./ReferenceClassPanel";
+
+interface ReferenceClassSourcesProps {
+  params: AdvancedSimulationParams;
+}
+
+// The past launches behind the empirical ranges of a run
+export function ReferenceClassSources({ params }: ReferenceClassSourcesProps) {
+  const sources = activeReferenceClasses(params);
+  if (sources.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center gap-2">
+          <History className="h-5 w-5 text-primary" />
+          <CardTitle className="text-base">Reference Class Sources</CardTitle>
+        </div>
+        <p className="text-xs text-muted-foreground">Past launches the empirical ranges were built from</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {sources.map(([variable, referenceClass]) => (
+          <div key={variable} className="space-y-2">
+            <p className="text-sm">
+              <span className="font-medium">{REFERENCE_VARIABLE_LABELS[variable]}</span>
+              <span className="text-xs text-muted-foreground">
+                {' '}• {referenceClass.datasetName} • {describeFilter(referenceClass.filter)} • {referenceClass.launches.length} launches
+              </span>
+            </p>
+            <ReferenceLaunchTable launches={referenceClass.launches} />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,29 @@
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { SAMPLING_STRATEGIES, SamplingStrategy } from "@/lib/sampling";
+
+interface SamplingControlProps {
+  sampling?: SamplingStrategy;
+  onChange: (sampling: SamplingStrategy) => void;
+}
+
+export function SamplingControl({ sampling = 'pseudoRandom', onChange }: SamplingControlProps) {
+  return (
+    <div className="flex items-center justify-between gap-3 p-3 bg-muted/30 rounded-lg">
+      <div className="space-y-0.5">
+        <Label className="text-sm font-medium">Sampling</Label>
+        <p className="text-xs text-muted-foreground">{SAMPLING_STRATEGIES[sampling].description}</p>
+      </div>
+      <Select value={sampling} onValueChange={onChange}>
+        <SelectTrigger className="w-48 h-8">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {(Object.keys(SAMPLING_STRATEGIES) as SamplingStrategy[]).map((strategy) => (
+            <SelectItem key={strategy} value={strategy}>{SAMPLING_STRATEGIES[strategy].label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, Legend } from "recharts";
+import { SavedScenario } from "@/lib/scenario-storage";
+import { COMPARED_STATS, MAX_COMPARED, MIN_COMPARED, compareThresholds, densityPerDecade, relativeDiff } from "@/lib/comparison";
+import { formatCurrency, formatProbability } from "@/lib/format";
+
+interface ScenarioComparisonProps {
+  scenarios: SavedScenario[];
+}
+
+const SCENARIO_COLORS = [
+  "hsl(var(--chart-1))",
+  "hsl(var(--chart-2))",
+  "hsl(var(--chart-3))",
+  "hsl(var(--chart-4))",
+  "hsl(var(--chart-5))",
+];
+
+function formatDiff(diff: number | null): string {
+  if (diff === null) return "";
+  const sign = diff > 0 ? "+" : "";
+  return `${sign}${(diff * 100).toFixed(0)}%`;
+}
+
+export function ScenarioComparison({ scenarios }: ScenarioComparisonProps) {
+  // Only runs that were saved with results can be compared
+  const comparable = scenarios.filter((s) => s.results);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const selected = comparable.filter((s) => selectedIds.includes(s.id));
+  const runs = selected.map((s) => s.results!);
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelectedIds((prev) => {
+      if (!checked) return prev.filter((x) => x !== id);
+      if (prev.length >= MAX_COMPARED) return prev;
+      return [...prev, id];
+    });
+  };
+
+  const thresholdRows = useMemo(() => compareThresholds(runs), [runs]);
+  const series = useMemo(() => runs.map((run) => densityPerDecade(run.histogram)), [runs]);
+
+  return (
+    <div className="space-y-6">
+      {/* Selection */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-lg">Saved Runs</CardTitle>
+          <p className="text-xs text-muted-foreground">
+            Pick {MIN_COMPARED}–{MAX_COMPARED} saved scenarios. Only scenarios saved together with their results are listed.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {comparable.length === 0 ? (
+            <div className="p-4 border border-dashed rounded-lg text-center text-sm text-muted-foreground">
+              Run a scenario and save it from the Library to compare it here
+            </div>
+          ) : (
+            <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-2">
+              {comparable.map((s) => {
+                const index = selected.findIndex((x) => x.id === s.id);
+                const checked = index >= 0;
+                return (
+                  <label
+                    key={s.id}
+                    className="flex items-center gap-3 rounded-lg border p-3 cursor-pointer hover:bg-muted/50 transition-colors"
+                  >
+                    <Checkbox
+                      checked={checked}
+                      disabled={!checked && selectedIds.length >= MAX_COMPARED}
+                      onCheckedChange={(value) => toggle(s.id, value === true)}
+                    />
+                    <span className="flex-1 text-sm font-medium truncate">{s.name}</span>
+                    <Badge variant="outline" className="capitalize">{s.scenario.mode}</Badge>
+                    {checked && (
+                      <span className="w-3 h-3 rounded-full" style={{ backgroundColor: SCENARIO_COLORS[index] }} />
+                    )}
+                  </label>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected.length < MIN_COMPARED ? (
+        <div className="h-48 flex items-center justify-center rounded-lg border bg-card">
+          <p className="text-sm text-muted-foreground">Select at least {MIN_COMPARED} runs to compare</p>
+        </div>
+      ) : (
+        <>
+          {/* Overlaid distributions */}
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Value Distributions</CardTitle>
+              <p className="text-xs text-muted-foreground">Probability per decade of value per NFT (log scale)</p>
+            </CardHeader>
+            <CardContent>
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+                    <XAxis
+                      dataKey="x"
+                      type="number"
+                      scale="log"
+                      domain={["auto", "auto"]}
+                      allowDataOverflow
+                      tick={{ fontSize: 10 }}
+                      tickFormatter={(v) => formatCurrency(v, 0)}
+                    />
+                    <YAxis tick={{ fontSize: 10 }} tickFormatter={(v) => v.toFixed(2)} />
+                    <Tooltip
+                      formatter={(value: number, name: string) => [value.toFixed(3), name]}
+                      labelFormatter={(label) => `Value: ${formatCurrency(Number(label), 0)}`}
+                      contentStyle={{
+                        backgroundColor: 'hsl(var(--card))',
+                        border: '1px solid hsl(var(--border))',
+                        borderRadius: 'var(--radius)',
+                        fontSize: '12px'
+                      }}
+                    />
+                    <Legend wrapperStyle={{ fontSize: "11px" }} />
+                    {selected.map((s, i) => (
+                      <Line
+                        key={s.id}
+                        data={series[i]}
+                        dataKey="y"
+                        name={s.name}
+                        type="monotone"
+                        stroke={SCENARIO_COLORS[i]}
+                        strokeWidth={2}
+                        dot={false}
+                        isAnimationActive={false}
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Percentile diff table */}
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Statistics</CardTitle>
+              <p className="text-xs text-muted-foreground">Differences are relative to {selected[0].name}</p>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Statistic</TableHead>
+                    {selected.map((s, i) => (
+                      <TableHead key={s.id} className="text-right" style={{ color: SCENARIO_COLORS[i] }}>{s.name}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {COMPARED_STATS.map(({ key, label }) => (
+                    <TableRow key={key}>
+                      <TableCell className="font-medium">{label}</TableCell>
+                      {runs.map((run, i) => {
+                        const diff = i === 0 ? null : relativeDiff(run.stats[key], runs[0].stats[key]);
+                        return (
+                          <TableCell key={selected[i].id} className="text-right font-mono tabular-nums">
+                            {formatCurrency(run.stats[key], 0)}
+                            {diff !== null && (
+                              <span className={`ml-2 text-xs ${diff >= 0 ? 'text-green-600 dark:text-green-400' : 'text-destructive'}`}>
+                                {formatDiff(diff)}
+                              </span>
+                            )}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          {/* Threshold dominance */}
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Probability Thresholds</CardTitle>
+              <p className="text-xs text-muted-foreground">Chance of at least each value; the highest chance per threshold is highlighted</p>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Threshold</TableHead>
+                    {selected.map((s, i) => (
+                      <TableHead key={s.id} className="text-right" style={{ color: SCENARIO_COLORS[i] }}>{s.name}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {thresholdRows.map((row) => (
+                    <TableRow key={row.threshold}>
+                      <TableCell className="font-medium">≥ {formatCurrency(row.threshold, 0)}</TableCell>
+                      {row.probs.map((prob, i) => (
+                        <TableCell
+                          key={selected[i].id}
+                          className={`text-right font-mono tabular-nums ${row.dominant === i ? 'bg-primary/10 font-semibold' : ''}`}
+                        >
+                          {prob === null ? '—' : formatProbability(prob)}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <p className="text-xs text-muted-foreground mt-2">— = threshold was not evaluated in that run</p>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
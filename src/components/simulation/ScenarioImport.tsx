@@ -0,0 +1,100 @@
+import { useRef, useState, type DragEvent, type ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { FileUp, Upload } from "lucide-react";
+import { ScenarioImportResult, importScenario } from "@/lib/scenario-import";
+import { cn } from "@/lib/utils";
+
+async function readScenarioFile(file: File): Promise<ScenarioImportResult> {
+  try {
+    return importScenario(await file.text());
+  } catch {
+    return { ok: false, message: `Could not read ${file.name}.`, issues: [] };
+  }
+}
+
+function hasFiles(event: DragEvent) {
+  return Array.from(event.dataTransfer.types).includes("Files");
+}
+
+interface ScenarioDropZoneProps {
+  onImport: (result: ScenarioImportResult) => void;
+  className?: string;
+  children: ReactNode;
+}
+
+// Accepts a scenario JSON file dropped anywhere inside it
+export function ScenarioDropZone({ onImport, className, children }: ScenarioDropZoneProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  // dragenter/dragleave fire for every child element; count them to know when the pointer really left
+  const depthRef = useRef(0);
+
+  const handleDragEnter = (event: DragEvent) => {
+    if (!hasFiles(event)) return;
+    event.preventDefault();
+    depthRef.current++;
+    setIsDragging(true);
+  };
+
+  const handleDragLeave = (event: DragEvent) => {
+    if (!hasFiles(event)) return;
+    depthRef.current--;
+    if (depthRef.current <= 0) {
+      depthRef.current = 0;
+      setIsDragging(false);
+    }
+  };
+
+  const handleDrop = async (event: DragEvent) => {
+    if (!hasFiles(event)) return;
+    event.preventDefault();
+    depthRef.current = 0;
+    setIsDragging(false);
+    const file = event.dataTransfer.files[0];
+    if (file) onImport(await readScenarioFile(file));
+  };
+
+  return (
+    <div
+      className={cn("relative", className)}
+      onDragEnter={handleDragEnter}
+      onDragOver={(event) => hasFiles(event) && event.preventDefault()}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {children}
+      {isDragging && (
+        <div className="pointer-events-none fixed inset-0 z-50 flex items-center justify-center bg-background/80 backdrop-blur-sm">
+          <div className="flex flex-col items-center gap-3 rounded-lg border-2 border-dashed border-primary bg-card px-10 py-8">
+            <FileUp className="h-8 w-8 text-primary" />
+            <p className="text-sm font-medium text-foreground">Drop a scenario JSON file to load it</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ImportScenarioButtonProps {
+  onImport: (result: ScenarioImportResult) => void;
+}
+
+export function ImportScenarioButton({ onImport }: ImportScenarioButtonProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again after fixing it
+    event.target.value = "";
+    if (file) onImport(await readScenarioFile(file));
+  };
+
+  return (
+    <>
+      <input ref={inputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleChange} />
+      <Button variant="outline" size="sm" className="h-9" onClick={() => inputRef.current?.click()}>
+        <Upload className="h-4 w-4 mr-2" />
+        Import
+      </Button>
+    </>
+  );
+}
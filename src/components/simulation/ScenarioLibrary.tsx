@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { FolderOpen, Save, Pencil, Copy, Trash2, Upload, Check, X } from "lucide-react";
+import { SavedScenario } from "@/lib/scenario-storage";
+import { formatCurrency } from "@/lib/format";
+
+interface ScenarioLibraryProps {
+  scenarios: SavedScenario[];
+  canSave: boolean;
+  saveHint: string;
+  onSave: (name: string) => void;
+  onLoad: (saved: SavedScenario) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+function ScenarioRow({
+  saved,
+  onLoad,
+  onRename,
+  onDuplicate,
+  onRemove
+}: {
+  saved: SavedScenario;
+  onLoad: () => void;
+  onRename: (name: string) => void;
+  onDuplicate: () => void;
+  onRemove: () => void;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftName, setDraftName] = useState(saved.name);
+
+  const commitRename = () => {
+    const name = draftName.trim();
+    if (name) onRename(name);
+    setIsEditing(false);
+  };
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        {isEditing ? (
+          <>
+            <Input
+              value={draftName}
+              onChange={(e) => setDraftName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename();
+                if (e.key === 'Escape') setIsEditing(false);
+              }}
+              className="h-8 text-sm"
+              autoFocus
+            />
+            <Button variant="ghost" size="sm" onClick={commitRename} className="h-8 w-8 p-0">
+              <Check className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)} className="h-8 w-8 p-0">
+              <X className="h-4 w-4" />
+            </Button>
+          </>
+        ) : (
+          <>
+            <span className="flex-1 text-sm font-medium truncate">{saved.name}</span>
+            <Badge variant="outline" className="capitalize">{saved.scenario.mode}</Badge>
+          </>
+        )}
+      </div>
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>{new Date(saved.updatedAt).toLocaleString()}</span>
+        {saved.results ? (
+          <span>Median <span className="font-mono text-foreground">{formatCurrency(saved.results.stats.median, 0)}</span></span>
+        ) : (
+          <span>Not run</span>
+        )}
+      </div>
+      <div className="flex items-center gap-1">
+        <Button variant="outline" size="sm" onClick={onLoad} className="h-7 text-xs">
+          <Upload className="h-3 w-3 mr-1" />
+          Load
+        </Button>
+        <div className="flex-1" />
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => {
+            setDraftName(saved.name);
+            setIsEditing(true);
+          }}
+          className="h-7 w-7 p-0"
+          title="Rename"
+        >
+          <Pencil className="h-3.5 w-3.5" />
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onDuplicate} className="h-7 w-7 p-0" title="Duplicate">
+          <Copy className="h-3.5 w-3.5" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onRemove}
+          className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive"
+          title="Delete"
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function ScenarioLibrary({
+  scenarios,
+  canSave,
+  saveHint,
+  onSave,
+  onLoad,
+  onRename,
+  onDuplicate,
+  onRemove
+}: ScenarioLibraryProps) {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState("");
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onSave(trimmed);
+    setName("");
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="outline" size="sm" className="h-9">
+          <FolderOpen className="h-4 w-4 mr-2" />
+          Library
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Scenario Library</SheetTitle>
+          <SheetDescription>Saved in this browser. Load a scenario to continue in its mode.</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-2">
+          <div className="flex gap-2">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+              placeholder="Scenario name"
+              disabled={!canSave}
+              className="h-9"
+            />
+            <Button onClick={handleSave} disabled={!canSave || !name.trim()} size="sm" className="h-9">
+              <Save className="h-4 w-4 mr-1" />
+              Save
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">{saveHint}</p>
+        </div>
+
+        <div className="mt-6 space-y-3">
+          {scenarios.length === 0 ? (
+            <div className="p-4 border border-dashed rounded-lg text-center text-sm text-muted-foreground">
+              No saved scenarios yet
+            </div>
+          ) : (
+            scenarios.map((saved) => (
+              <ScenarioRow
+                key={saved.id}
+                saved={saved}
+                onLoad={() => {
+                  onLoad(saved);
+                  setOpen(false);
+                }}
+                onRename={(newName) => onRename(saved.id, newName)}
+                onDuplicate={() => onDuplicate(saved.id)}
+                onRemove={() => onRemove(saved.id)}
+              />
+            ))
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
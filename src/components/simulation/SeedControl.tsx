@@ -0,0 +1,41 @@
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+
+interface SeedControlProps {
+  enabled: boolean;
+  seed: number;
+  onToggle: (checked: boolean) => void;
+  onSeedChange: (seed: number) => void;
+}
+
+export function SeedControl({ enabled, seed, onToggle, onSeedChange }: SeedControlProps) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between p-3 bg-muted/30 rounded-lg">
+        <div className="space-y-0.5">
+          <Label className="text-sm font-medium">Deterministic Seed</Label>
+          <p className="text-xs text-muted-foreground">
+            Reproducible results
+          </p>
+        </div>
+        <Switch
+          checked={enabled}
+          onCheckedChange={onToggle}
+        />
+      </div>
+
+      {enabled && (
+        <div className="flex items-center gap-3">
+          <Label className="text-sm">Seed:</Label>
+          <Input
+            type="number"
+            value={seed}
+            onChange={(e) => onSeedChange(parseInt(e.target.value) || 0)}
+            className="w-32 h-8 font-mono text-sm"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine, Legend } from "recharts";
+import { Activity, X } from "lucide-react";
+import { toast } from "@/components/ui/sonner";
+import { useAnalysisWorker } from "@/hooks/use-simulation-worker";
+import { SensitivityOutcome, SensitivityReport } from "@/lib/sensitivity";
+import { VarianceFactor } from "@/lib/engine-core";
+import { Scenario, hasSameInputs } from "@/lib/scenario";
+import { formatCurrency } from "@/lib/format";
+
+interface SensitivityPanelProps {
+  scenario: Scenario;
+}
+
+type Metric = keyof SensitivityOutcome;
+
+const METRICS: { key: Metric; label: string }[] = [
+  { key: 'median', label: 'Median' },
+  { key: 'p90', label: 'P90' },
+];
+
+const FACTOR_LABELS: Record<VarianceFactor, string> = {
+  fdv: 'FDV',
+  drop: 'Airdrop %',
+  holderShare: 'Holder Share'
+};
+
+const LOW_COLOR = "hsl(var(--chart-2))";
+const HIGH_COLOR = "hsl(var(--chart-1))";
+
+function formatDelta(value: number): string {
+  return `${value < 0 ? '−' : '+'}${formatCurrency(Math.abs(value), 0)}`;
+}
+
+export function SensitivityPanel({ scenario }: SensitivityPanelProps) {
+  const [report, setReport] = useState<SensitivityReport | null>(null);
+  const [metric, setMetric] = useState<Metric>('median');
+  // The worker is torn down on cancel and when the panel goes away
+  const { run, cancel: handleCancel, progress } = useAnalysisWorker();
+
+  const handleRun = () => {
+    run({ kind: 'sensitivity', scenario })
+      .then(next => {
+        if (next) setReport(next);
+      })
+      .catch(error => toast.error("Sensitivity analysis failed", { description: error instanceof Error ? error.message : undefined }));
+  };
+
+  const isStale = !!report && !hasSameInputs(report.scenario, scenario);
+
+  // Biggest swing on top, as in a tornado
+  const rows = report
+    ? report.inputs
+        .map(input => {
+          const base = report.baseline[metric];
+          const low = input.low ? input.low[metric] - base : 0;
+          const high = input.high ? input.high[metric] - base : 0;
+          return { label: input.label, lowLabel: input.lowLabel, highLabel: input.highLabel, low, high, swing: Math.abs(high - low) };
+        })
+        .sort((a, b) => b.swing - a.swing)
+    : [];
+  const sobolTotal = report ? report.sobol.reduce((sum, s) => sum + s.firstOrder, 0) : 0;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Activity className="h-5 w-5 text-primary" />
+            <CardTitle className="text-base">Sensitivity</CardTitle>
+          </div>
+          <div className="flex items-center gap-2">
+            {report && METRICS.map(({ key, label }) => (
+              <Button
+                key={key}
+                variant={metric === key ? "default" : "outline"}
+                size="sm"
+                onClick={() => setMetric(key)}
+                className="h-7 text-xs"
+              >
+                {label}
+              </Button>
+            ))}
+            <Button variant="outline" size="sm" onClick={handleRun} disabled={!!progress} className="h-7 text-xs">
+              {report ? 'Rerun' : 'Run analysis'}
+            </Button>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Each input is moved down and up and the model rerun with the same seed, so bars show the effect of the input, not sampling noise.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {progress && (
+          <div className="flex items-center gap-2">
+            <Progress value={(progress.completed / progress.total) * 100} className="h-2 flex-1" />
+            <Button variant="outline" size="sm" onClick={handleCancel} className="h-7 text-xs">
+              <X className="mr-1 h-3 w-3" />
+              Cancel
+            </Button>
+          </div>
+        )}
+
+        {report && (
+          <>
+            {isStale && (
+              <p className="text-xs text-destructive">Inputs changed since this analysis; rerun to update it.</p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Baseline {METRICS.find(m => m.key === metric)?.label}: <span className="font-mono text-foreground">{formatCurrency(report.baseline[metric], 0)}</span>
+              {' '}• {report.numSamples.toLocaleString()} samples per run • Seed {report.seed}
+            </p>
+            <div style={{ height: Math.max(160, rows.length * 28 + 60) }}>
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={rows} layout="vertical" stackOffset="sign" margin={{ top: 0, right: 20, left: 10, bottom: 0 }}>
+                  <XAxis type="number" tick={{ fontSize: 10 }} tickFormatter={formatDelta} />
+                  <YAxis type="category" dataKey="label" width={150} tick={{ fontSize: 10 }} />
+                  <Tooltip
+                    formatter={(value: number, name: string, item: { payload?: { lowLabel: string; highLabel: string } }) => {
+                      const change = name === 'low' ? item.payload?.lowLabel : item.payload?.highLabel;
+                      return [formatDelta(value), `Input ${change}`];
+                    }}
+                    contentStyle={{
+                      backgroundColor: 'hsl(var(--card))',
+                      border: '1px solid hsl(var(--border))',
+                      borderRadius: 'var(--radius)',
+                      fontSize: '12px'
+                    }}
+                  />
+                  <Legend
+                    wrapperStyle={{ fontSize: "11px" }}
+                    formatter={(value) => (value === 'low' ? 'Input decreased' : 'Input increased')}
+                  />
+                  <ReferenceLine x={0} stroke="hsl(var(--muted-foreground))" />
+                  <Bar dataKey="low" stackId="swing" fill={LOW_COLOR} isAnimationActive={false} />
+                  <Bar dataKey="high" stackId="swing" fill={HIGH_COLOR} isAnimationActive={false} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="space-y-2 border-t pt-3">
+              <p className="text-xs text-muted-foreground">Sobol first-order indices (share of value variance explained by each factor alone)</p>
+              {report.sobol.map(({ factor, firstOrder }) => (
+                <div key={factor} className="flex items-center gap-3 text-sm">
+                  <span className="w-24 text-muted-foreground">{FACTOR_LABELS[factor]}</span>
+                  <div className="flex-1 h-2 rounded-full bg-muted overflow-hidden">
+                    <div className="h-full bg-primary" style={{ width: `${Math.min(Math.max(firstOrder, 0), 1) * 100}%` }} />
+                  </div>
+                  <span className="w-12 text-right font-mono tabular-nums">{(firstOrder * 100).toFixed(0)}%</span>
+                </div>
+              ))}
+              <p className="text-xs text-muted-foreground">
+                Interactions between factors account for the remaining {(Math.max(0, 1 - sobolTotal) * 100).toFixed(0)}%.
+                {report.sobolIgnoresDependence && ' Indices treat FDV and Airdrop % as independent; the correlation is ignored here.'}
+              </p>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,33 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/components/ui/sonner";
+import { Link2, Check } from "lucide-react";
+import { Scenario } from "@/lib/scenario";
+import { buildShareUrl } from "@/lib/scenario-url";
+
+interface ShareScenarioButtonProps {
+  scenario: Scenario;
+}
+
+export function ShareScenarioButton({ scenario }: ShareScenarioButtonProps) {
+  const [copied, setCopied] = useState(false);
+
+  const handleShare = async () => {
+    try {
+      const url = await buildShareUrl(scenario);
+      await navigator.clipboard.writeText(url);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+      toast.success("Share link copied", { description: "Opening it reproduces this exact run." });
+    } catch {
+      toast.error("Could not copy the share link");
+    }
+  };
+
+  return (
+    <Button variant="outline" size="sm" onClick={handleShare} className="h-8">
+      {copied ? <Check className="h-4 w-4 mr-1" /> : <Link2 className="h-4 w-4 mr-1" />}
+      Share
+    </Button>
+  );
+}
@@ -1,12 +1,20 @@
 import { SimpleSimulationParams, ValidationError } from "@/lib/simple-monte-carlo";
+import { DEFAULT_SEED } from "@/lib/engine-core";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { AlertCircle } from "lucide-react";
+import { SeedControl } from "./SeedControl";
+import { PrecisionControl } from "./PrecisionControl";
+import { SamplingControl } from "./SamplingControl";
+import { SamplingStrategy } from "@/lib/sampling";
 interface SimpleInputFormProps {
   params: SimpleSimulationParams;
   errors: ValidationError[];
   onParamChange: (key: keyof SimpleSimulationParams, value: number) => void;
+  onSeedChange: (seed: number | undefined) => void;
+  onTargetPrecisionChange: (targetPrecision: number | undefined) => void;
+  onSamplingChange: (sampling: SamplingStrategy) => void;
 }
 function FieldError({
   errors,
@@ -25,7 +33,10 @@ function FieldError({
 export function SimpleInputForm({
   params,
   errors,
-  onParamChange
+  onParamChange,
+  onSeedChange,
+  onTargetPrecisionChange,
+  onSamplingChange
 }: SimpleInputFormProps) {
   return <Card>
       <CardHeader className="pb-3">
@@ -112,6 +123,24 @@ export function SimpleInputForm({
           </p>
           <FieldError errors={errors} field="numSimulations" />
         </div>
+
+        {/* Seed */}
+        <div>
+          <SeedControl enabled={params.seed !== undefined} seed={params.seed ?? DEFAULT_SEED} onToggle={checked => onSeedChange(checked ? DEFAULT_SEED : undefined)} onSeedChange={onSeedChange} />
+          <FieldError errors={errors} field="seed" />
+        </div>
+
+        {/* Auto-stop */}
+        <div>
+          <PrecisionControl targetPrecision={params.targetPrecision} onChange={onTargetPrecisionChange} />
+          <FieldError errors={errors} field="targetPrecision" />
+        </div>
+
+        {/* Sampling strategy */}
+        <div>
+          <SamplingControl sampling={params.sampling} onChange={onSamplingChange} />
+          <FieldError errors={errors} field="sampling" />
+        </div>
       </CardContent>
     </Card>;
 }
\ No newline at end of file
@@ -1,16 +1,39 @@
-import { useState, useCallback, useRef, useEffect } from "react";
+import { useState, useCallback, useRef, useEffect, useMemo } from "react";
 import runItImage from "@/assets/run_it.png";
 import { Button } from "@/components/ui/button";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Play, AlertTriangle, Loader2, CheckCircle2 } from "lucide-react";
-import { SimpleSimulationParams, SimpleSimulationResults, ValidationError, DEFAULT_PARAMS, validateParams, runSimpleSimulation } from "@/lib/simple-monte-carlo";
-import { AdvancedSimulationParams, AdvancedValidationError, CustomRange, DEFAULT_ADVANCED_PARAMS, validateAdvancedParams, runAdvancedSimulation } from "@/lib/advanced-monte-carlo";
+import { Play, AlertTriangle, Loader2, CheckCircle2, GitCompare, Users } from "lucide-react";
+import { Link } from "react-router-dom";
+import { SimpleSimulationParams, SimpleSimulationResults, ValidationError, DEFAULT_PARAMS, validateParams } from "@/lib/simple-monte-carlo";
+import { AdvancedSimulationParams, AdvancedValidationError, CustomRange, DEFAULT_ADVANCED_PARAMS, usesMarketCap, validateAdvancedParams } from "@/lib/advanced-monte-carlo";
+import { useSimulationWorker } from "@/hooks/use-simulation-worker";
+import { useScenarioLibrary } from "@/hooks/use-scenario-library";
+import { DEFAULT_THRESHOLDS, Scenario, hasSameInputs } from "@/lib/scenario";
+import { SavedScenario } from "@/lib/scenario-storage";
 import { SimpleInputForm } from "./SimpleInputForm";
 import { AdvancedInputForm } from "./AdvancedInputForm";
 import { SimpleResults } from "./SimpleResults";
 import { SimpleThresholds } from "./SimpleThresholds";
 import { SimpleHistogram } from "./SimpleHistogram";
+import { SimulationProgressBar } from "./SimulationProgressBar";
+import { ExceedanceChart } from "./ExceedanceChart";
+import { VestingResults } from "./VestingResults";
+import { AllocationResults } from "./AllocationResults";
+import { SensitivityPanel } from "./SensitivityPanel";
+import { ParameterSweep } from "./ParameterSweep";
+import { ExactCheck } from "./ExactCheck";
+import { ReferenceClassSources } from "./ReferenceClassSources";
+import { ExactPreview } from "./ExactPreview";
+import { computeScenarioExact } from "@/lib/exact-distribution";
+import { ExceedancePoint } from "@/lib/engine-core";
+import { SAMPLING_REPLICATES, SamplingStrategy } from "@/lib/sampling";
+import { ShareScenarioButton } from "./ShareScenarioButton";
+import { ExportResultsMenu } from "./ExportResultsMenu";
+import { ImportScenarioButton, ScenarioDropZone } from "./ScenarioImport";
+import { ScenarioImportResult } from "@/lib/scenario-import";
+import { toast } from "@/components/ui/sonner";
+import { ScenarioLibrary } from "./ScenarioLibrary";
 
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
 import {
@@ -38,25 +61,47 @@ function hasOverlap(ranges: CustomRange[]): boolean {
   return false;
 }
 
+// Every range set the engine draws from for these params
+function sampledRangeSets(params: AdvancedSimulationParams): CustomRange[][] {
+  const valuation = usesMarketCap(params)
+    ? [params.marketCapRanges ?? [], params.floatRanges ?? []]
+    : [params.fdvRanges];
+  return [...valuation, params.dropRanges, params.holderShareRanges ?? []];
+}
+
 type SimulationMode = 'classic' | 'advanced' | 'study';
 
-const DEFAULT_THRESHOLDS = [60, 120, 300];
+interface SimpleMonteCarloSimulatorProps {
+  // Scenario restored from a share link; it is run once on mount
+  initialScenario?: Scenario;
+  invalidShareLink?: boolean;
+}
 
-export function SimpleMonteCarloSimulator() {
-  const [mode, setMode] = useState<SimulationMode>('classic');
+export function SimpleMonteCarloSimulator({ initialScenario, invalidShareLink = false }: SimpleMonteCarloSimulatorProps) {
+  const [mode, setMode] = useState<SimulationMode>(initialScenario?.mode ?? 'classic');
   
   // Classic mode state
-  const [classicParams, setClassicParams] = useState<SimpleSimulationParams>(DEFAULT_PARAMS);
+  const [classicParams, setClassicParams] = useState<SimpleSimulationParams>(
+    initialScenario?.mode === 'classic' ? initialScenario.params : DEFAULT_PARAMS
+  );
   const [classicErrors, setClassicErrors] = useState<ValidationError[]>([]);
   
   // Advanced mode state
-  const [advancedParams, setAdvancedParams] = useState<AdvancedSimulationParams>(DEFAULT_ADVANCED_PARAMS);
+  const [advancedParams, setAdvancedParams] = useState<AdvancedSimulationParams>(
+    initialScenario?.mode === 'advanced' ? initialScenario.params : DEFAULT_ADVANCED_PARAMS
+  );
   const [advancedErrors, setAdvancedErrors] = useState<AdvancedValidationError[]>([]);
   
   // Shared state
-  const [thresholds, setThresholds] = useState<number[]>(DEFAULT_THRESHOLDS);
+  const [thresholds, setThresholds] = useState<number[]>(initialScenario?.thresholds ?? DEFAULT_THRESHOLDS);
   const [results, setResults] = useState<SimpleSimulationResults | null>(null);
-  const [isRunning, setIsRunning] = useState(false);
+  // Inputs of the run currently displayed, used for sharing
+  const [lastRun, setLastRun] = useState<Scenario | null>(null);
+  // Opt-in retention of raw samples for export
+  const [keepSamples, setKeepSamples] = useState(false);
+  const { run: runInWorker, cancel: cancelSimulation, isRunning, progress } = useSimulationWorker();
+
+  const library = useScenarioLibrary();
 
   // Overlap warning state (Advanced mode only)
   const [showOverlapWarning, setShowOverlapWarning] = useState(false);
@@ -93,21 +138,45 @@ export function SimpleMonteCarloSimulator() {
     setClassicErrors(prev => prev.filter(e => e.field !== key));
   }, []);
 
+  const handleClassicSeedChange = useCallback((seed: number | undefined) => {
+    setClassicParams(prev => ({ ...prev, seed }));
+    setClassicErrors(prev => prev.filter(e => e.field !== 'seed'));
+  }, []);
+
+  const handleClassicTargetPrecisionChange = useCallback((targetPrecision: number | undefined) => {
+    setClassicParams(prev => ({ ...prev, targetPrecision }));
+    setClassicErrors(prev => prev.filter(e => e.field !== 'targetPrecision' && e.field !== 'sampling'));
+  }, []);
+
+  const handleClassicSamplingChange = useCallback((sampling: SamplingStrategy) => {
+    setClassicParams(prev => ({ ...prev, sampling }));
+    setClassicErrors(prev => prev.filter(e => e.field !== 'sampling'));
+  }, []);
+
   const handleAdvancedParamsChange = useCallback((params: AdvancedSimulationParams) => {
     setAdvancedParams(params);
     // Clear errors for updated fields
     setAdvancedErrors([]);
   }, []);
 
+  const startRun = useCallback((scenario: Scenario) => {
+    const job = scenario.mode === 'classic'
+      ? { engine: 'classic' as const, params: scenario.params, thresholds: scenario.thresholds }
+      : { engine: 'advanced' as const, params: scenario.params, thresholds: scenario.thresholds };
+    runInWorker(job, keepSamples).then(newResults => {
+      // null means the run was cancelled; keep the previous results
+      if (!newResults) return;
+      setResults(newResults);
+      setLastRun(scenario);
+    }).catch(error => {
+      toast.error("Simulation failed", { description: error instanceof Error ? error.message : undefined });
+    });
+  }, [runInWorker, keepSamples]);
+
   // Actually run the advanced simulation (after overlap check)
   const executeAdvancedSimulation = useCallback(() => {
-    setIsRunning(true);
-    setTimeout(() => {
-      const newResults = runAdvancedSimulation(advancedParams, thresholds);
-      setResults(newResults);
-      setIsRunning(false);
-    }, 10);
-  }, [advancedParams, thresholds]);
+    startRun({ mode: 'advanced', params: advancedParams, thresholds });
+  }, [advancedParams, thresholds, startRun]);
 
   const handleRunSimulation = useCallback(() => {
     if (mode === 'classic') {
@@ -117,12 +186,7 @@ export function SimpleMonteCarloSimulator() {
         return;
       }
       setClassicErrors([]);
-      setIsRunning(true);
-      setTimeout(() => {
-        const newResults = runSimpleSimulation(classicParams, thresholds);
-        setResults(newResults);
-        setIsRunning(false);
-      }, 10);
+      startRun({ mode: 'classic', params: classicParams, thresholds });
     } else {
       const validationErrors = validateAdvancedParams(advancedParams);
       if (validationErrors.length > 0) {
@@ -132,31 +196,151 @@ export function SimpleMonteCarloSimulator() {
       setAdvancedErrors([]);
       
       // Check for overlaps in Advanced mode
-      const fdvOverlap = hasOverlap(advancedParams.fdvRanges);
-      const dropOverlap = hasOverlap(advancedParams.dropRanges);
-      
-      if (fdvOverlap || dropOverlap) {
+      if (sampledRangeSets(advancedParams).some(hasOverlap)) {
         setShowOverlapWarning(true);
         return;
       }
       
       executeAdvancedSimulation();
     }
-  }, [mode, classicParams, advancedParams, thresholds, executeAdvancedSimulation]);
+  }, [mode, classicParams, advancedParams, thresholds, executeAdvancedSimulation, startRun]);
+
+  // Reproduce a shared scenario as soon as it is loaded
+  const autoRunRef = useRef(!!initialScenario);
+  useEffect(() => {
+    if (!autoRunRef.current) return;
+    autoRunRef.current = false;
+    handleRunSimulation();
+  }, [handleRunSimulation]);
+
+  // Share the displayed run with its actual seed so the link reproduces it exactly
+  const shareScenario: Scenario | null = lastRun && results
+    ? { ...lastRun, params: { ...lastRun.params, seed: results.seed }, thresholds } as Scenario
+    : null;
+
+  // Sampling-free distribution of the displayed run, as a cross-check
+  const exactResults = useMemo(
+    () => (lastRun ? computeScenarioExact({ ...lastRun, thresholds } as Scenario) : null),
+    [lastRun, thresholds]
+  );
+
+  // Live preview of the inputs being edited
+  const classicPreview = useMemo<Scenario>(() => ({ mode: 'classic', params: classicParams, thresholds }), [classicParams, thresholds]);
+  const advancedPreview = useMemo<Scenario>(() => ({ mode: 'advanced', params: advancedParams, thresholds }), [advancedParams, thresholds]);
+
+  // Clicked point on the exceedance curve. Its probability is exact and shows at once; the
+  // displayed run is then repeated with its own seed, which reproduces it sample for sample and
+  // fills the new threshold into every output (tiers, realized value) with the run's own
+  // interval method (Wilson or replicate spread)
+  const handleAddThreshold = useCallback((point: ExceedancePoint) => {
+    if (thresholds.includes(point.value)) return;
+    const next = [...thresholds, point.value].sort((a, b) => a - b);
+    setThresholds(next);
+    if (!lastRun || !results) return;
+    setResults(prev => prev && { ...prev, thresholdProbs: { ...prev.thresholdProbs, [point.value]: point.prob } });
+    startRun({ ...lastRun, params: { ...lastRun.params, seed: results.seed }, thresholds: next } as Scenario);
+  }, [thresholds, lastRun, results, startRun]);
 
   const handleOverlapConfirm = useCallback(() => {
     setShowOverlapWarning(false);
     executeAdvancedSimulation();
   }, [executeAdvancedSimulation]);
 
+  // Pin the seed of the displayed run so it can be reproduced bit-for-bit
+  const handleReuseSeed = useCallback((seed: number) => {
+    if (mode === 'classic') {
+      handleClassicSeedChange(seed);
+    } else {
+      setAdvancedParams(prev => ({ ...prev, seed }));
+    }
+  }, [mode, handleClassicSeedChange]);
+
+  const currentScenario = useMemo<Scenario | null>(() => {
+    if (mode === 'classic') return { mode, params: classicParams, thresholds };
+    if (mode === 'advanced') return { mode, params: advancedParams, thresholds };
+    return null;
+  }, [mode, classicParams, advancedParams, thresholds]);
+  // Results are only saved alongside the exact inputs that produced them
+  const resultsMatchInputs = !!(currentScenario && lastRun && results && hasSameInputs(currentScenario, lastRun));
+
+  const handleSaveScenario = useCallback((name: string) => {
+    if (!currentScenario) return;
+    if (resultsMatchInputs) {
+      // Pin the seed so reloading and re-running reproduces the saved results
+      const pinned = { ...currentScenario, params: { ...currentScenario.params, seed: results.seed } } as Scenario;
+      library.save(name, pinned, results);
+    } else {
+      library.save(name, currentScenario);
+    }
+  }, [currentScenario, resultsMatchInputs, results, library]);
+
+  // Replace the inputs of the scenario's mode and switch to it
+  const applyScenario = useCallback((scenario: Scenario) => {
+    cancelSimulation();
+    if (scenario.mode === 'classic') {
+      setClassicParams(scenario.params);
+      setClassicErrors([]);
+    } else {
+      setAdvancedParams(scenario.params);
+      setAdvancedErrors([]);
+    }
+    setMode(scenario.mode);
+    setThresholds(scenario.thresholds);
+  }, [cancelSimulation]);
+
+  const handleLoadScenario = useCallback((saved: SavedScenario) => {
+    applyScenario(saved.scenario);
+    setResults(saved.results ?? null);
+    setLastRun(saved.results ? saved.scenario : null);
+  }, [applyScenario]);
+
+  const handleImportScenario = useCallback((result: ScenarioImportResult) => {
+    if (result.ok === false) {
+      const issues = result.issues.slice(0, 3);
+      toast.error(result.message, {
+        description: issues.length > 0 ? (
+          <div className="space-y-0.5">
+            {issues.map((issue, i) => <p key={i}>{issue}</p>)}
+            {result.issues.length > issues.length && <p>…and {result.issues.length - issues.length} more</p>}
+          </div>
+        ) : undefined
+      });
+      return;
+    }
+    const { scenario, errors, migratedFrom } = result;
+    applyScenario(scenario);
+    setResults(null);
+    setLastRun(null);
+    // Show problems inline on the form, like hand-entered values
+    if (scenario.mode === 'classic') {
+      setClassicErrors(errors);
+    } else {
+      setAdvancedErrors(errors);
+    }
+    const notes = [
+      migratedFrom !== undefined ? 'Upgraded from an unversioned file.' : '',
+      errors.length > 0 ? `${errors.length} value${errors.length === 1 ? '' : 's'} need fixing before running.` : ''
+    ].filter(Boolean).join(' ');
+    toast.success(`Imported ${scenario.mode} scenario`, { description: notes || undefined });
+  }, [applyScenario]);
+
+  const saveHint = !currentScenario
+    ? 'Switch to Classic or Advanced to save a scenario.'
+    : resultsMatchInputs
+      ? `Saves the current ${mode} inputs with the last results.`
+      : `Saves the current ${mode} inputs. Run them first to also keep the results.`;
+
   const handleModeChange = (newMode: string) => {
+    // A run in flight belongs to the mode being left
+    cancelSimulation();
     setMode(newMode as SimulationMode);
     // Clear results when switching modes
     setResults(null);
+    setLastRun(null);
   };
 
   return (
-    <div className="min-h-screen bg-background">
+    <ScenarioDropZone onImport={handleImportScenario} className="min-h-screen bg-background">
       {/* Header */}
       <header className="border-b bg-card">
         <div className="container mx-auto px-4 py-4 flex items-center justify-between">
@@ -166,17 +350,42 @@ export function SimpleMonteCarloSimulator() {
               Tedistic Monte Carlo simulation for per NFT airdrop outcomes
             </p>
           </div>
-          <a
-            href="https://x.com/cybttx"
-            target="_blank"
-            rel="noopener noreferrer"
-            className="flex items-center gap-2 px-4 py-2 rounded-lg bg-card border border-border hover:bg-muted transition-colors"
-          >
-            <svg viewBox="0 0 24 24" className="h-5 w-5 fill-foreground" aria-hidden="true">
-              <path d="M18.244 2.25h3.308l-7.227 8.26 8.502 11.24H16.17l-5.214-6.817L4.99 21.75H1.68l7.73-8.835L1.254 2.25H8.08l4.713 6.231zm-1.161 17.52h1.833L7.084 4.126H5.117z" />
-            </svg>
-            <span className="text-sm font-medium text-foreground">@cybttx</span>
-          </a>
+          <div className="flex items-center gap-3">
+            <ScenarioLibrary
+              scenarios={library.scenarios}
+              canSave={!!currentScenario}
+              saveHint={saveHint}
+              onSave={handleSaveScenario}
+              onLoad={handleLoadScenario}
+              onRename={library.rename}
+              onDuplicate={library.duplicate}
+              onRemove={library.remove}
+            />
+            <ImportScenarioButton onImport={handleImportScenario} />
+            <Button variant="outline" size="sm" asChild className="h-9">
+              <Link to="/compare">
+                <GitCompare className="h-4 w-4 mr-2" />
+                Compare
+              </Link>
+            </Button>
+            <Button variant="outline" size="sm" asChild className="h-9">
+              <Link to="/pool">
+                <Users className="h-4 w-4 mr-2" />
+                Pool
+              </Link>
+            </Button>
+            <a
+              href="https://x.com/cybttx"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-card border border-border hover:bg-muted transition-colors"
+            >
+              <svg viewBox="0 0 24 24" className="h-5 w-5 fill-foreground" aria-hidden="true">
+                <path d="M18.244 2.25h3.308l-7.227 8.26 8.502 11.24H16.17l-5.214-6.817L4.99 21.75H1.68l7.73-8.835L1.254 2.25H8.08l4.713 6.231zm-1.161 17.52h1.833L7.084 4.126H5.117z" />
+              </svg>
+              <span className="text-sm font-medium text-foreground">@cybttx</span>
+            </a>
+          </div>
         </div>
       </header>
 
@@ -198,6 +407,15 @@ export function SimpleMonteCarloSimulator() {
           </Tabs>
         </div>
 
+        {invalidShareLink && (
+          <Alert variant="destructive" className="mb-6">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription className="text-sm">
+              This share link is invalid or was created by an unsupported version. Showing the default scenario instead.
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Warning Banner */}
         <Alert className="mb-6 border-amber-500/50 bg-amber-500/10">
           <AlertTriangle className="h-4 w-4 text-amber-600" />
@@ -243,8 +461,13 @@ export function SimpleMonteCarloSimulator() {
                 params={classicParams}
                 errors={classicErrors}
                 onParamChange={handleClassicParamChange}
+                onSeedChange={handleClassicSeedChange}
+                onTargetPrecisionChange={handleClassicTargetPrecisionChange}
+                onSamplingChange={handleClassicSamplingChange}
               />
 
+              <ExactPreview scenario={classicPreview} />
+
               {/* Run Button */}
               <Button onClick={handleRunSimulation} disabled={isRunning} size="lg" className="w-full">
                 {isRunning ? (
@@ -260,6 +483,10 @@ export function SimpleMonteCarloSimulator() {
                 )}
               </Button>
 
+              {isRunning && progress && (
+                <SimulationProgressBar progress={progress} onCancel={cancelSimulation} />
+              )}
+
               {/* How It Works (Classic) */}
               <Accordion type="single" collapsible className="w-full">
                 <AccordionItem value="advanced" className="border rounded-lg">
@@ -312,15 +539,38 @@ export function SimpleMonteCarloSimulator() {
             <div className="lg:col-span-8 space-y-4">
               {results ? (
                 <>
-                  <SimpleResults results={results} />
+                  {shareScenario && (
+                    <div className="flex justify-end gap-2">
+                      <ExportResultsMenu
+                        scenario={shareScenario}
+                        results={results}
+                        keepSamples={keepSamples}
+                        onKeepSamplesChange={setKeepSamples}
+                      />
+                      <ShareScenarioButton scenario={shareScenario} />
+                    </div>
+                  )}
+                  <SimpleResults results={results} onReuseSeed={handleReuseSeed} />
                   <div className="grid md:grid-cols-2 gap-4">
                     <SimpleHistogram histogram={results.histogram} median={results.stats.median} />
                     <SimpleThresholds
                       thresholds={thresholds}
                       thresholdProbs={results.thresholdProbs}
+                      intervals={results.intervals?.thresholdProbs}
                       onThresholdsChange={setThresholds}
                     />
                   </div>
+                  {results.exceedance && (
+                    <ExceedanceChart
+                      curve={results.exceedance}
+                      thresholds={thresholds}
+                      onAddThreshold={handleAddThreshold}
+                      exactCurve={exactResults?.exceedance}
+                    />
+                  )}
+                  <ExactCheck results={results} exact={exactResults} thresholds={thresholds} />
+                  {shareScenario && <SensitivityPanel scenario={shareScenario} />}
+                  <ParameterSweep params={classicParams} thresholds={thresholds} />
                 </>
               ) : (
                 <div className="h-96 flex items-center justify-center rounded-lg border bg-card">
@@ -341,6 +591,8 @@ export function SimpleMonteCarloSimulator() {
               onParamsChange={handleAdvancedParamsChange}
             />
 
+            <ExactPreview scenario={advancedPreview} className="max-w-md mx-auto" />
+
             {/* Run Button */}
             <Button onClick={handleRunSimulation} disabled={isRunning} size="lg" className="w-full max-w-md mx-auto flex">
               {isRunning ? (
@@ -356,19 +608,54 @@ export function SimpleMonteCarloSimulator() {
               )}
             </Button>
 
+            {isRunning && progress && (
+              <div className="w-full max-w-md mx-auto">
+                <SimulationProgressBar progress={progress} onCancel={cancelSimulation} />
+              </div>
+            )}
+
             {/* Results */}
             {results ? (
               <div className="grid lg:grid-cols-12 gap-6">
                 <div className="lg:col-span-6 space-y-4">
-                  <SimpleResults results={results} />
+                  {shareScenario && (
+                    <div className="flex justify-end gap-2">
+                      <ExportResultsMenu
+                        scenario={shareScenario}
+                        results={results}
+                        keepSamples={keepSamples}
+                        onKeepSamplesChange={setKeepSamples}
+                      />
+                      <ShareScenarioButton scenario={shareScenario} />
+                    </div>
+                  )}
+                  <SimpleResults results={results} onReuseSeed={handleReuseSeed} />
+                  {results.realized && (
+                    <VestingResults atTge={results} realized={results.realized} thresholds={thresholds} />
+                  )}
+                  {results.allocations && (
+                    <AllocationResults allocations={results.allocations} thresholds={thresholds} />
+                  )}
+                  <ExactCheck results={results} exact={exactResults} thresholds={thresholds} />
+                  {lastRun?.mode === 'advanced' && <ReferenceClassSources params={lastRun.params} />}
                 </div>
                 <div className="lg:col-span-6 space-y-4">
                   <SimpleHistogram histogram={results.histogram} median={results.stats.median} />
+                  {results.exceedance && (
+                    <ExceedanceChart
+                      curve={results.exceedance}
+                      thresholds={thresholds}
+                      onAddThreshold={handleAddThreshold}
+                      exactCurve={exactResults?.exceedance}
+                    />
+                  )}
                   <SimpleThresholds
                     thresholds={thresholds}
                     thresholdProbs={results.thresholdProbs}
+                    intervals={results.intervals?.thresholdProbs}
                     onThresholdsChange={setThresholds}
                   />
+                  {shareScenario && <SensitivityPanel scenario={shareScenario} />}
                 </div>
               </div>
             ) : (
@@ -408,12 +695,78 @@ export function SimpleMonteCarloSimulator() {
                       <p className="text-xs text-muted-foreground">
                         • <strong>Prediction-Centric:</strong> Concentrates around your expected outcome range
                       </p>
+                      <p className="text-xs text-muted-foreground">
+                        • <strong>Log-Uniform / Lognormal:</strong> For ranges spanning orders of magnitude; lognormal is right-skewed around a median
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        • <strong>PERT / Triangular:</strong> Peak at a most likely value you choose; PERT is smoother with lighter tails
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        • <strong>Trapezoid:</strong> Flat across a plateau, tapering to the range ends
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        • <strong>Exponential Decay:</strong> Highest at the minimum, halving every half-life
+                      </p>
+                    </div>
+                    <div className="p-3 bg-muted/50 rounded-lg space-y-2">
+                      <p className="font-medium">Reference Class</p>
+                      <p className="text-xs text-muted-foreground">
+                        Filter a dataset of past launches (bundled sample or your own JSON / CSV) and use their FDVs or airdrop shares as an empirical range, resampled as-is or smoothed. The source launches are listed with the results.
+                      </p>
+                    </div>
+                    <div className="p-3 bg-muted/50 rounded-lg space-y-2">
+                      <p className="font-medium">Expert Elicitation</p>
+                      <p className="text-xs text-muted-foreground">
+                        Enter two or three percentile guesses (P10 / P50 / P90) and optional hard bounds for FDV or Airdrop %. A lognormal or piecewise fit is shown against your guesses and can replace the ranges.
+                      </p>
+                    </div>
+                    <div className="p-3 bg-muted/50 rounded-lg space-y-2">
+                      <p className="font-medium">Market Cap + Float</p>
+                      <p className="text-xs text-muted-foreground">
+                        Instead of FDV, describe the launch market cap and the circulating float. Each simulation draws both and uses the implied FDV = market cap ÷ float.
+                      </p>
+                    </div>
+                    <div className="p-3 bg-muted/50 rounded-lg space-y-2">
+                      <p className="font-medium">Holder Share</p>
+                      <p className="text-xs text-muted-foreground">
+                        Optionally split the airdrop with other claimants (testnet users, stakers, other collections). The share going to NFT holders is drawn from its own ranges and multiplies the value; the results show how much of the spread each factor drives.
+                      </p>
+                    </div>
+                    <div className="p-3 bg-muted/50 rounded-lg space-y-2">
+                      <p className="font-medium">Correlation</p>
+                      <p className="text-xs text-muted-foreground">
+                        Optionally link FDV and Airdrop % with a copula. Each variable keeps the distribution you defined; only how they move together changes.
+                      </p>
+                    </div>
+                    <div className="p-3 bg-muted/50 rounded-lg space-y-2">
+                      <p className="font-medium">Vesting & Price Path</p>
+                      <p className="text-xs text-muted-foreground">
+                        Optionally unlock the airdrop over time. Each tranche is sold at unlock at a price that follows geometric Brownian motion from the TGE price, giving a realized value next to the value at TGE.
+                      </p>
+                    </div>
+                    <div className="p-3 bg-muted/50 rounded-lg space-y-2">
+                      <p className="font-medium">Rarity Tiers</p>
+                      <p className="text-xs text-muted-foreground">
+                        Optionally split the airdrop by tier: each NFT gets a share proportional to its multiplier, so a tier's value is the even-split value × multiplier × supply ÷ Σ(count × multiplier). Your holding adds up the NFTs you hold in each tier.
+                      </p>
+                    </div>
+                    <div className="p-3 bg-muted/50 rounded-lg space-y-2">
+                      <p className="font-medium">Sampling</p>
+                      <p className="text-xs text-muted-foreground">
+                        Latin hypercube and Sobol points spread the draws evenly over every input instead of leaving gaps and clumps, so the same number of samples gives a more precise answer. The run is split into {SAMPLING_REPLICATES} independent replicates; their spread gives the ± error and the improvement over pseudo-random shown with the results.
+                      </p>
+                    </div>
+                    <div className="p-3 bg-muted/50 rounded-lg space-y-2">
+                      <p className="font-medium">Exact Computation</p>
+                      <p className="text-xs text-muted-foreground">
+                        Without correlation the factors are independent, so the log of the value is a sum and its distribution a convolution of the input distributions. It is computed directly for the instant preview and the cross-check against the simulation; it covers the value at TGE, not vesting.
+                      </p>
                     </div>
                     <div className="p-3 bg-muted/50 rounded-lg">
                       <p className="text-xs text-muted-foreground">
                         <strong>Formula:</strong>
                         <br />
-                        <code className="text-xs font-mono">value_per_nft = (FDV × Drop%) / NFT_Supply</code>
+                        <code className="text-xs font-mono">value_per_nft = (FDV × Drop% × Holder Share) / NFT_Supply</code>
                       </p>
                     </div>
                   </div>
@@ -447,6 +800,6 @@ export function SimpleMonteCarloSimulator() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
-    </div>
+    </ScenarioDropZone>
   );
 }
@@ -1,13 +1,37 @@
 import { SimpleSimulationResults } from "@/lib/simple-monte-carlo";
 import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
 import { formatCurrency, formatDuration } from "@/lib/format";
+import { ConfidenceInterval, VarianceFactor } from "@/lib/engine-core";
+import { SAMPLING_REPLICATES, SAMPLING_STRATEGIES } from "@/lib/sampling";
 
 interface SimpleResultsProps {
   results: SimpleSimulationResults;
+  onReuseSeed?: (seed: number) => void;
 }
 
-export function SimpleResults({ results }: SimpleResultsProps) {
-  const { stats, worstCase, bestCase, executionTimeMs } = results;
+const FACTOR_LABELS: Record<VarianceFactor, string> = {
+  fdv: 'FDV',
+  drop: 'Airdrop %',
+  holderShare: 'Holder Share'
+};
+
+// Monte Carlo error of an estimate as ± half the width of its 95% CI
+function PlusMinus({ interval, className = "" }: { interval?: ConfidenceInterval; className?: string }) {
+  if (!interval) return null;
+  return (
+    <p
+      className={`text-xs text-muted-foreground tabular-nums ${className}`}
+      title={`95% CI ${formatCurrency(interval.low, 2)} – ${formatCurrency(interval.high, 2)}`}
+    >
+      ± {formatCurrency((interval.high - interval.low) / 2, 2)}
+    </p>
+  );
+}
+
+export function SimpleResults({ results, onReuseSeed }: SimpleResultsProps) {
+  const { stats, worstCase, bestCase, executionTimeMs, seed, varianceDrivers, intervals, numSamples, sampling, samplingEfficiency } = results;
+  const hasHolderShare = !!varianceDrivers?.some(d => d.factor === 'holderShare');
 
   return (
     <Card className="overflow-hidden">
@@ -18,6 +42,7 @@ export function SimpleResults({ results }: SimpleResultsProps) {
           <div className="text-5xl font-bold text-primary tabular-nums">
             {formatCurrency(stats.median, 0)}
           </div>
+          <PlusMinus interval={intervals?.stats.median} className="mt-1" />
           <p className="text-sm text-muted-foreground mt-1">Median (P50)</p>
         </div>
 
@@ -26,10 +51,12 @@ export function SimpleResults({ results }: SimpleResultsProps) {
           <div className="text-center">
             <p className="text-xs text-muted-foreground mb-1">P10 (Low End)</p>
             <div className="text-2xl font-semibold tabular-nums">{formatCurrency(stats.p10, 0)}</div>
+            <PlusMinus interval={intervals?.stats.p10} />
           </div>
           <div className="text-center">
             <p className="text-xs text-muted-foreground mb-1">P90 (High End)</p>
             <div className="text-2xl font-semibold tabular-nums">{formatCurrency(stats.p90, 0)}</div>
+            <PlusMinus interval={intervals?.stats.p90} />
           </div>
         </div>
 
@@ -38,10 +65,12 @@ export function SimpleResults({ results }: SimpleResultsProps) {
           <div className="text-center">
             <p className="text-xs text-muted-foreground mb-1">P5 (Rare Downside)</p>
             <div className="text-lg font-medium tabular-nums text-muted-foreground">{formatCurrency(stats.p5, 0)}</div>
+            <PlusMinus interval={intervals?.stats.p5} />
           </div>
           <div className="text-center">
             <p className="text-xs text-muted-foreground mb-1">P95 (Rare Upside)</p>
             <div className="text-lg font-medium tabular-nums text-muted-foreground">{formatCurrency(stats.p95, 0)}</div>
+            <PlusMinus interval={intervals?.stats.p95} />
           </div>
         </div>
 
@@ -50,23 +79,69 @@ export function SimpleResults({ results }: SimpleResultsProps) {
           <div className="text-center">
             <p className="text-xs text-muted-foreground mb-1">Worst-Case Anchor</p>
             <div className="text-lg font-medium tabular-nums">{formatCurrency(worstCase, 2)}</div>
-            <p className="text-xs text-muted-foreground">FDV Min × Drop Min</p>
+            <p className="text-xs text-muted-foreground">FDV Min × Drop Min{hasHolderShare && ' × Share Min'}</p>
           </div>
           <div className="text-center">
             <p className="text-xs text-muted-foreground mb-1">Best-Case Anchor</p>
             <div className="text-lg font-medium tabular-nums">{formatCurrency(bestCase, 2)}</div>
-            <p className="text-xs text-muted-foreground">FDV Max × Drop Max</p>
+            <p className="text-xs text-muted-foreground">FDV Max × Drop Max{hasHolderShare && ' × Share Max'}</p>
           </div>
         </div>
 
+        {/* Variance Drivers */}
+        {varianceDrivers && (
+          <div className="py-4 border-b space-y-2">
+            <p className="text-xs text-muted-foreground">What drives the spread (share of log-value variance)</p>
+            {varianceDrivers.map(({ factor, share }) => (
+              <div key={factor} className="flex items-center gap-3 text-sm">
+                <span className="w-24 text-muted-foreground">{FACTOR_LABELS[factor]}</span>
+                <div className="flex-1 h-2 rounded-full bg-muted overflow-hidden">
+                  <div className="h-full bg-primary" style={{ width: `${Math.min(Math.max(share, 0), 1) * 100}%` }} />
+                </div>
+                <span className="w-12 text-right font-mono tabular-nums">{(share * 100).toFixed(0)}%</span>
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Mean (smaller) */}
         <div className="pt-4 flex items-center justify-between text-sm">
           <div>
             <span className="text-muted-foreground">Mean: </span>
             <span className="font-mono font-medium">{formatCurrency(stats.mean, 2)}</span>
+            {intervals && (
+              <span className="ml-1 text-xs text-muted-foreground font-mono">
+                ± {formatCurrency((intervals.stats.mean.high - intervals.stats.mean.low) / 2, 2)}
+              </span>
+            )}
           </div>
-          <div className="text-xs text-muted-foreground">
-            Computed in {formatDuration(executionTimeMs)}
+          <div className="text-xs text-muted-foreground text-right space-y-1">
+            <div>
+              Computed in {formatDuration(executionTimeMs)}
+              {numSamples !== undefined && <> from {numSamples.toLocaleString()} samples</>}
+            </div>
+            {intervals && <div>± = 95% Monte Carlo error</div>}
+            {sampling && SAMPLING_STRATEGIES[sampling] && (
+              <div>
+                {SAMPLING_STRATEGIES[sampling].label} sampling
+                {samplingEfficiency && (
+                  <span
+                    className="block"
+                    title={`Estimated from ${SAMPLING_REPLICATES} independent replicates; mean error ${samplingEfficiency.mean.toFixed(1)}× smaller`}
+                  >
+                    median error {samplingEfficiency.median.toFixed(1)}× smaller than pseudo-random
+                  </span>
+                )}
+              </div>
+            )}
+            <div className="flex items-center justify-end gap-2">
+              <span>Seed: <span className="font-mono text-foreground">{seed}</span></span>
+              {onReuseSeed && (
+                <Button variant="outline" size="sm" onClick={() => onReuseSeed(seed)} className="h-6 px-2 text-xs">
+                  Reuse
+                </Button>
+              )}
+            </div>
           </div>
         </div>
       </CardContent>
@@ -3,16 +3,19 @@ import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Plus, X } from "lucide-react";
 import { formatProbability } from "@/lib/format";
+import { ConfidenceInterval } from "@/lib/engine-core";
 
 interface SimpleThresholdsProps {
   thresholds: number[];
   thresholdProbs: Record<number, number>;
+  intervals?: Record<number, ConfidenceInterval>;  // 95% CIs of the probabilities
   onThresholdsChange: (thresholds: number[]) => void;
 }
 
 export function SimpleThresholds({ 
   thresholds, 
   thresholdProbs, 
+  intervals,
   onThresholdsChange 
 }: SimpleThresholdsProps) {
   const addThreshold = () => {
@@ -47,6 +50,7 @@ export function SimpleThresholds({
       <CardContent className="space-y-3">
         {thresholds.map((threshold, index) => {
           const prob = thresholdProbs[threshold] ?? 0;
+          const interval = intervals?.[threshold];
           return (
             <div key={index} className="space-y-1">
               <div className="flex items-center gap-2">
@@ -59,6 +63,14 @@ export function SimpleThresholds({
                 />
                 <div className="flex-1 text-right font-mono text-sm font-semibold">
                   {formatProbability(prob)}
+                  {interval && (
+                    <span
+                      className="ml-1 text-xs font-normal text-muted-foreground"
+                      title={`95% CI ${formatProbability(interval.low)} – ${formatProbability(interval.high)}`}
+                    >
+                      ± {formatProbability((interval.high - interval.low) / 2)}
+                    </span>
+                  )}
                 </div>
                 {thresholds.length > 1 && (
                   <Button 
@@ -0,0 +1,35 @@
+import { Progress } from "@/components/ui/progress";
+import { Button } from "@/components/ui/button";
+import { X } from "lucide-react";
+import { SimulationProgress } from "@/lib/simulation-progress";
+import { formatCurrency } from "@/lib/format";
+
+interface SimulationProgressBarProps {
+  progress: SimulationProgress;
+  onCancel: () => void;
+}
+
+export function SimulationProgressBar({ progress, onCancel }: SimulationProgressBarProps) {
+  const { completed, total, interimMedian } = progress;
+  const percent = total > 0 ? (completed / total) * 100 : 0;
+
+  return (
+    <div className="space-y-2 rounded-lg border bg-card p-3">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span className="tabular-nums">
+          {completed.toLocaleString()} / {total.toLocaleString()} samples
+        </span>
+        <span className="tabular-nums">
+          Interim median: <span className="font-mono text-foreground">{completed > 0 ? formatCurrency(interimMedian, 0) : '—'}</span>
+        </span>
+      </div>
+      <div className="flex items-center gap-2">
+        <Progress value={percent} className="h-2 flex-1" />
+        <Button variant="outline" size="sm" onClick={onCancel} className="h-7 text-xs">
+          <X className="mr-1 h-3 w-3" />
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,6 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ParameterInput } from "./ParameterInput";
-import { Switch } from "@/components/ui/switch";
-import { Label } from "@/components/ui/label";
-import { Input } from "@/components/ui/input";
+import { SeedControl } from "./SeedControl";
 import { formatNumber } from "@/lib/format";
 
 interface SimulationSettingsProps {
@@ -52,30 +50,12 @@ export function SimulationSettings({
           description="More simulations = more accurate, but slower"
         />
 
-        <div className="flex items-center justify-between p-3 bg-muted/30 rounded-lg">
-          <div className="space-y-0.5">
-            <Label className="text-sm font-medium">Deterministic Seed</Label>
-            <p className="text-xs text-muted-foreground">
-              Reproducible results
-            </p>
-          </div>
-          <Switch
-            checked={useDeterministicSeed}
-            onCheckedChange={onToggleSeed}
-          />
-        </div>
-
-        {useDeterministicSeed && (
-          <div className="flex items-center gap-3">
-            <Label className="text-sm">Seed:</Label>
-            <Input
-              type="number"
-              value={seed}
-              onChange={(e) => onParamChange('seed', parseInt(e.target.value) || 0)}
-              className="w-32 h-8 font-mono text-sm"
-            />
-          </div>
-        )}
+        <SeedControl
+          enabled={useDeterministicSeed}
+          seed={seed}
+          onToggle={onToggleSeed}
+          onSeedChange={(v) => onParamChange('seed', v)}
+        />
       </CardContent>
     </Card>
   );
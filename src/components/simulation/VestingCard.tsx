@@ -0,0 +1,81 @@
+import { useMemo } from "react";
+import { DEFAULT_VESTING, VestingParams, createUnlockSchedule, validateVesting } from "@/lib/vesting";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { AlertCircle, CalendarClock } from "lucide-react";
+
+interface VestingCardProps {
+  vesting?: VestingParams;
+  errors: string[];
+  onChange: (vesting: VestingParams | undefined) => void;
+}
+
+const FIELDS: { key: keyof VestingParams; label: string; unit: string; step: number }[] = [
+  { key: 'tgeUnlockPct', label: "TGE Unlock", unit: "%", step: 5 },
+  { key: 'cliffMonths', label: "Cliff", unit: "months", step: 1 },
+  { key: 'linearMonths', label: "Linear Unlock", unit: "months", step: 1 },
+  { key: 'annualDriftPct', label: "Price Drift", unit: "% / year", step: 10 },
+  { key: 'annualVolatilityPct', label: "Volatility", unit: "% / year", step: 10 },
+];
+
+export function VestingCard({ vesting, errors, onChange }: VestingCardProps) {
+  const lastUnlockMonth = useMemo(() => {
+    if (!vesting || validateVesting(vesting).length > 0) return null;
+    const schedule = createUnlockSchedule(vesting);
+    return schedule.length > 0 ? schedule[schedule.length - 1].month : 0;
+  }, [vesting]);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <CalendarClock className="h-5 w-5 text-primary" />
+            <CardTitle className="text-lg">Vesting & Price Path</CardTitle>
+          </div>
+          <Switch
+            checked={!!vesting}
+            onCheckedChange={(checked) => onChange(checked ? DEFAULT_VESTING : undefined)}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Off treats the whole airdrop as sold at TGE. On unlocks it over time and sells each tranche at a simulated price (geometric Brownian motion).
+        </p>
+      </CardHeader>
+      {vesting && (
+        <CardContent className="space-y-3">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {FIELDS.map(({ key, label, unit, step }) => (
+              <div key={key} className="space-y-1.5">
+                <Label htmlFor={`vesting-${key}`} className="text-sm font-medium">
+                  {label} <span className="text-muted-foreground font-normal">({unit})</span>
+                </Label>
+                <Input
+                  id={`vesting-${key}`}
+                  type="number"
+                  step={step}
+                  value={vesting[key]}
+                  onChange={(e) => onChange({ ...vesting, [key]: parseFloat(e.target.value) || 0 })}
+                  className="font-mono"
+                />
+              </div>
+            ))}
+          </div>
+          {lastUnlockMonth !== null && (
+            <p className="text-xs text-muted-foreground">
+              {vesting.tgeUnlockPct}% sold at TGE; fully unlocked and sold by month {lastUnlockMonth}.
+            </p>
+          )}
+          {errors.map((message) => (
+            <div key={message} className="flex items-center gap-1 text-destructive text-xs">
+              <AlertCircle className="h-3 w-3" />
+              <span>{message}</span>
+            </div>
+          ))}
+        </CardContent>
+      )}
+    </Card>
+  );
+}
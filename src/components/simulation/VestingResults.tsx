@@ -0,0 +1,107 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, Legend } from "recharts";
+import { DistributionSummary } from "@/lib/engine-core";
+import { densityPerDecade, relativeDiff } from "@/lib/comparison";
+import { formatCurrency, formatProbability } from "@/lib/format";
+
+interface VestingResultsProps {
+  atTge: DistributionSummary;
+  realized: DistributionSummary;
+  thresholds: number[];
+}
+
+const TGE_COLOR = "hsl(var(--chart-1))";
+const REALIZED_COLOR = "hsl(var(--chart-2))";
+
+const STAT_ROWS = [
+  { key: 'p10', label: 'P10' },
+  { key: 'median', label: 'Median' },
+  { key: 'mean', label: 'Mean' },
+  { key: 'p90', label: 'P90' },
+] as const;
+
+export function VestingResults({ atTge, realized, thresholds }: VestingResultsProps) {
+  const tgeCurve = densityPerDecade(atTge.histogram);
+  const realizedCurve = densityPerDecade(realized.histogram);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">Value at TGE vs Realized</CardTitle>
+        <p className="text-xs text-muted-foreground">
+          Realized = every tranche sold on unlock at the simulated price
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart margin={{ top: 10, right: 20, left: 0, bottom: 0 }}>
+              <XAxis
+                dataKey="x"
+                type="number"
+                scale="log"
+                domain={["auto", "auto"]}
+                allowDataOverflow
+                tick={{ fontSize: 10 }}
+                tickFormatter={(v) => formatCurrency(v, 0)}
+              />
+              <YAxis tick={{ fontSize: 10 }} tickFormatter={(v) => v.toFixed(2)} />
+              <Tooltip
+                formatter={(value: number, name: string) => [value.toFixed(3), name]}
+                labelFormatter={(label) => `Value: ${formatCurrency(Number(label), 0)}`}
+                contentStyle={{
+                  backgroundColor: 'hsl(var(--card))',
+                  border: '1px solid hsl(var(--border))',
+                  borderRadius: 'var(--radius)',
+                  fontSize: '12px'
+                }}
+              />
+              <Legend wrapperStyle={{ fontSize: "11px" }} />
+              <Line data={tgeCurve} dataKey="y" name="At TGE" type="monotone" stroke={TGE_COLOR} strokeWidth={2} dot={false} isAnimationActive={false} />
+              <Line data={realizedCurve} dataKey="y" name="Realized" type="monotone" stroke={REALIZED_COLOR} strokeWidth={2} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead></TableHead>
+              <TableHead className="text-right" style={{ color: TGE_COLOR }}>At TGE</TableHead>
+              <TableHead className="text-right" style={{ color: REALIZED_COLOR }}>Realized</TableHead>
+              <TableHead className="text-right">Change</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {STAT_ROWS.map(({ key, label }) => {
+              const diff = relativeDiff(realized.stats[key], atTge.stats[key]);
+              return (
+                <TableRow key={key}>
+                  <TableCell className="font-medium">{label}</TableCell>
+                  <TableCell className="text-right font-mono tabular-nums">{formatCurrency(atTge.stats[key], 0)}</TableCell>
+                  <TableCell className="text-right font-mono tabular-nums">{formatCurrency(realized.stats[key], 0)}</TableCell>
+                  <TableCell className={`text-right font-mono tabular-nums text-xs ${diff !== null && diff < 0 ? 'text-destructive' : 'text-green-600 dark:text-green-400'}`}>
+                    {diff === null ? '—' : `${diff > 0 ? '+' : ''}${(diff * 100).toFixed(0)}%`}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+            {thresholds.map((threshold) => {
+              const tgeProb = atTge.thresholdProbs[threshold];
+              const realizedProb = realized.thresholdProbs[threshold];
+              return (
+                <TableRow key={`t-${threshold}`}>
+                  <TableCell className="font-medium">P(≥ {formatCurrency(threshold, 0)})</TableCell>
+                  <TableCell className="text-right font-mono tabular-nums">{tgeProb === undefined ? '—' : formatProbability(tgeProb)}</TableCell>
+                  <TableCell className="text-right font-mono tabular-nums">{realizedProb === undefined ? '—' : formatProbability(realizedProb)}</TableCell>
+                  <TableCell />
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
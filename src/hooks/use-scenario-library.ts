@@ -0,0 +1,95 @@
+import * as React from "react";
+
+import { toast } from "@/components/ui/sonner";
+import { SimulationResults } from "@/lib/engine-core";
+import { Scenario } from "@/lib/scenario";
+import { LIBRARY_STORAGE_KEY, LoadedLibrary, SavedScenario, generateScenarioId, loadLibrary, saveLibrary } from "@/lib/scenario-storage";
+
+function reportUnreadable(library: LoadedLibrary) {
+  if (library.backupKey) {
+    toast.warning("Could not load saved scenarios", {
+      description: `The stored library could not be read. A copy was kept under "${library.backupKey}".`,
+    });
+  } else if (library.unreadable.length > 0) {
+    const count = library.unreadable.length;
+    toast.warning(`${count} saved scenario${count === 1 ? "" : "s"} could not be loaded`, {
+      description: "They are kept in storage unchanged and will not be overwritten.",
+    });
+  }
+}
+
+// Named scenarios persisted in localStorage and kept in sync across tabs
+export function useScenarioLibrary() {
+  const [initial] = React.useState(loadLibrary);
+  const [scenarios, setScenarios] = React.useState<SavedScenario[]>(initial.scenarios);
+  const scenariosRef = React.useRef(scenarios);
+  // Entries this build cannot read; every save writes them back
+  const unreadableRef = React.useRef(initial.unreadable);
+
+  React.useEffect(() => reportUnreadable(initial), [initial]);
+
+  React.useEffect(() => {
+    const onStorage = (event: StorageEvent) => {
+      if (event.key !== LIBRARY_STORAGE_KEY) return;
+      const library = loadLibrary();
+      scenariosRef.current = library.scenarios;
+      unreadableRef.current = library.unreadable;
+      setScenarios(library.scenarios);
+    };
+    window.addEventListener("storage", onStorage);
+    return () => window.removeEventListener("storage", onStorage);
+  }, []);
+
+  const update = React.useCallback((updater: (prev: SavedScenario[]) => SavedScenario[]) => {
+    const next = updater(scenariosRef.current);
+    // Keep memory in step with storage: a failed write changes neither
+    if (!saveLibrary(next, unreadableRef.current)) {
+      toast.error("Could not save the scenario library", {
+        description: "Browser storage is full. Delete some saved scenarios and try again.",
+      });
+      return;
+    }
+    scenariosRef.current = next;
+    setScenarios(next);
+  }, []);
+
+  const save = React.useCallback(
+    (name: string, scenario: Scenario, results?: SimulationResults) => {
+      const now = new Date().toISOString();
+      // Raw samples are far too large for localStorage; only the summary is kept
+      const stored = results && { ...results, values: undefined };
+      update((prev) => [{ id: generateScenarioId(), name, createdAt: now, updatedAt: now, scenario, results: stored }, ...prev]);
+    },
+    [update],
+  );
+
+  const rename = React.useCallback(
+    (id: string, name: string) => {
+      const now = new Date().toISOString();
+      update((prev) => prev.map((s) => (s.id === id ? { ...s, name, updatedAt: now } : s)));
+    },
+    [update],
+  );
+
+  const duplicate = React.useCallback(
+    (id: string) => {
+      update((prev) => {
+        const index = prev.findIndex((s) => s.id === id);
+        if (index < 0) return prev;
+        const now = new Date().toISOString();
+        const copy = { ...prev[index], id: generateScenarioId(), name: `${prev[index].name} (copy)`, createdAt: now, updatedAt: now };
+        return [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)];
+      });
+    },
+    [update],
+  );
+
+  const remove = React.useCallback(
+    (id: string) => {
+      update((prev) => prev.filter((s) => s.id !== id));
+    },
+    [update],
+  );
+
+  return { scenarios, save, rename, duplicate, remove };
+}
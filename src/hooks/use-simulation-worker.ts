@@ -0,0 +1,185 @@
+import * as React from "react";
+
+import type { SimulationResults } from "@/lib/engine-core";
+import type { SimulationProgress } from "@/lib/simulation-progress";
+import type { AnalysisJob, AnalysisResults, SimulationJob, WorkerResponse } from "@/workers/simulation-protocol";
+
+interface PendingJob {
+  id: number;
+  resolve: (results: SimulationResults | null) => void;
+  reject: (error: Error) => void;
+}
+
+function createSimulationWorker() {
+  return new Worker(new URL("../workers/simulation.worker.ts", import.meta.url), { type: "module" });
+}
+
+// Runs simulation jobs in a dedicated worker, one at a time.
+// `run` resolves with the results, or with null if the job was cancelled.
+// Pass `retainValues` to get the raw samples back on `results.values`.
+export function useSimulationWorker() {
+  const workerRef = React.useRef<Worker | null>(null);
+  const pendingRef = React.useRef<PendingJob | null>(null);
+  const nextIdRef = React.useRef(0);
+  const [isRunning, setIsRunning] = React.useState(false);
+  const [progress, setProgress] = React.useState<SimulationProgress | null>(null);
+
+  const finish = React.useCallback(() => {
+    pendingRef.current = null;
+    setIsRunning(false);
+    setProgress(null);
+  }, []);
+
+  const getWorker = React.useCallback(() => {
+    if (workerRef.current) return workerRef.current;
+
+    const worker = createSimulationWorker();
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      const pending = pendingRef.current;
+      // Ignore messages from jobs that were already cancelled
+      if (!pending || pending.id !== message.id) return;
+
+      if (message.type === "progress") {
+        setProgress(message.progress);
+      } else if (message.type === "result") {
+        finish();
+        pending.resolve(message.results);
+      } else if (message.type === "error") {
+        finish();
+        pending.reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      const pending = pendingRef.current;
+      if (!pending) return;
+      finish();
+      pending.reject(new Error(event.message || "Simulation worker failed"));
+    };
+    workerRef.current = worker;
+    return worker;
+  }, [finish]);
+
+  // Abort the running job by tearing the worker down; a fresh one is created on the next run
+  const cancel = React.useCallback(() => {
+    const pending = pendingRef.current;
+    if (!pending) return;
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    finish();
+    pending.resolve(null);
+  }, [finish]);
+
+  const run = React.useCallback(
+    (job: SimulationJob, retainValues = false): Promise<SimulationResults | null> => {
+      cancel();
+      const id = ++nextIdRef.current;
+      const worker = getWorker();
+      setIsRunning(true);
+      setProgress({ completed: 0, total: job.params.numSimulations, interimMedian: 0 });
+
+      return new Promise((resolve, reject) => {
+        pendingRef.current = { id, resolve, reject };
+        worker.postMessage({ type: "run", id, job, retainValues });
+      });
+    },
+    [cancel, getWorker],
+  );
+
+  React.useEffect(() => {
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  return { run, cancel, isRunning, progress };
+}
+
+interface PendingAnalysis {
+  id: number;
+  resolve: (result: AnalysisResults[AnalysisJob["kind"]] | null) => void;
+  reject: (error: Error) => void;
+}
+
+export interface AnalysisProgress {
+  completed: number;
+  total: number;
+}
+
+// Runs sensitivity analyses and sweeps in their own worker, one at a time, so the many engine
+// runs they need never block input. `run` resolves with null if the job was cancelled; `total`
+// seeds the progress count until the worker's first report.
+export function useAnalysisWorker() {
+  const workerRef = React.useRef<Worker | null>(null);
+  const pendingRef = React.useRef<PendingAnalysis | null>(null);
+  const nextIdRef = React.useRef(0);
+  const [progress, setProgress] = React.useState<AnalysisProgress | null>(null);
+
+  const finish = React.useCallback(() => {
+    pendingRef.current = null;
+    setProgress(null);
+  }, []);
+
+  const getWorker = React.useCallback(() => {
+    if (workerRef.current) return workerRef.current;
+
+    const worker = createSimulationWorker();
+    worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const message = event.data;
+      const pending = pendingRef.current;
+      if (!pending || pending.id !== message.id) return;
+
+      if (message.type === "analysisProgress") {
+        setProgress({ completed: message.completed, total: message.total });
+      } else if (message.type === "analysisResult") {
+        finish();
+        pending.resolve(message.result);
+      } else if (message.type === "error") {
+        finish();
+        pending.reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      const pending = pendingRef.current;
+      if (!pending) return;
+      finish();
+      pending.reject(new Error(event.message || "Analysis worker failed"));
+    };
+    workerRef.current = worker;
+    return worker;
+  }, [finish]);
+
+  const cancel = React.useCallback(() => {
+    const pending = pendingRef.current;
+    if (!pending) return;
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    finish();
+    pending.resolve(null);
+  }, [finish]);
+
+  const run = React.useCallback(
+    <J extends AnalysisJob>(job: J, total = 1): Promise<AnalysisResults[J["kind"]] | null> => {
+      cancel();
+      const id = ++nextIdRef.current;
+      const worker = getWorker();
+      setProgress({ completed: 0, total });
+
+      return new Promise((resolve, reject) => {
+        pendingRef.current = { id, resolve: resolve as PendingAnalysis["resolve"], reject };
+        worker.postMessage({ type: "analysis", id, job });
+      });
+    },
+    [cancel, getWorker],
+  );
+
+  React.useEffect(() => {
+    return () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  return { run, cancel, progress };
+}
@@ -1,7 +1,36 @@
 // Advanced Monte Carlo Engine with User-Defined Custom Ranges
 // Supports multiple distribution types per range
 
-export type DistributionType = 'uniform' | 'linearDecreasing' | 'linearIncreasing' | 'predictionCentric';
+import { ConditionalSampler, EngineDependence, EngineModel, ExactFactor, Quantile, Sampler, SimulationResults, MAX_TARGET_PRECISION, isValidSeed, isValidTargetPrecision, runEngine } from './engine-core';
+import { RandomSource, Xoshiro128 } from './prng';
+import { SimulationRunOptions } from './simulation-progress';
+import { SamplingStrategy, validateSampling } from './sampling';
+import { COPULA_FAMILIES, CopulaFamily, MAX_RANK_CORRELATION, UniformPair, createCopulaSampler } from './copula';
+import { rangeCdf, sampleRange } from './distributions';
+import type { ReferenceClass, ReferenceVariable } from './reference-class';
+import { VestingParams, createVestingRealizer, validateVesting } from './vesting';
+import { RarityTier, createAllocationOutputs, validateRarityTiers } from './allocation';
+
+export type DistributionType =
+  | 'uniform'
+  | 'linearDecreasing'
+  | 'linearIncreasing'
+  | 'predictionCentric'
+  | 'logUniform'
+  | 'lognormal'
+  | 'pert'
+  | 'triangular'
+  | 'trapezoid'
+  | 'truncatedExponential'
+  | 'empirical';
+
+// What a set of ranges measures; decides units in the range editor and previews
+export type RangeKind = 'fdv' | 'marketCap' | 'drop' | 'float' | 'holderShare';
+
+// Currency ranges are in millions of dollars, the others are percentages
+export function isCurrencyRange(kind: RangeKind): boolean {
+  return kind === 'fdv' || kind === 'marketCap';
+}
 
 export interface CustomRange {
   id: string;
@@ -11,16 +40,54 @@ export interface CustomRange {
   // For prediction-centric (bell curve)
   expectedMin?: number;
   expectedMax?: number;
+  // Most likely value, for triangular and PERT
+  mode?: number;
+  // Flat top of a trapezoid
+  plateauMin?: number;
+  plateauMax?: number;
+  // Lognormal (truncated to [min, max]): median and σ of ln(value)
+  median?: number;
+  sigma?: number;
+  // Truncated exponential: distance over which the density halves, decaying from min
+  halfLife?: number;
+  // Empirical: observed values (e.g. a reference class of past launches), resampled as-is
+  // when bandwidth is 0, otherwise smoothed with a lognormal kernel of log-σ = bandwidth
+  samples?: number[];
+  bandwidth?: number;
   // User-defined weight (percentage, e.g., 30 = 30%)
   weight: number;
 }
 
+// Dependence between FDV and Drop% (see copula.ts)
+export interface FdvDropCorrelation {
+  copula: CopulaFamily;
+  rankCorrelation: number;  // Kendall's τ in [-0.95, 0.95]; negative = low FDV goes with a bigger drop
+}
+
+// How the token is valued: FDV directly, or market cap over circulating float
+export type ValuationBasis = 'fdv' | 'marketCap';
+
 export interface AdvancedSimulationParams {
   nftSupply: number;
+  valuationBasis?: ValuationBasis;  // Absent = 'fdv'
   fdvRanges: CustomRange[];  // FDV ranges in MILLIONS
+  // Market-cap-first model: implied FDV = market cap / circulating fraction, per sample
+  marketCapRanges?: CustomRange[];  // Market cap ranges in MILLIONS
+  floatRanges?: CustomRange[];      // Circulating supply as % of total supply (0-100)
   dropRanges: CustomRange[]; // Drop% ranges as percentages (0-100)
+  // Share of the airdrop going to NFT holders rather than testnet users, stakers or other
+  // collections, as percentages (0-100). Absent = the whole drop goes to NFT holders.
+  holderShareRanges?: CustomRange[];
   numSimulations: number;
   seed?: number;
+  // Auto-stop once the median is known to ± this % (95% confidence); numSimulations is then the maximum
+  targetPrecision?: number;
+  sampling?: SamplingStrategy;  // Absent = pseudo-random
+  correlation?: FdvDropCorrelation;  // Absent = independent
+  vesting?: VestingParams;  // Absent = fully liquid at TGE
+  rarityTiers?: RarityTier[];  // Absent = every NFT gets an even share
+  // Past launches behind empirical FDV / Airdrop % ranges, shown with the results
+  referenceClasses?: Partial<Record<ReferenceVariable, ReferenceClass>>;
 }
 
 export interface AdvancedValidationError {
@@ -29,187 +96,174 @@ export interface AdvancedValidationError {
   message: string;
 }
 
-// Fast PRNG (xorshift128+)
-class SeededRandom {
-  private s0: number;
-  private s1: number;
-
-  constructor(seed: number) {
-    this.s0 = seed >>> 0;
-    this.s1 = (seed * 1812433253 + 1) >>> 0;
-    for (let i = 0; i < 20; i++) this.next();
-  }
+const RANGE_SET_NAMES: Record<string, string> = {
+  fdvRanges: 'FDV',
+  marketCapRanges: 'Market Cap',
+  floatRanges: 'Circulating Float',
+  dropRanges: 'Airdrop %',
+  holderShareRanges: 'Holder Share'
+};
 
-  next(): number {
-    let s1 = this.s0;
-    const s0 = this.s1;
-    this.s0 = s0;
-    s1 ^= s1 << 23;
-    s1 ^= s1 >>> 17;
-    s1 ^= s0;
-    s1 ^= s0 >>> 26;
-    this.s1 = s1;
-    return (this.s0 >>> 0) / 4294967296;
-  }
+export function usesMarketCap(params: AdvancedSimulationParams): boolean {
+  return params.valuationBasis === 'marketCap';
 }
 
-// Validate advanced params
-export function validateAdvancedParams(params: AdvancedSimulationParams): AdvancedValidationError[] {
-  const errors: AdvancedValidationError[] = [];
-
-  if (params.nftSupply <= 0) {
-    errors.push({ field: 'nftSupply', message: 'NFT supply must be greater than 0' });
-  }
-
-  if (params.fdvRanges.length === 0) {
-    errors.push({ field: 'fdvRanges', message: 'At least one FDV range is required' });
-  } else if (!params.fdvRanges.some(r => r.weight > 0)) {
-    errors.push({ field: 'fdvRanges', message: 'At least one FDV range must have a non-zero weight' });
-  }
-
-  if (params.dropRanges.length === 0) {
-    errors.push({ field: 'dropRanges', message: 'At least one Airdrop % range is required' });
-  } else if (!params.dropRanges.some(r => r.weight > 0)) {
-    errors.push({ field: 'dropRanges', message: 'At least one Airdrop % range must have a non-zero weight' });
-  }
+// Shared checks for one set of ranges; currency ranges are non-negative,
+// percentage ranges must lie in (0, 100]
+function isWithin(value: number | undefined, range: CustomRange): boolean {
+  return value !== undefined && Number.isFinite(value) && value >= range.min && value <= range.max;
+}
 
-  // Validate FDV ranges
-  for (const range of params.fdvRanges) {
-    if (range.min < 0) {
-      errors.push({ field: 'fdvRanges', rangeId: range.id, message: 'FDV Min must be non-negative' });
-    }
-    if (range.max <= range.min) {
-      errors.push({ field: 'fdvRanges', rangeId: range.id, message: 'FDV Max must be greater than Min' });
-    }
-    if (range.distributionType === 'predictionCentric') {
+// Parameters of the shapes beyond uniform / linear
+function validateShapeParams(errors: AdvancedValidationError[], range: CustomRange, field: string): void {
+  const fail = (message: string) => errors.push({ field, rangeId: range.id, message });
+  switch (range.distributionType) {
+    case 'predictionCentric':
       if (range.expectedMin === undefined || range.expectedMax === undefined) {
-        errors.push({ field: 'fdvRanges', rangeId: range.id, message: 'Expected range is required for Prediction-Centric' });
+        fail('Expected range is required for Prediction-Centric');
       } else {
         if (range.expectedMin < range.min || range.expectedMax > range.max) {
-          errors.push({ field: 'fdvRanges', rangeId: range.id, message: 'Expected range must be within the main range' });
+          fail('Expected range must be within the main range');
         }
         if (range.expectedMax <= range.expectedMin) {
-          errors.push({ field: 'fdvRanges', rangeId: range.id, message: 'Expected Max must be greater than Expected Min' });
+          fail('Expected Max must be greater than Expected Min');
         }
       }
-    }
+      break;
+    case 'logUniform':
+      if (range.min <= 0) fail('Log-Uniform needs Min greater than 0');
+      break;
+    case 'triangular':
+    case 'pert':
+      if (!isWithin(range.mode, range)) fail('Most likely value must be within the range');
+      break;
+    case 'trapezoid':
+      if (!isWithin(range.plateauMin, range) || !isWithin(range.plateauMax, range)) {
+        fail('Plateau must be within the range');
+      } else if (range.plateauMax < range.plateauMin) {
+        fail('Plateau End must not be below Plateau Start');
+      }
+      break;
+    case 'lognormal':
+      if (!isWithin(range.median, range) || range.median <= 0) fail('Median must be within the range and greater than 0');
+      if (range.sigma === undefined || !(range.sigma > 0)) fail('Spread (σ) must be greater than 0');
+      break;
+    case 'truncatedExponential':
+      if (range.halfLife === undefined || !(range.halfLife > 0)) fail('Half-life must be greater than 0');
+      break;
+    case 'empirical':
+      if (!range.samples || range.samples.length === 0) {
+        fail('Empirical ranges need reference values; build them from a reference class');
+      } else if (!range.samples.every(v => isWithin(v, range))) {
+        fail('Every reference value must be within the range');
+      } else if (range.bandwidth > 0 && !range.samples.every(v => v > 0)) {
+        fail('Smoothing needs reference values greater than 0');
+      }
+      if (range.bandwidth === undefined || !(range.bandwidth >= 0)) fail('Smoothing must be 0 or more');
+      break;
+  }
+}
+
+// Whether a single range is complete enough to draw from (the range preview checks this)
+export function isSampleableRange(range: CustomRange): boolean {
+  const errors: AdvancedValidationError[] = [];
+  validateShapeParams(errors, range, '');
+  return errors.length === 0 && range.max > range.min;
+}
+
+function validateRangeSet(
+  errors: AdvancedValidationError[],
+  ranges: CustomRange[],
+  field: string,
+  label: string,
+  unit: 'currency' | 'percent'
+): void {
+  const name = RANGE_SET_NAMES[field];
+  if (ranges.length === 0) {
+    errors.push({ field, message: `At least one ${name} range is required` });
+  } else if (!ranges.some(r => r.weight > 0)) {
+    errors.push({ field, message: `At least one ${name} range must have a non-zero weight` });
   }
 
-  // Validate Drop% ranges
-  for (const range of params.dropRanges) {
-    if (range.min <= 0) {
-      errors.push({ field: 'dropRanges', rangeId: range.id, message: 'Drop% Min must be greater than 0' });
+  for (const range of ranges) {
+    if (unit === 'currency' && range.min < 0) {
+      errors.push({ field, rangeId: range.id, message: `${label} Min must be non-negative` });
     }
-    if (range.max > 100) {
-      errors.push({ field: 'dropRanges', rangeId: range.id, message: 'Drop% Max cannot exceed 100' });
+    if (unit === 'percent' && range.min <= 0) {
+      errors.push({ field, rangeId: range.id, message: `${label} Min must be greater than 0` });
     }
-    if (range.max <= range.min) {
-      errors.push({ field: 'dropRanges', rangeId: range.id, message: 'Drop% Max must be greater than Min' });
+    if (unit === 'percent' && range.max > 100) {
+      errors.push({ field, rangeId: range.id, message: `${label} Max cannot exceed 100` });
     }
-    if (range.distributionType === 'predictionCentric') {
-      if (range.expectedMin === undefined || range.expectedMax === undefined) {
-        errors.push({ field: 'dropRanges', rangeId: range.id, message: 'Expected range is required for Prediction-Centric' });
-      } else {
-        if (range.expectedMin < range.min || range.expectedMax > range.max) {
-          errors.push({ field: 'dropRanges', rangeId: range.id, message: 'Expected range must be within the main range' });
-        }
-        if (range.expectedMax <= range.expectedMin) {
-          errors.push({ field: 'dropRanges', rangeId: range.id, message: 'Expected Max must be greater than Expected Min' });
-        }
-      }
+    if (range.max <= range.min) {
+      errors.push({ field, rangeId: range.id, message: `${label} Max must be greater than Min` });
     }
+    validateShapeParams(errors, range, field);
+  }
+}
+
+// Validate advanced params
+export function validateAdvancedParams(params: AdvancedSimulationParams): AdvancedValidationError[] {
+  const errors: AdvancedValidationError[] = [];
+
+  if (params.nftSupply <= 0) {
+    errors.push({ field: 'nftSupply', message: 'NFT supply must be greater than 0' });
+  }
+
+  if (usesMarketCap(params)) {
+    validateRangeSet(errors, params.marketCapRanges ?? [], 'marketCapRanges', 'Market Cap', 'currency');
+    validateRangeSet(errors, params.floatRanges ?? [], 'floatRanges', 'Float%', 'percent');
+  } else {
+    validateRangeSet(errors, params.fdvRanges, 'fdvRanges', 'FDV', 'currency');
+  }
+  validateRangeSet(errors, params.dropRanges, 'dropRanges', 'Drop%', 'percent');
+  if (params.holderShareRanges) {
+    validateRangeSet(errors, params.holderShareRanges, 'holderShareRanges', 'Holder Share%', 'percent');
   }
 
   if (params.numSimulations < 1000) {
     errors.push({ field: 'numSimulations', message: 'Simulations must be at least 1,000' });
   }
 
-  return errors;
-}
+  if (params.seed !== undefined && !isValidSeed(params.seed)) {
+    errors.push({ field: 'seed', message: 'Seed must be a whole number between 0 and 4,294,967,295' });
+  }
+  if (params.targetPrecision !== undefined && !isValidTargetPrecision(params.targetPrecision)) {
+    errors.push({ field: 'targetPrecision', message: `Target precision must be between 0 and ${MAX_TARGET_PRECISION}%` });
+  }
+  const samplingError = validateSampling(params.sampling, params.targetPrecision);
+  if (samplingError) {
+    errors.push({ field: 'sampling', message: samplingError });
+  }
 
-// ========== SAMPLING FUNCTIONS ==========
+  if (params.correlation) {
+    const { copula, rankCorrelation } = params.correlation;
+    if (!COPULA_FAMILIES.includes(copula)) {
+      errors.push({ field: 'correlation', message: 'Unknown copula family' });
+    }
+    if (!Number.isFinite(rankCorrelation) || Math.abs(rankCorrelation) > MAX_RANK_CORRELATION) {
+      errors.push({ field: 'correlation', message: `Rank correlation must be between -${MAX_RANK_CORRELATION} and ${MAX_RANK_CORRELATION}` });
+    }
+  }
 
-// Uniform sampling
-function sampleUniform(min: number, max: number, u: number): number {
-  return min + u * (max - min);
-}
-
-// Linear decreasing: highest probability at MIN, decreases toward MAX
-// PDF ∝ (max - x)
-// CDF: F(x) = 1 - ((max - x) / (max - min))^2
-// Inverse CDF: x = max - sqrt((max - min)^2 * (1 - u))
-function sampleLinearDecreasing(min: number, max: number, u: number): number {
-  const range = max - min;
-  return max - Math.sqrt(range * range * (1 - u));
-}
-
-// Linear increasing: lowest probability at MIN, increases toward MAX
-// PDF ∝ (x - min)
-// CDF: F(x) = ((x - min) / (max - min))^2
-// Inverse CDF: x = min + range * sqrt(u)
-function sampleLinearIncreasing(min: number, max: number, u: number): number {
-  const range = max - min;
-  return min + range * Math.sqrt(u);
-}
-
-// Box-Muller transform for normal distribution
-function boxMuller(u1: number, u2: number): number {
-  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
-}
-
-// Truncated normal (prediction-centric / bell curve)
-// Uses rejection sampling with Box-Muller
-function sampleTruncatedNormal(
-  min: number,
-  max: number,
-  expectedMin: number,
-  expectedMax: number,
-  rng: SeededRandom
-): number {
-  const mean = (expectedMin + expectedMax) / 2;
-  // Set std so ~70% falls within expected range
-  // For normal: P(μ - σ < X < μ + σ) ≈ 68%
-  const halfRange = (expectedMax - expectedMin) / 2;
-  const std = halfRange > 0 ? halfRange : (max - min) / 4;
-  
-  // Rejection sampling (max 100 attempts)
-  for (let i = 0; i < 100; i++) {
-    const u1 = rng.next();
-    const u2 = rng.next();
-    const z = boxMuller(u1, u2);
-    const sample = mean + z * std;
-    if (sample >= min && sample <= max) {
-      return sample;
+  if (params.vesting) {
+    for (const message of validateVesting(params.vesting)) {
+      errors.push({ field: 'vesting', message });
     }
   }
-  
-  // Fallback to mean if rejection fails
-  return Math.max(min, Math.min(max, mean));
-}
 
-// Sample from a single custom range
-function sampleFromRange(range: CustomRange, rng: SeededRandom, scale: number = 1): number {
-  const min = range.min * scale;
-  const max = range.max * scale;
-  const u = rng.next();
-  
-  switch (range.distributionType) {
-    case 'uniform':
-      return sampleUniform(min, max, u);
-    case 'linearDecreasing':
-      return sampleLinearDecreasing(min, max, u);
-    case 'linearIncreasing':
-      return sampleLinearIncreasing(min, max, u);
-    case 'predictionCentric': {
-      const expectedMin = (range.expectedMin ?? range.min) * scale;
-      const expectedMax = (range.expectedMax ?? range.max) * scale;
-      return sampleTruncatedNormal(min, max, expectedMin, expectedMax, rng);
+  if (params.rarityTiers) {
+    for (const message of validateRarityTiers(params.rarityTiers, params.nftSupply)) {
+      errors.push({ field: 'rarityTiers', message });
     }
-    default:
-      return sampleUniform(min, max, u);
   }
+
+  return errors;
 }
 
+// ========== SAMPLING FUNCTIONS ==========
+// Each shape's sampler lives in distributions.ts; these pick the range by weight
+
 // Calculate normalized weights from user-defined weights
 function calculateRangeWeights(ranges: CustomRange[]): number[] {
   const weights = ranges.map(r => Math.max(0, r.weight));
@@ -238,175 +292,268 @@ function selectRangeIndex(cumulativeWeights: number[], u: number): number {
 }
 
 // Sample from multiple ranges (combined distribution)
-function sampleFromRanges(
-  ranges: CustomRange[],
-  cumulativeWeights: number[],
-  rng: SeededRandom,
-  scale: number = 1
-): number {
+function sampleFromRanges(ranges: CustomRange[], cumulativeWeights: number[], rng: RandomSource): number {
   const u = rng.next();
   const rangeIndex = selectRangeIndex(cumulativeWeights, u);
-  return sampleFromRange(ranges[rangeIndex], rng, scale);
+  return sampleRange(ranges[rangeIndex], rng);
 }
 
-// Percentile from sorted array
-function percentile(sorted: Float64Array, p: number): number {
-  const n = sorted.length;
-  const rank = (p / 100) * (n - 1);
-  const lower = Math.floor(rank);
-  const upper = Math.ceil(rank);
-  const weight = rank - lower;
-  if (upper >= n) return sorted[n - 1];
-  return sorted[lower] * (1 - weight) + sorted[upper] * weight;
+// ========== QUANTILE FUNCTIONS (for correlated sampling) ==========
+
+// Grid cells across the combined span of all ranges, laid out twice: evenly, and evenly in log
+// space down to QUANTILE_LOG_FLOOR × the top of the span. Range endpoints and resampled values
+// are added on top.
+const QUANTILE_GRID = 2048;
+const QUANTILE_LOG_FLOOR = 1e-6;
+
+// P(value ≤ x) for a weighted set of ranges, in range units
+export function rangesCdf(ranges: CustomRange[], x: number): number {
+  const weights = calculateRangeWeights(ranges);
+  return ranges.reduce((sum, range, i) => sum + weights[i] * rangeCdf(range, x), 0);
 }
 
-// Histogram with log-scale bins
-function createHistogram(values: Float64Array, numBins: number = 40) {
-  const sorted = new Float64Array(values).sort();
-  const minVal = Math.max(sorted[0], 0.01);
-  const maxVal = sorted[sorted.length - 1];
-  
-  const logMin = Math.log10(minVal);
-  const logMax = Math.log10(maxVal);
-  const binWidth = (logMax - logMin) / numBins;
-  
-  const bins: { binStart: number; binEnd: number; count: number; density: number }[] = [];
-  for (let i = 0; i < numBins; i++) {
-    const binStart = Math.pow(10, logMin + i * binWidth);
-    const binEnd = Math.pow(10, logMin + (i + 1) * binWidth);
-    bins.push({ binStart, binEnd, count: 0, density: 0 });
-  }
-  
-  for (let i = 0; i < values.length; i++) {
-    const val = values[i];
-    if (val < minVal) continue;
-    const logVal = Math.log10(val);
-    const binIndex = Math.min(Math.floor((logVal - logMin) / binWidth), numBins - 1);
-    bins[binIndex].count++;
-  }
-  
-  const total = values.length;
-  for (const bin of bins) {
-    bin.density = bin.count / total;
-  }
-  
-  return bins;
+// Resampled reference values are point masses: weight of each value across the mixture
+function pointMasses(ranges: CustomRange[], weights: number[]): Map<number, number> {
+  const masses = new Map<number, number>();
+  ranges.forEach((range, i) => {
+    if (range.distributionType !== 'empirical' || range.bandwidth > 0 || !range.samples) return;
+    for (const v of range.samples) masses.set(v, (masses.get(v) ?? 0) + weights[i] / range.samples.length);
+  });
+  return masses;
 }
 
-// Binary search for threshold probabilities
-function calcThresholdProbs(sorted: Float64Array, thresholds: number[]): Record<number, number> {
-  const result: Record<number, number> = {};
-  const n = sorted.length;
-  
-  for (const threshold of thresholds) {
+// Quantile function of the weighted mixture of ranges: the mixture CDF is tabulated on a grid
+// that is fine in both linear and log terms, so log-scale shapes spanning several decades keep
+// their tails, and inverted by linear interpolation (relative error ~1e-5, far below Monte Carlo
+// noise). A target that falls in the jump at a resampled value returns that value exactly.
+function createMixtureQuantile(ranges: CustomRange[], weights: number[]): Quantile {
+  const lo = Math.min(...ranges.map(r => r.min));
+  const hi = Math.max(...ranges.map(r => r.max));
+  const masses = pointMasses(ranges, weights);
+  const points: number[] = [...ranges.flatMap(r => [r.min, r.max]), ...masses.keys()];
+  const logLo = Math.log(Math.max(lo, hi * QUANTILE_LOG_FLOOR));
+  const logHi = Math.log(hi);
+  for (let i = 0; i <= QUANTILE_GRID; i++) {
+    points.push(lo + ((hi - lo) * i) / QUANTILE_GRID);
+    if (hi > 0) points.push(Math.exp(logLo + ((logHi - logLo) * i) / QUANTILE_GRID));
+  }
+  const xs = Array.from(new Set(points.filter(x => x >= lo && x <= hi))).sort((a, b) => a - b);
+
+  const cdf = xs.map(x => ranges.reduce((sum, range, i) => sum + weights[i] * rangeCdf(range, x), 0));
+  const total = cdf[cdf.length - 1];
+
+  return (u) => {
+    const target = u * total;
+    // First grid point whose CDF reaches the target
     let left = 0;
-    let right = n;
+    let right = xs.length - 1;
     while (left < right) {
       const mid = (left + right) >>> 1;
-      if (sorted[mid] < threshold) {
+      if (cdf[mid] < target) {
         left = mid + 1;
       } else {
         right = mid;
       }
     }
-    result[threshold] = (n - left) / n;
+    if (left === 0) return xs[0];
+    const f0 = cdf[left - 1];
+    // CDF just below xs[left]; the rest of the step up to cdf[left] is a point mass there
+    const f1 = cdf[left] - (masses.get(xs[left]) ?? 0);
+    if (target >= f1 || f1 <= f0) return xs[left];
+    return xs[left - 1] + ((xs[left] - xs[left - 1]) * (target - f0)) / (f1 - f0);
+  };
+}
+
+// Whether the params ask for dependent sampling (τ = 0 keeps the independent model exactly)
+function hasCorrelation(params: AdvancedSimulationParams): boolean {
+  return !!params.correlation && params.correlation.rankCorrelation !== 0;
+}
+
+// FDV in millions from the copula uniform. In the market-cap-first model the copula drives
+// market cap and the float is drawn independently.
+function createConditionalFDV(params: AdvancedSimulationParams): ConditionalSampler {
+  if (!usesMarketCap(params)) {
+    return createMixtureQuantile(params.fdvRanges, calculateRangeWeights(params.fdvRanges));
   }
-  
-  return result;
+  const marketCapQuantile = createMixtureQuantile(params.marketCapRanges, calculateRangeWeights(params.marketCapRanges));
+  const floatCumulative = getCumulativeWeights(calculateRangeWeights(params.floatRanges));
+  return (u, rng) => marketCapQuantile(u) / (sampleFromRanges(params.floatRanges, floatCumulative, rng) / 100);
 }
 
-// Main advanced simulation
-export function runAdvancedSimulation(
-  params: AdvancedSimulationParams,
-  thresholds: number[] = [60, 120, 300]
-) {
-  const startTime = performance.now();
-  
+function createDependence(params: AdvancedSimulationParams): EngineDependence {
+  const sampleFDV = createConditionalFDV(params);
+  const dropQuantile = createMixtureQuantile(params.dropRanges, calculateRangeWeights(params.dropRanges));
+  return {
+    copula: createCopulaSampler(params.correlation.copula, params.correlation.rankCorrelation),
+    sampleFDV: (u, rng) => sampleFDV(u, rng) * 1_000_000,
+    sampleDrop: (u) => dropQuantile(u) / 100
+  };
+}
+
+export interface FdvDropSample {
+  fdvM: number;     // FDV in millions
+  dropPct: number;  // Drop% as a percentage
+}
+
+// Joint (FDV, Drop%) draws for previewing the dependence structure
+export function sampleFdvDropPairs(params: AdvancedSimulationParams, count: number, seed: number): FdvDropSample[] {
+  const sampleFDV = createConditionalFDV(params);
+  const dropQuantile = createMixtureQuantile(params.dropRanges, calculateRangeWeights(params.dropRanges));
+  const copula = createCopulaSampler(params.correlation?.copula ?? 'gaussian', params.correlation?.rankCorrelation ?? 0);
+  const rng = new Xoshiro128(seed);
+  const pair: UniformPair = { u: 0, v: 0 };
+
+  const samples: FdvDropSample[] = [];
+  for (let i = 0; i < count; i++) {
+    copula(rng, pair);
+    samples.push({ fdvM: sampleFDV(pair.u, rng), dropPct: dropQuantile(pair.v) });
+  }
+  return samples;
+}
+
+// FDV sampler in millions: direct FDV ranges, or market cap divided by circulating float
+function createFDVSampler(params: AdvancedSimulationParams): Sampler {
+  if (!usesMarketCap(params)) {
+    const fdvCumulative = getCumulativeWeights(calculateRangeWeights(params.fdvRanges));
+    return (rng) => sampleFromRanges(params.fdvRanges, fdvCumulative, rng);
+  }
+  const marketCapCumulative = getCumulativeWeights(calculateRangeWeights(params.marketCapRanges));
+  const floatCumulative = getCumulativeWeights(calculateRangeWeights(params.floatRanges));
+  return (rng) => {
+    const marketCap = sampleFromRanges(params.marketCapRanges, marketCapCumulative, rng);
+    const floatFraction = sampleFromRanges(params.floatRanges, floatCumulative, rng) / 100;
+    return marketCap / floatFraction;
+  };
+}
+
+// Smallest and largest reachable FDV in millions
+function getFDVBounds(params: AdvancedSimulationParams): [number, number] {
+  if (!usesMarketCap(params)) {
+    return [Math.min(...params.fdvRanges.map(r => r.min)), Math.max(...params.fdvRanges.map(r => r.max))];
+  }
+  const minMarketCap = Math.min(...params.marketCapRanges.map(r => r.min));
+  const maxMarketCap = Math.max(...params.marketCapRanges.map(r => r.max));
+  const minFloat = Math.min(...params.floatRanges.map(r => r.min)) / 100;
+  const maxFloat = Math.max(...params.floatRanges.map(r => r.max)) / 100;
+  return [minMarketCap / maxFloat, maxMarketCap / minFloat];
+}
+
+// Exact factor for a set of ranges; `unit` converts range units to engine units
+// (1,000,000 for millions, 0.01 for percentages)
+function createRangesFactor(ranges: CustomRange[], unit: number, inverse: boolean = false): ExactFactor {
+  const weights = calculateRangeWeights(ranges);
+  return {
+    min: Math.min(...ranges.map(r => r.min)) * unit,
+    max: Math.max(...ranges.map(r => r.max)) * unit,
+    cdf: (x) => ranges.reduce((sum, range, i) => sum + weights[i] * rangeCdf(range, x / unit), 0),
+    inverse
+  };
+}
+
+// Independent factors for the exact computation; none with a copula, whose joint
+// distribution is not a product of the marginals
+function createExactFactors(params: AdvancedSimulationParams): ExactFactor[] | undefined {
+  if (hasCorrelation(params)) return undefined;
+  const fdv = usesMarketCap(params)
+    ? [createRangesFactor(params.marketCapRanges, 1_000_000), createRangesFactor(params.floatRanges, 0.01, true)]
+    : [createRangesFactor(params.fdvRanges, 1_000_000)];
+  const holderShare = params.holderShareRanges ? [createRangesFactor(params.holderShareRanges, 0.01)] : [];
+  return [...fdv, createRangesFactor(params.dropRanges, 0.01), ...holderShare];
+}
+
+// Engine model for Advanced params (also used by the sensitivity analysis)
+export function createAdvancedModel(params: AdvancedSimulationParams): EngineModel {
   // Calculate weights for each set of ranges
-  const fdvWeights = calculateRangeWeights(params.fdvRanges);
   const dropWeights = calculateRangeWeights(params.dropRanges);
-  const fdvCumulative = getCumulativeWeights(fdvWeights);
   const dropCumulative = getCumulativeWeights(dropWeights);
-  
-  // Initialize RNG
-  const seed = params.seed ?? Math.floor(Math.random() * 2147483647);
-  const rng = new SeededRandom(seed);
-  
-  // Allocate results array
-  const values = new Float64Array(params.numSimulations);
-  
-  // Run simulation
-  for (let i = 0; i < params.numSimulations; i++) {
-    // Sample FDV (in millions, then convert to dollars)
-    const fdvM = sampleFromRanges(params.fdvRanges, fdvCumulative, rng, 1);
-    const fdv = fdvM * 1_000_000;
-    
-    // Sample Drop% (percentage, then convert to decimal)
-    const dropPct = sampleFromRanges(params.dropRanges, dropCumulative, rng, 1);
-    const dropDecimal = dropPct / 100;
-    
-    // Core formula: value_per_nft = (FDV × Drop%) / NFT_Supply
-    values[i] = (fdv * dropDecimal) / params.nftSupply;
-  }
-  
-  // Sort for statistics
-  const sorted = new Float64Array(values).sort();
-  
-  // Calculate stats
-  let sum = 0;
-  for (let i = 0; i < values.length; i++) sum += values[i];
-  const mean = sum / values.length;
-  
-  const stats = {
-    mean,
-    median: percentile(sorted, 50),
-    p5: percentile(sorted, 5),
-    p10: percentile(sorted, 10),
-    p25: percentile(sorted, 25),
-    p75: percentile(sorted, 75),
-    p90: percentile(sorted, 90),
-    p95: percentile(sorted, 95),
-    min: sorted[0],
-    max: sorted[sorted.length - 1]
-  };
-  
-  // Histogram
-  const histogram = createHistogram(values);
-  
-  // Thresholds
-  const thresholdProbs = calcThresholdProbs(sorted, thresholds);
+  const sampleFDV = createFDVSampler(params);
   
   // Calculate worst/best case from all ranges
-  const fdvMins = params.fdvRanges.map(r => r.min);
-  const fdvMaxs = params.fdvRanges.map(r => r.max);
+  const [worstFdvM, bestFdvM] = getFDVBounds(params);
   const dropMins = params.dropRanges.map(r => r.min);
   const dropMaxs = params.dropRanges.map(r => r.max);
   
-  const worstFdv = Math.min(...fdvMins) * 1_000_000;
-  const bestFdv = Math.max(...fdvMaxs) * 1_000_000;
+  const worstFdv = worstFdvM * 1_000_000;
+  const bestFdv = bestFdvM * 1_000_000;
   const worstDrop = Math.min(...dropMins) / 100;
   const bestDrop = Math.max(...dropMaxs) / 100;
-  
-  const worstCase = (worstFdv * worstDrop) / params.nftSupply;
-  const bestCase = (bestFdv * bestDrop) / params.nftSupply;
-  
-  const executionTimeMs = performance.now() - startTime;
+  const { holderShareRanges } = params;
+  const holderShareCumulative = holderShareRanges && getCumulativeWeights(calculateRangeWeights(holderShareRanges));
+  const worstShare = holderShareRanges ? Math.min(...holderShareRanges.map(r => r.min)) / 100 : 1;
+  const bestShare = holderShareRanges ? Math.max(...holderShareRanges.map(r => r.max)) / 100 : 1;
   
   return {
-    stats,
-    histogram,
-    thresholdProbs,
-    worstCase,
-    bestCase,
-    executionTimeMs
+    nftSupply: params.nftSupply,
+    numSimulations: params.numSimulations,
+    seed: params.seed,
+    // FDV is in millions, convert to dollars
+    sampleFDV: (rng) => sampleFDV(rng) * 1_000_000,
+    // Drop% ranges are percentages, convert to decimal
+    sampleDrop: (rng) => sampleFromRanges(params.dropRanges, dropCumulative, rng) / 100,
+    // Holder share ranges are percentages, convert to decimal
+    sampleHolderShare: holderShareRanges
+      ? (rng) => sampleFromRanges(holderShareRanges, holderShareCumulative, rng) / 100
+      : undefined,
+    dependence: hasCorrelation(params) ? createDependence(params) : undefined,
+    realize: params.vesting ? createVestingRealizer(params.vesting) : undefined,
+    allocations: params.rarityTiers ? createAllocationOutputs(params.rarityTiers, params.nftSupply) : undefined,
+    worstCase: (worstFdv * worstDrop * worstShare) / params.nftSupply,
+    bestCase: (bestFdv * bestDrop * bestShare) / params.nftSupply,
+    targetPrecision: params.targetPrecision === undefined ? undefined : params.targetPrecision / 100,
+    sampling: params.sampling,
+    exactFactors: createExactFactors(params)
   };
 }
 
+// Main advanced simulation
+export function runAdvancedSimulation(
+  params: AdvancedSimulationParams,
+  thresholds: number[] = [60, 120, 300],
+  options?: SimulationRunOptions
+): SimulationResults {
+  return runEngine(createAdvancedModel(params), thresholds, options);
+}
+
 // Generate unique ID for ranges
 export function generateRangeId(): string {
   return Math.random().toString(36).substr(2, 9);
 }
 
+// Switch a range to another shape: drops the old shape's parameters and seeds the new ones from the range
+export function withDistributionType(range: CustomRange, distributionType: DistributionType): CustomRange {
+  const { expectedMin, expectedMax, mode, plateauMin, plateauMax, median, sigma, halfLife, samples, bandwidth, ...base } = range;
+  const { min, max } = range;
+  const width = max - min;
+  const updated: CustomRange = { ...base, distributionType };
+  switch (distributionType) {
+    case 'predictionCentric':
+      updated.expectedMin = min + width * 0.3;
+      updated.expectedMax = min + width * 0.7;
+      break;
+    case 'triangular':
+    case 'pert':
+      updated.mode = min + width * 0.3;
+      break;
+    case 'trapezoid':
+      updated.plateauMin = min + width * 0.25;
+      updated.plateauMax = min + width * 0.5;
+      break;
+    case 'lognormal':
+      updated.median = min > 0 ? Math.sqrt(min * max) : min + width * 0.3;
+      updated.sigma = 0.5;
+      break;
+    case 'truncatedExponential':
+      updated.halfLife = width / 4;
+      break;
+    case 'empirical':
+      // Only a reference class supplies values; keep any the range already had
+      updated.samples = samples;
+      updated.bandwidth = bandwidth ?? 0;
+      break;
+  }
+  return updated;
+}
+
 // Default advanced params
 export const DEFAULT_ADVANCED_PARAMS: AdvancedSimulationParams = {
   nftSupply: 8888,
@@ -431,6 +578,18 @@ export const DEFAULT_ADVANCED_PARAMS: AdvancedSimulationParams = {
   numSimulations: 200000
 };
 
+// Starting ranges when switching to the market-cap-first model: a $5M–$30M launch cap with 10–20% float
+export function createDefaultMarketCapRanges(): Pick<AdvancedSimulationParams, 'marketCapRanges' | 'floatRanges'> {
+  return {
+    marketCapRanges: [{ id: generateRangeId(), min: 5, max: 30, distributionType: 'uniform', weight: 100 }],
+    floatRanges: [{ id: generateRangeId(), min: 10, max: 20, distributionType: 'uniform', weight: 100 }]
+  };
+}
+
+export function createDefaultHolderShareRanges(): CustomRange[] {
+  return [{ id: generateRangeId(), min: 40, max: 80, distributionType: 'uniform', weight: 100 }];
+}
+
 // Compute total weight for a set of ranges
 export function computeTotalWeight(ranges: CustomRange[]): number {
   return ranges.reduce((sum, r) => sum + Math.max(0, r.weight), 0);
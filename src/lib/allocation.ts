@@ -0,0 +1,81 @@
+// Non-uniform allocation across NFTs (rarity tiers) and the value of a specific holding
+//
+// The airdrop pool (FDV × Drop%) is split by weight: an NFT of tier i receives
+//   pool × multiplier_i / Σ_j (count_j × multiplier_j)
+// which is the even-split value per NFT times the tier factor
+//   k_i = multiplier_i × nftSupply / Σ_j (count_j × multiplier_j)
+// A holding of h_i NFTs per tier is worth the even-split value times Σ_i h_i × k_i.
+// Because every output is a fixed multiple of the even-split value, the engine derives
+// them from the same samples without re-simulating.
+
+export interface RarityTier {
+  name: string;
+  count: number;       // NFTs in this tier
+  multiplier: number;  // Allocation weight relative to other tiers (e.g. 1 common, 5 legendary)
+  held: number;        // NFTs of this tier in the user's holding
+}
+
+// A named output that is a fixed multiple of the even-split value per NFT
+export interface AllocationOutput {
+  name: string;
+  factor: number;
+}
+
+export const HOLDING_OUTPUT_NAME = 'Your holding';
+
+export function createDefaultTiers(nftSupply: number): RarityTier[] {
+  const rare = Math.floor(nftSupply * 0.18);
+  const legendary = Math.floor(nftSupply * 0.02);
+  return [
+    { name: 'Common', count: nftSupply - rare - legendary, multiplier: 1, held: 1 },
+    { name: 'Rare', count: rare, multiplier: 2, held: 0 },
+    { name: 'Legendary', count: legendary, multiplier: 5, held: 0 }
+  ];
+}
+
+export function validateRarityTiers(tiers: RarityTier[], nftSupply: number): string[] {
+  const errors: string[] = [];
+  if (tiers.length === 0) {
+    errors.push('At least one tier is required');
+    return errors;
+  }
+
+  const names = tiers.map(t => t.name.trim());
+  if (names.some(name => name === '')) {
+    errors.push('Every tier needs a name');
+  } else if (new Set(names).size !== names.length) {
+    errors.push('Tier names must be unique');
+  }
+  // The holding is reported next to the tiers under this name
+  if (names.includes(HOLDING_OUTPUT_NAME)) {
+    errors.push(`"${HOLDING_OUTPUT_NAME}" is reserved for your holding; rename that tier`);
+  }
+  if (tiers.some(t => !Number.isInteger(t.count) || t.count <= 0)) {
+    errors.push('Tier counts must be whole numbers greater than 0');
+  }
+  if (tiers.some(t => !Number.isFinite(t.multiplier) || t.multiplier <= 0)) {
+    errors.push('Multipliers must be greater than 0');
+  }
+  if (tiers.some(t => !Number.isInteger(t.held) || t.held < 0 || t.held > t.count)) {
+    errors.push('Held NFTs must be whole numbers no larger than the tier count');
+  }
+
+  const total = tiers.reduce((sum, t) => sum + t.count, 0);
+  if (total !== nftSupply) {
+    errors.push(`Tier counts add up to ${total.toLocaleString()} but NFT supply is ${nftSupply.toLocaleString()}`);
+  }
+  return errors;
+}
+
+// One output per tier, plus the holding when it is not empty
+export function createAllocationOutputs(tiers: RarityTier[], nftSupply: number): AllocationOutput[] {
+  const totalWeight = tiers.reduce((sum, t) => sum + t.count * t.multiplier, 0);
+  const outputs = tiers.map(t => ({ name: t.name, factor: (t.multiplier * nftSupply) / totalWeight }));
+
+  const heldCount = tiers.reduce((sum, t) => sum + t.held, 0);
+  if (heldCount > 0) {
+    const factor = tiers.reduce((sum, t, i) => sum + t.held * outputs[i].factor, 0);
+    outputs.push({ name: HOLDING_OUTPUT_NAME, factor });
+  }
+  return outputs;
+}
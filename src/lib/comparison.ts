@@ -0,0 +1,56 @@
+// Helpers for comparing the results of several saved runs side by side
+
+import { HistogramBin, SimulationResults, SimulationStats } from './engine-core';
+
+export const MIN_COMPARED = 2;
+export const MAX_COMPARED = 5;
+
+export const COMPARED_STATS: { key: keyof SimulationStats; label: string }[] = [
+  { key: 'p5', label: 'P5' },
+  { key: 'p10', label: 'P10' },
+  { key: 'p25', label: 'P25' },
+  { key: 'median', label: 'Median' },
+  { key: 'p75', label: 'P75' },
+  { key: 'p90', label: 'P90' },
+  { key: 'p95', label: 'P95' },
+  { key: 'mean', label: 'Mean' }
+];
+
+export interface ThresholdComparison {
+  threshold: number;
+  // P(value ≥ threshold) per run, null when that run did not evaluate the threshold
+  probs: (number | null)[];
+  // Index of the run with the highest probability, null on ties or missing data
+  dominant: number | null;
+}
+
+// Compare exceedance probabilities on every threshold any of the runs evaluated
+export function compareThresholds(runs: SimulationResults[]): ThresholdComparison[] {
+  const thresholds = new Set<number>();
+  for (const run of runs) {
+    for (const key of Object.keys(run.thresholdProbs)) thresholds.add(Number(key));
+  }
+
+  return [...thresholds].sort((a, b) => a - b).map(threshold => {
+    const probs = runs.map(run => run.thresholdProbs[threshold] ?? null);
+    const known = probs.filter((p): p is number => p !== null);
+    const best = Math.max(...known);
+    const leaders = probs.filter(p => p === best).length;
+    const dominant = known.length >= 2 && leaders === 1 ? probs.indexOf(best) : null;
+    return { threshold, probs, dominant };
+  });
+}
+
+// Relative difference against the baseline run, e.g. 0.25 = 25% higher
+export function relativeDiff(value: number, baseline: number): number | null {
+  if (baseline === 0) return null;
+  return (value - baseline) / baseline;
+}
+
+// Histogram bins as probability per decade, so runs with different log bins overlay on one axis
+export function densityPerDecade(histogram: HistogramBin[]): { x: number; y: number }[] {
+  return histogram.map(bin => ({
+    x: Math.sqrt(bin.binStart * bin.binEnd),
+    y: bin.density / Math.log10(bin.binEnd / bin.binStart)
+  }));
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { CustomRange, DEFAULT_ADVANCED_PARAMS, sampleFdvDropPairs } from './advanced-monte-carlo';
+import { COPULA_FAMILIES, UniformPair, createCopulaSampler } from './copula';
+import { cdfGap, cdfGapLimit, rangeCdf } from './distributions';
+import { Xoshiro128 } from './prng';
+
+const PAIRS = 3000;
+
+// Sample Kendall's τ, O(n²)
+function kendallTau(u: Float64Array, v: Float64Array): number {
+  let concordance = 0;
+  for (let i = 0; i < u.length; i++) {
+    for (let j = i + 1; j < u.length; j++) concordance += Math.sign((u[i] - u[j]) * (v[i] - v[j]));
+  }
+  return (2 * concordance) / (u.length * (u.length - 1));
+}
+
+function draw(family: (typeof COPULA_FAMILIES)[number], tau: number): [Float64Array, Float64Array] {
+  const sampler = createCopulaSampler(family, tau);
+  const rng = new Xoshiro128(11);
+  const out: UniformPair = { u: 0, v: 0 };
+  const u = new Float64Array(PAIRS);
+  const v = new Float64Array(PAIRS);
+  for (let i = 0; i < PAIRS; i++) {
+    sampler(rng, out);
+    u[i] = out.u;
+    v[i] = out.v;
+  }
+  return [u, v];
+}
+
+const mean = (values: Float64Array) => values.reduce((a, b) => a + b, 0) / values.length;
+
+describe.each(COPULA_FAMILIES)('%s copula', (family) => {
+  it.each([-0.5, 0, 0.3, 0.7])('reaches Kendall τ = %s with uniform margins', (tau) => {
+    const [u, v] = draw(family, tau);
+    // The standard error of sample τ is below 0.015 at this size
+    expect(kendallTau(u, v)).toBeCloseTo(tau, 1);
+    expect(mean(u)).toBeCloseTo(0.5, 1);
+    expect(mean(v)).toBeCloseTo(0.5, 1);
+    expect(u.every(x => x > 0 && x <= 1) && v.every(x => x >= 0 && x <= 1)).toBe(true);
+  });
+});
+
+describe('correlated FDV margin', () => {
+  const DRAWS = 20000;
+
+  function fdvDraws(fdvRanges: CustomRange[]): number[] {
+    const params = { ...DEFAULT_ADVANCED_PARAMS, fdvRanges, correlation: { copula: 'gaussian' as const, rankCorrelation: 0.4 } };
+    return sampleFdvDropPairs(params, DRAWS, 13).map(s => s.fdvM);
+  }
+
+  it.each<[string, CustomRange]>([
+    ['log-uniform over four decades', { id: 'a', min: 1, max: 10000, distributionType: 'logUniform', weight: 1 }],
+    ['lognormal from zero', { id: 'b', min: 0, max: 10000, distributionType: 'lognormal', median: 90, sigma: 1, weight: 1 }]
+  ])('keeps a %s range', (_name, range) => {
+    const draws = fdvDraws([range]);
+    expect(cdfGap(range, draws)).toBeLessThan(cdfGapLimit(DRAWS));
+    const sorted = [...draws].sort((a, b) => a - b);
+    // The tails are where a coarse linear table went wrong
+    const p5 = sorted[Math.floor(0.05 * DRAWS)];
+    expect(rangeCdf(range, p5)).toBeCloseTo(0.05, 2);
+  });
+
+  it('only draws observed values from a resampled range', () => {
+    const range: CustomRange = { id: 'e', min: 10, max: 500, distributionType: 'empirical', samples: [12, 40, 40, 300], bandwidth: 0, weight: 1 };
+    const draws = fdvDraws([range]);
+    expect(new Set(draws)).toEqual(new Set([12, 40, 300]));
+    expect(cdfGap(range, draws)).toBeLessThan(cdfGapLimit(DRAWS));
+  });
+});
@@ -0,0 +1,94 @@
+// Copulas for dependence between FDV and Drop%
+//
+// A copula draws a pair of uniforms (u, v) with a chosen dependence; each model variable
+// is then obtained from its own quantile function, so the marginals stay exactly as
+// configured and only the dependence between them changes.
+//
+// Strength is given as a rank correlation (Kendall's τ), which maps to each family's
+// parameter in closed form:
+// - Gaussian: ρ = sin(πτ / 2); symmetric, no tail dependence
+// - Clayton:  θ = 2τ / (1 − τ); dependence concentrated in the lower tail
+// - Gumbel:   θ = 1 / (1 − τ); dependence concentrated in the upper tail
+// Clayton and Gumbel only describe positive dependence, so for τ < 0 the pair is rotated
+// (v → 1 − v), which moves their tail dependence to the low-u / high-v corner.
+
+import { RandomSource } from './prng';
+import { normalCdf } from './stats-math';
+
+export type CopulaFamily = 'gaussian' | 'clayton' | 'gumbel';
+
+export const COPULA_FAMILIES: CopulaFamily[] = ['gaussian', 'clayton', 'gumbel'];
+
+// Largest |τ| accepted; beyond it the Clayton/Gumbel parameters blow up numerically
+export const MAX_RANK_CORRELATION = 0.95;
+
+export interface UniformPair {
+  u: number;
+  v: number;
+}
+
+// Writes one dependent pair of uniforms into `out` (reused to avoid per-sample allocation)
+export type CopulaSampler = (rng: RandomSource, out: UniformPair) => void;
+
+// Uniform in (0, 1], safe for logs and negative powers
+function openUniform(rng: RandomSource): number {
+  return 1 - rng.next();
+}
+
+function independentCopula(rng: RandomSource, out: UniformPair): void {
+  out.u = rng.next();
+  out.v = rng.next();
+}
+
+function gaussianCopula(tau: number): CopulaSampler {
+  const rho = Math.sin((Math.PI * tau) / 2);
+  const residual = Math.sqrt(1 - rho * rho);
+  return (rng, out) => {
+    // Box-Muller pair of independent normals
+    const r = Math.sqrt(-2 * Math.log(openUniform(rng)));
+    const angle = 2 * Math.PI * rng.next();
+    const z1 = r * Math.cos(angle);
+    const z2 = r * Math.sin(angle);
+    out.u = normalCdf(z1);
+    out.v = normalCdf(rho * z1 + residual * z2);
+  };
+}
+
+// Conditional inversion: v = C⁻¹(w | u)
+function claytonCopula(tau: number): CopulaSampler {
+  const theta = (2 * tau) / (1 - tau);
+  return (rng, out) => {
+    const u = openUniform(rng);
+    const w = openUniform(rng);
+    out.u = u;
+    out.v = Math.pow(Math.pow(u, -theta) * (Math.pow(w, -theta / (1 + theta)) - 1) + 1, -1 / theta);
+  };
+}
+
+// Marshall–Olkin: frailty S is positive α-stable (Kanter's representation), α = 1/θ
+function gumbelCopula(tau: number): CopulaSampler {
+  const alpha = 1 - tau;
+  return (rng, out) => {
+    const angle = Math.PI * openUniform(rng);
+    const w = -Math.log(openUniform(rng));
+    const s = (Math.sin(alpha * angle) / Math.pow(Math.sin(angle), 1 / alpha))
+      * Math.pow(Math.sin((1 - alpha) * angle) / w, (1 - alpha) / alpha);
+    const e1 = -Math.log(openUniform(rng));
+    const e2 = -Math.log(openUniform(rng));
+    out.u = Math.exp(-Math.pow(e1 / s, alpha));
+    out.v = Math.exp(-Math.pow(e2 / s, alpha));
+  };
+}
+
+// Sampler for a family at Kendall's τ; τ = 0 is the independence copula for every family
+export function createCopulaSampler(family: CopulaFamily, tau: number): CopulaSampler {
+  if (tau === 0) return independentCopula;
+  if (family === 'gaussian') return gaussianCopula(tau);
+
+  const base = family === 'clayton' ? claytonCopula(Math.abs(tau)) : gumbelCopula(Math.abs(tau));
+  if (tau > 0) return base;
+  return (rng, out) => {
+    base(rng, out);
+    out.v = 1 - out.v;
+  };
+}
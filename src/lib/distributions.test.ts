@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { CustomRange } from './advanced-monte-carlo';
+import { cdfGap, cdfGapLimit, rangeCdf, rangeDensity, sampleRange } from './distributions';
+import { Xoshiro128 } from './prng';
+
+const SHAPES: CustomRange[] = [
+  { id: 'uniform', min: 10, max: 100, distributionType: 'uniform', weight: 1 },
+  { id: 'linearDecreasing', min: 10, max: 100, distributionType: 'linearDecreasing', weight: 1 },
+  { id: 'linearIncreasing', min: 10, max: 100, distributionType: 'linearIncreasing', weight: 1 },
+  { id: 'predictionCentric', min: 10, max: 100, distributionType: 'predictionCentric', expectedMin: 30, expectedMax: 60, weight: 1 },
+  { id: 'logUniform', min: 10, max: 100, distributionType: 'logUniform', weight: 1 },
+  { id: 'lognormal', min: 10, max: 100, distributionType: 'lognormal', median: 40, sigma: 0.6, weight: 1 },
+  { id: 'pert', min: 10, max: 100, distributionType: 'pert', mode: 30, weight: 1 },
+  { id: 'triangular', min: 10, max: 100, distributionType: 'triangular', mode: 70, weight: 1 },
+  { id: 'trapezoid', min: 10, max: 100, distributionType: 'trapezoid', plateauMin: 20, plateauMax: 50, weight: 1 },
+  { id: 'truncatedExponential', min: 10, max: 100, distributionType: 'truncatedExponential', halfLife: 20, weight: 1 },
+  { id: 'empirical (smoothed)', min: 10, max: 100, distributionType: 'empirical', samples: [15, 30, 80], bandwidth: 0.3, weight: 1 }
+];
+
+const STEPS = 20000;
+const DRAWS = 20000;
+
+describe.each(SHAPES.map(range => [range.id, range] as const))('%s', (_name, range) => {
+  it('has a density that integrates to its CDF', () => {
+    const width = (range.max - range.min) / STEPS;
+    let integral = 0;
+    let worst = 0;
+    for (let i = 0; i < STEPS; i++) {
+      integral += rangeDensity(range, range.min + (i + 0.5) * width) * width;
+      worst = Math.max(worst, Math.abs(integral - rangeCdf(range, range.min + (i + 1) * width)));
+    }
+    expect(integral).toBeCloseTo(1, 4);
+    expect(worst).toBeLessThan(1e-4);
+  });
+
+  it('draws samples that follow its CDF', () => {
+    const rng = new Xoshiro128(3);
+    const draws = Array.from({ length: DRAWS }, () => sampleRange(range, rng));
+    expect(draws.every(x => x >= range.min && x <= range.max)).toBe(true);
+    expect(cdfGap(range, draws)).toBeLessThan(cdfGapLimit(DRAWS));
+  });
+});
+
+describe('resampled empirical range', () => {
+  const range: CustomRange = { id: 'e', min: 10, max: 100, distributionType: 'empirical', samples: [15, 30, 30, 80], bandwidth: 0, weight: 1 };
+
+  it('only draws the reference values, in proportion', () => {
+    const rng = new Xoshiro128(5);
+    const draws = Array.from({ length: DRAWS }, () => sampleRange(range, rng));
+    expect(new Set(draws)).toEqual(new Set([15, 30, 80]));
+    expect(cdfGap(range, draws)).toBeLessThan(cdfGapLimit(DRAWS));
+  });
+});
@@ -0,0 +1,341 @@
+// Range shapes: density, CDF and sampler of every distribution type, defined side by side
+//
+// The engine draws with sampleRange, the exact convolution and the correlated quantiles use
+// rangeCdf, and the range preview plots rangeDensity, so all three describe one shape. Everything
+// is in the range's own units (millions of dollars or percent).
+//
+// Draw order: sampleRange always takes one uniform first (used by the inverse-CDF shapes); the
+// rejection and gamma samplers then keep drawing from the same stream. Seeded runs depend on
+// this order, so it must not change.
+
+import type { CustomRange, DistributionType } from './advanced-monte-carlo';
+import { RandomSource } from './prng';
+import { logGamma, normalCdf, normalQuantile, regularizedBeta } from './stats-math';
+
+export interface DistributionDefinition {
+  // Both are only called for min < x < max
+  density: (range: CustomRange, x: number) => number;
+  cdf: (range: CustomRange, x: number) => number;
+  sample: (range: CustomRange, u: number, rng: RandomSource) => number;
+}
+
+// PERT weight on the mode (the classic λ = 4)
+const PERT_LAMBDA = 4;
+
+// Rejection attempts for the prediction-centric bell. Validation keeps the expected range inside
+// [min, max], so at least ~68% of proposals land and running out (≤ 0.32^100) never happens.
+const MAX_REJECTIONS = 100;
+
+// Resampled reference values are point masses with no density; the preview draws them as
+// lognormal spikes of this log-σ
+const POINT_MASS_WIDTH = 0.02;
+
+const SQRT_2PI = Math.sqrt(2 * Math.PI);
+
+// ========== SHARED PIECES ==========
+
+// Box-Muller transform for normal distribution
+function boxMuller(u1: number, u2: number): number {
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+// Prediction-centric bell: normal centred on the expected range with σ = half its width
+// (~68% inside it before truncation), truncated to [min, max]
+function bellShape(range: CustomRange): { mean: number; std: number } {
+  const expectedMin = range.expectedMin ?? range.min;
+  const expectedMax = range.expectedMax ?? range.max;
+  const halfRange = (expectedMax - expectedMin) / 2;
+  return {
+    mean: (expectedMin + expectedMax) / 2,
+    std: halfRange > 0 ? halfRange : (range.max - range.min) / 4
+  };
+}
+
+// Mass of N(mean, std) inside [min, max]
+function normalMass(min: number, max: number, mean: number, std: number): [number, number] {
+  return [normalCdf((min - mean) / std), normalCdf((max - mean) / std)];
+}
+
+// Lognormal (median e^mu, log-σ) truncated to [min, max]
+function lognormalBounds(min: number, max: number, mu: number, sigma: number): [number, number] {
+  return [normalCdf((Math.log(min) - mu) / sigma), normalCdf((Math.log(max) - mu) / sigma)];
+}
+
+function truncatedLognormalDensity(x: number, min: number, max: number, mu: number, sigma: number): number {
+  const [lower, upper] = lognormalBounds(min, max, mu, sigma);
+  const z = (Math.log(x) - mu) / sigma;
+  return Math.exp(-0.5 * z * z) / (x * sigma * SQRT_2PI * (upper - lower));
+}
+
+function truncatedLognormalCdf(x: number, min: number, max: number, mu: number, sigma: number): number {
+  const [lower, upper] = lognormalBounds(min, max, mu, sigma);
+  return (normalCdf((Math.log(x) - mu) / sigma) - lower) / (upper - lower);
+}
+
+// Lognormal with median m and log-σ, truncated to [min, max], by inverse CDF
+function sampleTruncatedLognormal(min: number, max: number, median: number, sigma: number, u: number): number {
+  const mu = Math.log(median);
+  const [lower, upper] = lognormalBounds(min, max, mu, sigma);
+  const x = Math.exp(mu + sigma * normalQuantile(lower + u * (upper - lower)));
+  return Math.min(max, Math.max(min, x));
+}
+
+// Gamma(shape ≥ 1, 1), Marsaglia & Tsang (2000)
+function sampleGamma(shape: number, rng: RandomSource): number {
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let z: number;
+    let v: number;
+    do {
+      z = boxMuller(1 - rng.next(), rng.next());
+      v = 1 + c * z;
+    } while (v <= 0);
+    v = v * v * v;
+    const u = rng.next();
+    if (Math.log(u) < 0.5 * z * z + d - d * v + d * Math.log(v)) return d * v;
+  }
+}
+
+// PERT shape parameters: Beta(α, β) on [min, max] with its mode at `mode`; α, β ≥ 1 always
+function pertShape(range: CustomRange): [number, number] {
+  const { min, max, mode } = range;
+  const width = max - min;
+  return [1 + (PERT_LAMBDA * (mode - min)) / width, 1 + (PERT_LAMBDA * (max - mode)) / width];
+}
+
+// Trapezoid plateau height h = 2 / ((max - min) + (b - a))
+function trapezoidHeight(range: CustomRange): number {
+  return 2 / (range.max - range.min + (range.plateauMax - range.plateauMin));
+}
+
+// Truncated exponential decay rate k = ln 2 / half-life
+function decayRate(range: CustomRange): number {
+  return Math.LN2 / range.halfLife;
+}
+
+// ========== DEFINITIONS ==========
+
+const uniform: DistributionDefinition = {
+  density: ({ min, max }) => 1 / (max - min),
+  cdf: ({ min, max }, x) => (x - min) / (max - min),
+  sample: ({ min, max }, u) => min + u * (max - min)
+};
+
+export const DISTRIBUTIONS: Record<DistributionType, DistributionDefinition> = {
+  uniform,
+
+  // Highest at min: PDF = 2(max - x) / width², CDF = 1 - ((max - x) / width)²
+  linearDecreasing: {
+    density: ({ min, max }, x) => (2 * (max - x)) / ((max - min) * (max - min)),
+    cdf: ({ min, max }, x) => {
+      const t = (x - min) / (max - min);
+      return 1 - (1 - t) * (1 - t);
+    },
+    sample: ({ min, max }, u) => {
+      const range = max - min;
+      return max - Math.sqrt(range * range * (1 - u));
+    }
+  },
+
+  // Highest at max: PDF = 2(x - min) / width², CDF = ((x - min) / width)²
+  linearIncreasing: {
+    density: ({ min, max }, x) => (2 * (x - min)) / ((max - min) * (max - min)),
+    cdf: ({ min, max }, x) => {
+      const t = (x - min) / (max - min);
+      return t * t;
+    },
+    sample: ({ min, max }, u) => min + (max - min) * Math.sqrt(u)
+  },
+
+  // Truncated normal by rejection sampling with Box-Muller
+  predictionCentric: {
+    density: (range, x) => {
+      const { mean, std } = bellShape(range);
+      const [lower, upper] = normalMass(range.min, range.max, mean, std);
+      const z = (x - mean) / std;
+      return Math.exp(-0.5 * z * z) / (std * SQRT_2PI * (upper - lower));
+    },
+    cdf: (range, x) => {
+      const { mean, std } = bellShape(range);
+      const [lower, upper] = normalMass(range.min, range.max, mean, std);
+      return (normalCdf((x - mean) / std) - lower) / (upper - lower);
+    },
+    sample: (range, _u, rng) => {
+      const { min, max } = range;
+      const { mean, std } = bellShape(range);
+      for (let i = 0; i < MAX_REJECTIONS; i++) {
+        const sample = mean + boxMuller(rng.next(), rng.next()) * std;
+        if (sample >= min && sample <= max) return sample;
+      }
+      return Math.max(min, Math.min(max, mean));
+    }
+  },
+
+  // Uniform in ln(x), min > 0: PDF = 1 / (x ln(max / min))
+  logUniform: {
+    density: ({ min, max }, x) => 1 / (x * Math.log(max / min)),
+    cdf: ({ min, max }, x) => Math.log(x / min) / Math.log(max / min),
+    sample: ({ min, max }, u) => min * Math.pow(max / min, u)
+  },
+
+  // Lognormal with the given median and log-σ, truncated to [min, max]
+  lognormal: {
+    density: (range, x) => truncatedLognormalDensity(x, range.min, range.max, Math.log(range.median), range.sigma),
+    cdf: (range, x) => truncatedLognormalCdf(x, range.min, range.max, Math.log(range.median), range.sigma),
+    sample: (range, u) => sampleTruncatedLognormal(range.min, range.max, range.median, range.sigma, u)
+  },
+
+  // Beta(α, β) on [min, max] with α = 1 + 4(mode - min)/width, β = 1 + 4(max - mode)/width;
+  // drawn as G_α / (G_α + G_β)
+  pert: {
+    density: (range, x) => {
+      const [alpha, beta] = pertShape(range);
+      const width = range.max - range.min;
+      const t = (x - range.min) / width;
+      const logBeta = logGamma(alpha) + logGamma(beta) - logGamma(alpha + beta);
+      return Math.exp((alpha - 1) * Math.log(t) + (beta - 1) * Math.log(1 - t) - logBeta) / width;
+    },
+    cdf: (range, x) => {
+      const [alpha, beta] = pertShape(range);
+      return regularizedBeta((x - range.min) / (range.max - range.min), alpha, beta);
+    },
+    sample: (range, _u, rng) => {
+      const [alpha, beta] = pertShape(range);
+      const x = sampleGamma(alpha, rng);
+      const y = sampleGamma(beta, rng);
+      return range.min + (range.max - range.min) * (x / (x + y));
+    }
+  },
+
+  // Peak 2 / width at the mode
+  triangular: {
+    density: ({ min, max, mode }, x) => {
+      if (x < mode) return (2 * (x - min)) / ((max - min) * (mode - min));
+      return mode < max ? (2 * (max - x)) / ((max - min) * (max - mode)) : 0;
+    },
+    cdf: ({ min, max, mode }, x) => {
+      if (x <= mode) return ((x - min) * (x - min)) / ((max - min) * (mode - min));
+      return 1 - ((max - x) * (max - x)) / ((max - min) * (max - mode));
+    },
+    sample: ({ min, max, mode }, u) => {
+      const fc = (mode - min) / (max - min);
+      if (u < fc) return min + Math.sqrt(u * (max - min) * (mode - min));
+      return max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+    }
+  },
+
+  // Rises from min to the plateau [a, b], flat, then falls to max; each piece inverted in closed form
+  trapezoid: {
+    density: (range, x) => {
+      const { min, max, plateauMin: a, plateauMax: b } = range;
+      const h = trapezoidHeight(range);
+      if (x < a) return (h * (x - min)) / (a - min);
+      if (x <= b) return h;
+      return (h * (max - x)) / (max - b);
+    },
+    cdf: (range, x) => {
+      const { min, max, plateauMin: a, plateauMax: b } = range;
+      const h = trapezoidHeight(range);
+      if (x < a) return (h * (x - min) * (x - min)) / (2 * (a - min));
+      if (x <= b) return (h * (a - min)) / 2 + h * (x - a);
+      return 1 - (h * (max - x) * (max - x)) / (2 * (max - b));
+    },
+    sample: (range, u) => {
+      const { min, max, plateauMin: a, plateauMax: b } = range;
+      const h = trapezoidHeight(range);
+      const rise = (h * (a - min)) / 2;
+      const plateau = h * (b - a);
+      if (u < rise) return min + Math.sqrt((2 * u * (a - min)) / h);
+      if (u <= rise + plateau) return a + (u - rise) / h;
+      return max - Math.sqrt((2 * (1 - u) * (max - b)) / h);
+    }
+  },
+
+  // Decays from min: PDF = k exp(-k(x - min)) / (1 - exp(-k width)), k = ln 2 / half-life
+  truncatedExponential: {
+    density: (range, x) => {
+      const k = decayRate(range);
+      return (k * Math.exp(-k * (x - range.min))) / (1 - Math.exp(-k * (range.max - range.min)));
+    },
+    cdf: (range, x) => {
+      const k = decayRate(range);
+      return (1 - Math.exp(-k * (x - range.min))) / (1 - Math.exp(-k * (range.max - range.min)));
+    },
+    sample: (range, u) => {
+      const { min, max } = range;
+      const k = decayRate(range);
+      const x = min - Math.log(1 - u * (1 - Math.exp(-k * (max - min)))) / k;
+      return Math.min(max, x);
+    }
+  },
+
+  // Pick a reference value, then jitter it with a lognormal kernel of log-σ = bandwidth kept in
+  // range (bandwidth 0 resamples the values as-is)
+  empirical: {
+    density: ({ min, max, samples, bandwidth }, x) => {
+      const width = bandwidth > 0 ? bandwidth : POINT_MASS_WIDTH;
+      let sum = 0;
+      for (const v of samples) {
+        if (v > 0) sum += truncatedLognormalDensity(x, min, max, Math.log(v), width);
+      }
+      return sum / samples.length;
+    },
+    cdf: ({ min, max, samples, bandwidth }, x) => {
+      if (!(bandwidth > 0)) return samples.filter(v => v <= x).length / samples.length;
+      let sum = 0;
+      for (const v of samples) sum += truncatedLognormalCdf(x, min, max, Math.log(v), bandwidth);
+      return sum / samples.length;
+    },
+    sample: ({ min, max, samples, bandwidth }, u, rng) => {
+      const value = samples[Math.min(samples.length - 1, Math.floor(u * samples.length))];
+      if (!(bandwidth > 0)) return value;
+      return sampleTruncatedLognormal(min, max, value, bandwidth, rng.next());
+    }
+  }
+};
+
+function definitionOf(range: CustomRange): DistributionDefinition {
+  return DISTRIBUTIONS[range.distributionType] ?? uniform;
+}
+
+// ========== PER-RANGE ENTRY POINTS ==========
+
+// Density of a single range at x (0 outside it, or where the shape is still being edited)
+export function rangeDensity(range: CustomRange, x: number): number {
+  if (!(range.max > range.min) || x < range.min || x > range.max) return 0;
+  const density = definitionOf(range).density(range, x);
+  return Number.isFinite(density) && density > 0 ? density : 0;
+}
+
+// CDF of a single range at x
+export function rangeCdf(range: CustomRange, x: number): number {
+  if (x <= range.min) return 0;
+  if (x >= range.max) return 1;
+  return definitionOf(range).cdf(range, x);
+}
+
+// One draw from a single range
+export function sampleRange(range: CustomRange, rng: RandomSource): number {
+  const u = rng.next();
+  return definitionOf(range).sample(range, u, rng);
+}
+
+// ========== VERIFICATION ==========
+
+// Kolmogorov–Smirnov gap between draws and rangeCdf, taken at each distinct draw
+// (right-continuous, so resampled point masses compare fairly)
+export function cdfGap(range: CustomRange, draws: number[]): number {
+  const sorted = [...draws].sort((a, b) => a - b);
+  let gap = 0;
+  for (let i = 0; i < sorted.length; i++) {
+    if (i + 1 < sorted.length && sorted[i + 1] === sorted[i]) continue;
+    gap = Math.max(gap, Math.abs((i + 1) / sorted.length - rangeCdf(range, sorted[i])));
+  }
+  return gap;
+}
+
+// Gap that n draws stay under 99% of the time when they follow the CDF (asymptotic KS)
+export function cdfGapLimit(n: number): number {
+  return 1.628 / Math.sqrt(n);
+}
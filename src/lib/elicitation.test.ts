@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ADVANCED_PARAMS, validateAdvancedParams } from './advanced-monte-carlo';
+import { DEFAULT_ELICITATION, ELICITATION_METHODS, ElicitationMethod, ElicitationTarget, fitElicitation, validateElicitation } from './elicitation';
+
+const TARGETS: ElicitationTarget[] = ['fdv', 'drop'];
+const METHODS = Object.keys(ELICITATION_METHODS) as ElicitationMethod[];
+
+describe('fitElicitation', () => {
+  it.each(TARGETS.flatMap(target => METHODS.map(method => [target, method] as const)))(
+    '%s %s fit gives ranges the engine accepts',
+    (target, method) => {
+      const fit = fitElicitation(DEFAULT_ELICITATION[target], target, method);
+      const field = target === 'fdv' ? 'fdvRanges' : 'dropRanges';
+      expect(validateAdvancedParams({ ...DEFAULT_ADVANCED_PARAMS, [field]: fit.ranges })).toEqual([]);
+    }
+  );
+
+  it.each(TARGETS)('piecewise %s fit passes through every guess', (target) => {
+    const fit = fitElicitation(DEFAULT_ELICITATION[target], target, 'piecewise');
+    for (const check of fit.checks) expect(check.fitted / check.target).toBeCloseTo(1, 3);
+  });
+
+  it('lognormal fit recovers lognormal guesses', () => {
+    // Median 100, log-σ 0.5: P10 and P90 sit at 100·e^(∓1.2816·0.5)
+    const input = {
+      quantiles: [
+        { probability: 10, value: 52.68 },
+        { probability: 50, value: 100 },
+        { probability: 90, value: 189.8 }
+      ]
+    };
+    expect(validateElicitation(input, 'fdv')).toEqual([]);
+    const [range] = fitElicitation(input, 'fdv', 'lognormal').ranges;
+    expect(range.median).toBeCloseTo(100, 0);
+    expect(range.sigma).toBeCloseTo(0.5, 2);
+  });
+
+  it('rejects guesses that do not increase', () => {
+    const input = { quantiles: [{ probability: 10, value: 50 }, { probability: 90, value: 40 }] };
+    expect(validateElicitation(input, 'fdv')).toContain('Values must increase with the percentile');
+  });
+});
@@ -0,0 +1,231 @@
+// Expert elicitation: turn a few quantile guesses into Advanced ranges
+//
+// The analyst gives two or three quantiles ("P10 = $40M, P50 = $90M, P90 = $250M") and
+// optionally hard bounds. Two fits are offered:
+//   • Lognormal: least-squares line through (Φ⁻¹(p), ln value), i.e. ln value = μ + σ·z,
+//     exact for two quantiles. It becomes one lognormal range, truncated at the bounds.
+//   • Piecewise: log-uniform segments between consecutive quantiles, each weighted by the
+//     probability between them, so the ranges reproduce every quantile exactly.
+// Without a hard bound the range stops where the lognormal fit puts TAIL_PROBABILITY of the
+// mass beyond it. Fitted quantiles are read back from the resulting ranges, truncation included.
+
+import { CustomRange, generateRangeId, rangesCdf } from './advanced-monte-carlo';
+import { normalQuantile } from './stats-math';
+
+export type ElicitationTarget = 'fdv' | 'drop';
+export type ElicitationMethod = 'lognormal' | 'piecewise';
+
+export const ELICITATION_METHODS: Record<ElicitationMethod, { label: string; description: string }> = {
+  lognormal: {
+    label: 'Lognormal',
+    description: 'Smooth right-skewed curve; matches two quantiles exactly, three as closely as it can'
+  },
+  piecewise: {
+    label: 'Piecewise',
+    description: 'Log-uniform ranges between your quantiles; matches every quantile exactly'
+  }
+};
+
+export interface ElicitedQuantile {
+  probability: number;  // Cumulative probability, percentage (e.g. 10 for P10)
+  value: number;        // In range units: $M for FDV, % for Airdrop %
+}
+
+export interface ElicitationInput {
+  quantiles: ElicitedQuantile[];
+  lowerBound?: number;
+  upperBound?: number;
+}
+
+export interface QuantileCheck {
+  probability: number;
+  target: number;
+  fitted: number;
+}
+
+export interface ElicitationFit {
+  method: ElicitationMethod;
+  ranges: CustomRange[];
+  checks: QuantileCheck[];
+  curve: { value: number; prob: number }[];  // Fitted CDF, prob in [0, 1]
+}
+
+export const MIN_QUANTILES = 2;
+export const MAX_QUANTILES = 3;
+// Mass left beyond each end when there is no hard bound
+const TAIL_PROBABILITY = 0.005;
+const CURVE_POINTS = 120;
+const SIGNIFICANT_DIGITS = 4;
+
+export const DEFAULT_ELICITATION: Record<ElicitationTarget, ElicitationInput> = {
+  fdv: {
+    quantiles: [
+      { probability: 10, value: 40 },
+      { probability: 50, value: 90 },
+      { probability: 90, value: 250 }
+    ]
+  },
+  drop: {
+    quantiles: [
+      { probability: 10, value: 5 },
+      { probability: 50, value: 10 },
+      { probability: 90, value: 20 }
+    ]
+  }
+};
+
+// Problems with the guesses, as messages for the elicitation panel
+export function validateElicitation(input: ElicitationInput, target: ElicitationTarget): string[] {
+  const errors: string[] = [];
+  const { quantiles, lowerBound, upperBound } = input;
+
+  if (quantiles.length < MIN_QUANTILES || quantiles.length > MAX_QUANTILES) {
+    errors.push(`Enter ${MIN_QUANTILES} or ${MAX_QUANTILES} quantiles`);
+    return errors;
+  }
+  if (quantiles.some(q => !(q.probability > 0 && q.probability < 100))) {
+    errors.push('Percentiles must be between 0 and 100');
+  }
+  if (quantiles.some(q => !(q.value > 0))) {
+    errors.push('Values must be greater than 0');
+  }
+  if (target === 'drop' && quantiles.some(q => q.value >= 100)) {
+    errors.push('Airdrop % values must be below 100');
+  }
+  for (let i = 1; i < quantiles.length; i++) {
+    if (quantiles[i].probability <= quantiles[i - 1].probability) {
+      errors.push('Percentiles must increase from row to row');
+      break;
+    }
+    if (quantiles[i].value <= quantiles[i - 1].value) {
+      errors.push('Values must increase with the percentile');
+      break;
+    }
+  }
+
+  const first = quantiles[0].value;
+  const last = quantiles[quantiles.length - 1].value;
+  if (lowerBound !== undefined && !(lowerBound >= 0 && lowerBound < first)) {
+    errors.push('Lower bound must be at least 0 and below the lowest guess');
+  }
+  if (target === 'drop' && lowerBound === 0) {
+    errors.push('Airdrop % lower bound must be greater than 0');
+  }
+  if (upperBound !== undefined && !(upperBound > last)) {
+    errors.push('Upper bound must be above the highest guess');
+  }
+  if (target === 'drop' && upperBound > 100) {
+    errors.push('Airdrop % upper bound cannot exceed 100');
+  }
+  return errors;
+}
+
+function roundSignificant(value: number): number {
+  return value === 0 ? 0 : Number(value.toPrecision(SIGNIFICANT_DIGITS));
+}
+
+// ln value = μ + σ·z by least squares over the quantiles
+function fitLogLine(quantiles: ElicitedQuantile[]): { mu: number; sigma: number } {
+  const zs = quantiles.map(q => normalQuantile(q.probability / 100));
+  const ys = quantiles.map(q => Math.log(q.value));
+  const zMean = zs.reduce((a, b) => a + b, 0) / zs.length;
+  const yMean = ys.reduce((a, b) => a + b, 0) / ys.length;
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < zs.length; i++) {
+    covariance += (zs[i] - zMean) * (ys[i] - yMean);
+    variance += (zs[i] - zMean) * (zs[i] - zMean);
+  }
+  const sigma = covariance / variance;
+  return { mu: yMean - sigma * zMean, sigma };
+}
+
+// Hard bounds, or the lognormal fit's tail quantiles. The defaults are kept outside the
+// guesses (at least the log-space mirror of the neighbouring guess) so no segment is empty.
+function resolveBounds(input: ElicitationInput, target: ElicitationTarget): [number, number] {
+  const { mu, sigma } = fitLogLine(input.quantiles);
+  const values = input.quantiles.map(q => q.value);
+  const n = values.length;
+  const tail = sigma * normalQuantile(1 - TAIL_PROBABILITY);
+
+  const lower = input.lowerBound ?? Math.min(Math.exp(mu - tail), (values[0] * values[0]) / values[1]);
+  let upper = input.upperBound ?? Math.max(Math.exp(mu + tail), (values[n - 1] * values[n - 1]) / values[n - 2]);
+  if (target === 'drop') upper = Math.min(upper, 100);
+  return [roundSignificant(lower), roundSignificant(upper)];
+}
+
+function fitLognormalRanges(input: ElicitationInput, bounds: [number, number]): CustomRange[] {
+  const { mu, sigma } = fitLogLine(input.quantiles);
+  const [min, max] = bounds;
+  // Keep the median inside the range so the range stays valid when the bounds are tight
+  const median = Math.min(max, Math.max(min, roundSignificant(Math.exp(mu))));
+  return [{
+    id: generateRangeId(),
+    min,
+    max,
+    distributionType: 'lognormal',
+    median,
+    sigma: Number(sigma.toFixed(3)),
+    weight: 100
+  }];
+}
+
+function fitPiecewiseRanges(input: ElicitationInput, bounds: [number, number]): CustomRange[] {
+  const edges = [bounds[0], ...input.quantiles.map(q => q.value), bounds[1]];
+  const probabilities = [0, ...input.quantiles.map(q => q.probability), 100];
+  const ranges: CustomRange[] = [];
+  for (let i = 1; i < edges.length; i++) {
+    const min = edges[i - 1];
+    ranges.push({
+      id: generateRangeId(),
+      min,
+      max: edges[i],
+      // Log-uniform needs a positive start; a segment from 0 falls back to uniform
+      distributionType: min > 0 ? 'logUniform' : 'uniform',
+      weight: Number((probabilities[i] - probabilities[i - 1]).toFixed(2))
+    });
+  }
+  return ranges;
+}
+
+// Value at cumulative probability p, by bisection on the mixture CDF
+function rangesQuantile(ranges: CustomRange[], p: number): number {
+  let low = Math.min(...ranges.map(r => r.min));
+  let high = Math.max(...ranges.map(r => r.max));
+  for (let i = 0; i < 60; i++) {
+    const mid = (low + high) / 2;
+    if (rangesCdf(ranges, mid) < p) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+// Fit a distribution to valid guesses (see validateElicitation)
+export function fitElicitation(
+  input: ElicitationInput,
+  target: ElicitationTarget,
+  method: ElicitationMethod
+): ElicitationFit {
+  const bounds = resolveBounds(input, target);
+  const ranges = method === 'lognormal' ? fitLognormalRanges(input, bounds) : fitPiecewiseRanges(input, bounds);
+
+  const checks = input.quantiles.map(q => ({
+    probability: q.probability,
+    target: q.value,
+    fitted: rangesQuantile(ranges, q.probability / 100)
+  }));
+
+  // Log-spaced where possible: guesses usually span orders of magnitude
+  const [min, max] = bounds;
+  const logScale = min > 0;
+  const curve = Array.from({ length: CURVE_POINTS + 1 }, (_, i) => {
+    const t = i / CURVE_POINTS;
+    const value = logScale ? min * Math.pow(max / min, t) : min + (max - min) * t;
+    return { value, prob: rangesCdf(ranges, value) };
+  });
+
+  return { method, ranges, checks, curve };
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { EngineModel, percentileInterval, probabilityInterval, runEngine } from './engine-core';
+import { Xoshiro128 } from './prng';
+import { SimulationProgress } from './simulation-progress';
+
+describe('percentileInterval', () => {
+  it.each([10, 50, 90])('covers the true P%s of a uniform about 95% of the time', (p) => {
+    const TRIALS = 1000;
+    const rng = new Xoshiro128(17);
+    let covered = 0;
+    for (let t = 0; t < TRIALS; t++) {
+      const sorted = Float64Array.from({ length: 400 }, () => rng.next()).sort();
+      const { low, high } = percentileInterval(sorted, p);
+      if (low <= p / 100 && p / 100 <= high) covered++;
+    }
+    // Binomial(1000, 0.95) stays within ±2% of 950 with ~99.8% probability
+    expect(covered / TRIALS).toBeGreaterThan(0.93);
+    expect(covered / TRIALS).toBeLessThan(0.98);
+  });
+});
+
+describe('probabilityInterval', () => {
+  it('matches the Wilson score interval', () => {
+    const { low, high } = probabilityInterval(0.2, 100);
+    expect(low).toBeCloseTo(0.1334, 4);
+    expect(high).toBeCloseTo(0.2888, 4);
+  });
+
+  it('stays inside [0, 1] and is not empty at the extremes', () => {
+    const none = probabilityInterval(0, 1000);
+    expect(none.low).toBeGreaterThanOrEqual(0);
+    expect(none.low).toBeCloseTo(0, 12);
+    expect(none.high).toBeCloseTo(3.8415 / (1000 + 3.8415), 6);
+    const all = probabilityInterval(1, 1000);
+    expect(all.high).toBeLessThanOrEqual(1);
+    expect(all.high).toBeCloseTo(1, 12);
+    expect(all.low).toBeCloseTo(1 - none.high, 6);
+  });
+});
+
+describe('auto-stop', () => {
+  // Value = FDV × Drop% with both uniform
+  const model = (targetPrecision?: number, numSimulations = 1_000_000): EngineModel => ({
+    nftSupply: 1,
+    numSimulations,
+    seed: 8,
+    sampleFDV: rng => 100 + 900 * rng.next(),
+    sampleDrop: rng => 0.05 + 0.1 * rng.next(),
+    targetPrecision,
+    worstCase: 5,
+    bestCase: 135
+  });
+  const halfWidth = (median: number, { low, high }: { low: number; high: number }) => (high - low) / 2 / median;
+
+  it('stops at the first doubling that reaches the target precision', () => {
+    const progress: SimulationProgress[] = [];
+    const results = runEngine(model(0.01), [], { onProgress: p => progress.push(p) });
+    const numSamples = results.numSamples ?? 0;
+
+    expect(numSamples).toBeLessThan(1_000_000);
+    expect(Number.isInteger(Math.log2(numSamples / 10_000))).toBe(true);
+    expect(halfWidth(results.stats.median, results.intervals.stats.median)).toBeLessThanOrEqual(0.01);
+
+    // The same seed draws the same prefix, so the previous doubling fell short of the target
+    const previous = runEngine(model(undefined, numSamples / 2), []);
+    expect(halfWidth(previous.stats.median, previous.intervals.stats.median)).toBeGreaterThan(0.01);
+
+    // The progress bar ends full at the samples actually drawn
+    expect(progress[progress.length - 1]).toMatchObject({ completed: numSamples, total: numSamples });
+  });
+
+  it('runs every sample when the target is out of reach', () => {
+    const results = runEngine(model(0.0001, 40_000), []);
+    expect(results.numSamples).toBe(40_000);
+  });
+});
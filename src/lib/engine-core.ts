@@ -0,0 +1,622 @@
+// Shared Monte Carlo Engine Core
+// Every model (Classic, Advanced, legacy presets) plugs in its own FDV and Drop% samplers;
+// the sampling loop, statistics, histogram and thresholds live here so all models agree.
+// Core formula: value_per_nft = (FDV × Drop% × Holder Share) / NFT_Supply
+
+import { RandomSource, createStreams } from './prng';
+import { CopulaSampler, UniformPair } from './copula';
+import { AllocationOutput } from './allocation';
+import { DIMENSIONS_PER_VARIABLE, DesignSource, SAMPLING_REPLICATES, SamplingStrategy, createPointSet } from './sampling';
+import { SimulationRunOptions, estimateInterimMedian, getProgressInterval, reportProgress } from './simulation-progress';
+
+export interface SimulationStats {
+  mean: number;
+  median: number;
+  p5: number;
+  p10: number;
+  p25: number;
+  p75: number;
+  p90: number;
+  p95: number;
+  min: number;
+  max: number;
+  stdDev: number;
+}
+
+export interface HistogramBin {
+  binStart: number;
+  binEnd: number;
+  count: number;
+  density: number;
+}
+
+// One point of the exceedance (1 − CDF) curve: P(value ≥ value)
+export interface ExceedancePoint {
+  value: number;
+  prob: number;
+}
+
+// Summary of one simulated distribution
+export interface DistributionSummary {
+  stats: SimulationStats;
+  histogram: HistogramBin[];
+  exceedance?: ExceedancePoint[];  // Absent on results saved before the curve existed
+  thresholdProbs: Record<number, number>;
+}
+
+// 95% confidence interval of a Monte Carlo estimate
+export interface ConfidenceInterval {
+  low: number;
+  high: number;
+}
+
+export type IntervalStat = 'mean' | 'median' | 'p5' | 'p10' | 'p25' | 'p75' | 'p90' | 'p95';
+
+// Sampling error of the reported estimates (how far they could move with another seed)
+export interface MonteCarloIntervals {
+  stats: Record<IntervalStat, ConfidenceInterval>;
+  thresholdProbs: Record<number, ConfidenceInterval>;
+}
+
+// How many times smaller the achieved 95% error is than pseudo-random sampling would give
+// with the same number of samples (2 = half the error, about 4× fewer samples needed)
+export interface SamplingEfficiency {
+  median: number;
+  mean: number;
+}
+
+// Random factor of the value formula
+export type VarianceFactor = 'fdv' | 'drop' | 'holderShare';
+
+// Share of Var(log value) driven by one factor: Cov(log factor, log value) / Var(log value).
+// log value is the sum of the factor logs, so shares add up to 1; with negatively
+// correlated factors one share can exceed 1 and another go below 0.
+export interface VarianceDriver {
+  factor: VarianceFactor;
+  share: number;
+}
+
+// Distribution of a fixed multiple of the value per NFT (a rarity tier or a holding)
+export interface AllocationSummary extends DistributionSummary {
+  name: string;
+  factor: number;
+}
+
+export interface SimulationResults extends DistributionSummary {
+  // Value realized by selling on unlock, for models with a vesting schedule
+  realized?: DistributionSummary;
+  // Value at TGE per rarity tier and for the user's holding
+  allocations?: AllocationSummary[];
+  varianceDrivers?: VarianceDriver[];  // Absent on older results
+  intervals?: MonteCarloIntervals;     // Absent on older results
+  numSamples?: number;  // Samples drawn; below numSimulations when auto-stop reached the target precision
+  sampling?: SamplingStrategy;              // Absent on older results (pseudo-random)
+  samplingEfficiency?: SamplingEfficiency;  // Latin hypercube and Sobol runs only
+  worstCase: number;
+  bestCase: number;
+  executionTimeMs: number;
+  seed: number;  // Seed actually used; pass it back in params to reproduce the run
+  values?: Float64Array;  // Raw values per NFT in draw order, only when retainValues is set
+}
+
+// Draws one value from a model variable
+export type Sampler = (rng: RandomSource) => number;
+
+// Maps a uniform in [0, 1] to a model variable (its quantile function)
+export type Quantile = (u: number) => number;
+
+// Draws a model variable from its copula uniform; any further independent inputs
+// (e.g. circulating float behind an implied FDV) are drawn from rng
+export type ConditionalSampler = (u: number, rng: RandomSource) => number;
+
+// Dependent FDV / Drop% draws: one copula pair pushed through both conditional samplers
+export interface EngineDependence {
+  copula: CopulaSampler;
+  sampleFDV: ConditionalSampler;   // FDV in dollars
+  sampleDrop: ConditionalSampler;  // Drop% as a decimal
+}
+
+// One independent random factor of the value, described by its CDF on [min, max] (min ≥ 0)
+export interface ExactFactor {
+  min: number;
+  max: number;
+  cdf: (x: number) => number;
+  inverse?: boolean;  // The value is divided by this factor (e.g. circulating float)
+}
+
+// What a model has to supply to the engine
+export interface EngineModel {
+  nftSupply: number;
+  numSimulations: number;
+  seed?: number;
+  sampleFDV: Sampler;   // FDV in dollars
+  sampleDrop: Sampler;  // Drop% as a decimal (0.05 = 5%)
+  // Share of the drop going to NFT holders as a decimal; absent = the whole drop
+  sampleHolderShare?: Sampler;
+  // When set, replaces the independent samplers above
+  dependence?: EngineDependence;
+  // Optional second output: maps the value at TGE to the realized value (vesting + price path)
+  realize?: (valueAtTge: number, rng: RandomSource) => number;
+  // Optional outputs that scale the value per NFT (rarity tiers, holdings)
+  allocations?: AllocationOutput[];
+  // Stop early once the 95% CI of the median is within ± this fraction of it (0.01 = ±1%)
+  targetPrecision?: number;
+  // How the random inputs are drawn; absent = pseudo-random. Auto-stop needs pseudo-random.
+  sampling?: SamplingStrategy;
+  // Closed-form factors for the exact (sampling-free) distribution: value at TGE =
+  // Π factor (or 1 / factor) / nftSupply. Absent when there is none, e.g. correlated factors.
+  exactFactors?: ExactFactor[];
+  worstCase: number;    // Anchor values per NFT
+  bestCase: number;
+}
+
+const HISTOGRAM_BINS = 40;
+// Two-sided 95% normal quantile
+const Z_95 = 1.959963984540054;
+// Two-sided 95% Student t quantile for the spread of SAMPLING_REPLICATES estimates (9 d.o.f.)
+const T_95_REPLICATES = 2.2621571627982;
+// Auto-stop checks precision after this many samples, then each time the count doubles
+const AUTO_STOP_FIRST_CHECK = 10_000;
+// Grid points per spacing (log-spaced values + evenly spaced quantiles) for the exceedance curve
+const EXCEEDANCE_POINTS = 150;
+
+// Seeds are unsigned 32-bit integers
+export const MAX_SEED = 4294967295;
+export const DEFAULT_SEED = 42;
+
+export function isValidSeed(seed: number): boolean {
+  return Number.isInteger(seed) && seed >= 0 && seed <= MAX_SEED;
+}
+
+// Auto-stop targets are percentages of the median
+export const MAX_TARGET_PRECISION = 50;
+export const DEFAULT_TARGET_PRECISION = 1;
+
+export function isValidTargetPrecision(precision: number): boolean {
+  return Number.isFinite(precision) && precision > 0 && precision <= MAX_TARGET_PRECISION;
+}
+
+// Fresh seed for runs without a deterministic seed
+export function randomSeed(): number {
+  return Math.floor(Math.random() * (MAX_SEED + 1));
+}
+
+// Percentile from sorted array
+export function percentile(sorted: Float64Array, p: number): number {
+  const n = sorted.length;
+  const rank = (p / 100) * (n - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  const weight = rank - lower;
+  if (upper >= n) return sorted[n - 1];
+  return sorted[lower] * (1 - weight) + sorted[upper] * weight;
+}
+
+// Population standard deviation
+function computeStdDev(values: Float64Array, mean: number): number {
+  let sumSq = 0;
+  for (let i = 0; i < values.length; i++) {
+    const diff = values[i] - mean;
+    sumSq += diff * diff;
+  }
+  return Math.sqrt(sumSq / values.length);
+}
+
+// Histogram with log-scale bins
+export function createHistogram(sorted: Float64Array, numBins: number = HISTOGRAM_BINS): HistogramBin[] {
+  const minVal = Math.max(sorted[0], 0.01);
+  const maxVal = sorted[sorted.length - 1];
+
+  const logMin = Math.log10(minVal);
+  const logMax = Math.log10(maxVal);
+  const binWidth = (logMax - logMin) / numBins;
+
+  const bins: HistogramBin[] = [];
+  for (let i = 0; i < numBins; i++) {
+    const binStart = Math.pow(10, logMin + i * binWidth);
+    const binEnd = Math.pow(10, logMin + (i + 1) * binWidth);
+    bins.push({ binStart, binEnd, count: 0, density: 0 });
+  }
+
+  for (let i = 0; i < sorted.length; i++) {
+    const val = sorted[i];
+    if (val < minVal) continue;
+    const logVal = Math.log10(val);
+    const binIndex = Math.min(Math.floor((logVal - logMin) / binWidth), numBins - 1);
+    bins[binIndex].count++;
+  }
+
+  const total = sorted.length;
+  for (const bin of bins) {
+    bin.density = bin.count / total;
+  }
+
+  return bins;
+}
+
+// P(value ≥ threshold) by binary search for the first sample at or above it
+function exceedanceProb(sorted: Float64Array, threshold: number): number {
+  const n = sorted.length;
+  let left = 0;
+  let right = n;
+  while (left < right) {
+    const mid = (left + right) >>> 1;
+    if (sorted[mid] < threshold) {
+      left = mid + 1;
+    } else {
+      right = mid;
+    }
+  }
+  return (n - left) / n;
+}
+
+export function calcThresholdProbs(sorted: Float64Array, thresholds: number[]): Record<number, number> {
+  const result: Record<number, number> = {};
+  for (const threshold of thresholds) {
+    result[threshold] = exceedanceProb(sorted, threshold);
+  }
+  return result;
+}
+
+// Round to 3 significant digits so curve points make readable thresholds
+function roundSignificant(value: number): number {
+  return Number(value.toPrecision(3));
+}
+
+// Exceedance curve evaluated exactly at each grid value. The grid mixes log-spaced values
+// (detail across orders of magnitude) with sample quantiles (detail where the mass is).
+// `scale` gives the curve of scale × value from the same sorted samples.
+export function createExceedanceCurve(
+  sorted: Float64Array,
+  numPoints: number = EXCEEDANCE_POINTS,
+  scale: number = 1
+): ExceedancePoint[] {
+  const n = sorted.length;
+  const minVal = Math.max(sorted[0] * scale, 0.01);
+  const maxVal = sorted[n - 1] * scale;
+  const logMin = Math.log10(minVal);
+  const logStep = (Math.log10(maxVal) - logMin) / numPoints;
+
+  const grid = new Set<number>();
+  for (let i = 0; i <= numPoints; i++) {
+    grid.add(roundSignificant(Math.pow(10, logMin + i * logStep)));
+    grid.add(roundSignificant(sorted[Math.round((i / numPoints) * (n - 1))] * scale));
+  }
+
+  return Array.from(grid)
+    .sort((a, b) => a - b)
+    .map(value => ({ value, prob: exceedanceProb(sorted, value / scale) }));
+}
+
+// Distribution-free CI for the p-th percentile from order statistics: the rank of the true
+// quantile among n samples is Binomial(n, p), so its 95% range of ranks brackets the estimate
+export function percentileInterval(sorted: Float64Array, p: number): ConfidenceInterval {
+  const n = sorted.length;
+  const q = p / 100;
+  const rank = q * (n - 1);
+  const spread = Z_95 * Math.sqrt(n * q * (1 - q));
+  return {
+    low: sorted[Math.max(0, Math.floor(rank - spread))],
+    high: sorted[Math.min(n - 1, Math.ceil(rank + spread))]
+  };
+}
+
+// Wilson score interval for a probability estimated from n samples (stays inside [0, 1])
+export function probabilityInterval(prob: number, n: number): ConfidenceInterval {
+  const z2 = Z_95 * Z_95;
+  const denominator = 1 + z2 / n;
+  const center = (prob + z2 / (2 * n)) / denominator;
+  const half = (Z_95 / denominator) * Math.sqrt((prob * (1 - prob)) / n + z2 / (4 * n * n));
+  return { low: Math.max(0, center - half), high: Math.min(1, center + half) };
+}
+
+function computeIntervals(
+  sorted: Float64Array,
+  stats: SimulationStats,
+  thresholdProbs: Record<number, number>
+): MonteCarloIntervals {
+  const n = sorted.length;
+  const meanError = (Z_95 * stats.stdDev) / Math.sqrt(n);
+  const probs: Record<number, ConfidenceInterval> = {};
+  for (const [threshold, prob] of Object.entries(thresholdProbs)) {
+    probs[Number(threshold)] = probabilityInterval(prob, n);
+  }
+  return {
+    stats: {
+      mean: { low: stats.mean - meanError, high: stats.mean + meanError },
+      median: percentileInterval(sorted, 50),
+      p5: percentileInterval(sorted, 5),
+      p10: percentileInterval(sorted, 10),
+      p25: percentileInterval(sorted, 25),
+      p75: percentileInterval(sorted, 75),
+      p90: percentileInterval(sorted, 90),
+      p95: percentileInterval(sorted, 95)
+    },
+    thresholdProbs: probs
+  };
+}
+
+const INTERVAL_PERCENTILES: [IntervalStat, number][] = [
+  ['median', 50], ['p5', 5], ['p10', 10], ['p25', 25], ['p75', 75], ['p90', 90], ['p95', 95]
+];
+
+// Intervals for Latin hypercube and Sobol runs. Their points are not independent, so each
+// estimate is recomputed on every interleaved replicate and the spread between replicates
+// gives its standard error.
+function computeReplicateIntervals(
+  values: Float64Array,
+  stats: SimulationStats,
+  thresholdProbs: Record<number, number>
+): MonteCarloIntervals {
+  const thresholds = Object.keys(thresholdProbs).map(Number);
+  const estimates = Array.from({ length: SAMPLING_REPLICATES }, (_, r) => {
+    const replicate = new Float64Array(Math.ceil((values.length - r) / SAMPLING_REPLICATES));
+    for (let i = r, k = 0; i < values.length; i += SAMPLING_REPLICATES, k++) replicate[k] = values[i];
+    let sum = 0;
+    for (let k = 0; k < replicate.length; k++) sum += replicate[k];
+    replicate.sort();
+    return {
+      mean: sum / replicate.length,
+      percentiles: INTERVAL_PERCENTILES.map(([, p]) => percentile(replicate, p)),
+      probs: calcThresholdProbs(replicate, thresholds)
+    };
+  });
+
+  const halfWidth = (pick: (estimate: typeof estimates[number]) => number): number => {
+    const xs = estimates.map(pick);
+    const mean = xs.reduce((a, b) => a + b, 0) / xs.length;
+    const variance = xs.reduce((acc, x) => acc + (x - mean) * (x - mean), 0) / (xs.length - 1);
+    return T_95_REPLICATES * Math.sqrt(variance / xs.length);
+  };
+  const around = (estimate: number, half: number): ConfidenceInterval => ({ low: estimate - half, high: estimate + half });
+
+  const meanHalf = halfWidth(e => e.mean);
+  const percentileStats = Object.fromEntries(
+    INTERVAL_PERCENTILES.map(([key], j) => [key, around(stats[key], halfWidth(e => e.percentiles[j]))])
+  ) as Record<Exclude<IntervalStat, 'mean'>, ConfidenceInterval>;
+  const probs: Record<number, ConfidenceInterval> = {};
+  for (const threshold of thresholds) {
+    const { low, high } = around(thresholdProbs[threshold], halfWidth(e => e.probs[threshold]));
+    probs[threshold] = { low: Math.max(0, low), high: Math.min(1, high) };
+  }
+  return { stats: { mean: around(stats.mean, meanHalf), ...percentileStats }, thresholdProbs: probs };
+}
+
+// Pseudo-random error at the same sample count over the achieved error, for the median and mean
+function computeSamplingEfficiency(
+  sorted: Float64Array,
+  stats: SimulationStats,
+  intervals: MonteCarloIntervals
+): SamplingEfficiency | undefined {
+  const ratio = (pseudoHalf: number, { low, high }: ConfidenceInterval) =>
+    high > low ? pseudoHalf / ((high - low) / 2) : Infinity;
+  const pseudoMedian = percentileInterval(sorted, 50);
+  const median = ratio((pseudoMedian.high - pseudoMedian.low) / 2, intervals.stats.median);
+  const mean = ratio((Z_95 * stats.stdDev) / Math.sqrt(sorted.length), intervals.stats.mean);
+  return Number.isFinite(median) && Number.isFinite(mean) ? { median, mean } : undefined;
+}
+
+// Whether the 95% CI of the median of the first `count` values is within ± target of it
+function reachedPrecision(values: Float64Array, count: number, target: number): boolean {
+  const sorted = values.slice(0, count).sort();
+  const median = percentile(sorted, 50);
+  const { low, high } = percentileInterval(sorted, 50);
+  return median > 0 && (high - low) / 2 <= target * median;
+}
+
+// Summary statistics from the raw and sorted sample arrays
+export function computeStats(values: Float64Array, sorted: Float64Array): SimulationStats {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += values[i];
+  const mean = sum / values.length;
+
+  return {
+    mean,
+    median: percentile(sorted, 50),
+    p5: percentile(sorted, 5),
+    p10: percentile(sorted, 10),
+    p25: percentile(sorted, 25),
+    p75: percentile(sorted, 75),
+    p90: percentile(sorted, 90),
+    p95: percentile(sorted, 95),
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+    stdDev: computeStdDev(values, mean)
+  };
+}
+
+// Stats, histogram, exceedance curve and thresholds for one set of values
+function summarize(values: Float64Array, thresholds: number[]): DistributionSummary {
+  return summarizeSorted(values, new Float64Array(values).sort(), thresholds);
+}
+
+function summarizeSorted(values: Float64Array, sorted: Float64Array, thresholds: number[]): DistributionSummary {
+  return {
+    stats: computeStats(values, sorted),
+    histogram: createHistogram(sorted),
+    exceedance: createExceedanceCurve(sorted),
+    thresholdProbs: calcThresholdProbs(sorted, thresholds)
+  };
+}
+
+// Summary of factor × value (factor > 0) from the summary and sorted samples of value:
+// stats and histogram edges scale, probabilities are read at threshold / factor
+function scaleSummary(
+  base: DistributionSummary,
+  sorted: Float64Array,
+  factor: number,
+  thresholds: number[]
+): DistributionSummary {
+  const stats = Object.fromEntries(
+    Object.entries(base.stats).map(([key, value]) => [key, value * factor])
+  ) as unknown as SimulationStats;
+  const thresholdProbs: Record<number, number> = {};
+  for (const threshold of thresholds) {
+    thresholdProbs[threshold] = exceedanceProb(sorted, threshold / factor);
+  }
+  return {
+    stats,
+    histogram: base.histogram.map(bin => ({ ...bin, binStart: bin.binStart * factor, binEnd: bin.binEnd * factor })),
+    exceedance: createExceedanceCurve(sorted, EXCEEDANCE_POINTS, factor),
+    thresholdProbs
+  };
+}
+
+// Running sums of log value and of each log factor for the variance breakdown
+interface LogVarianceSums {
+  count: number;
+  value: number;
+  valueSq: number;
+  factor: Float64Array;       // Σ log factor
+  factorValue: Float64Array;  // Σ log factor × log value
+}
+
+function createLogVarianceSums(numFactors: number): LogVarianceSums {
+  return { count: 0, value: 0, valueSq: 0, factor: new Float64Array(numFactors), factorValue: new Float64Array(numFactors) };
+}
+
+function addLogSample(sums: LogVarianceSums, logFactors: Float64Array): void {
+  let logValue = 0;
+  for (let k = 0; k < logFactors.length; k++) logValue += logFactors[k];
+  sums.count++;
+  sums.value += logValue;
+  sums.valueSq += logValue * logValue;
+  for (let k = 0; k < logFactors.length; k++) {
+    sums.factor[k] += logFactors[k];
+    sums.factorValue[k] += logFactors[k] * logValue;
+  }
+}
+
+function computeVarianceDrivers(sums: LogVarianceSums, factors: VarianceFactor[]): VarianceDriver[] | undefined {
+  if (sums.count < 2) return undefined;
+  const meanValue = sums.value / sums.count;
+  const variance = sums.valueSq / sums.count - meanValue * meanValue;
+  if (!(variance > 0)) return undefined;
+  return factors.map((factor, k) => ({
+    factor,
+    share: (sums.factorValue[k] / sums.count - (sums.factor[k] / sums.count) * meanValue) / variance
+  }));
+}
+
+// Main simulation loop shared by every model
+export function runEngine(
+  model: EngineModel,
+  thresholds: number[],
+  options?: SimulationRunOptions
+): SimulationResults {
+  const startTime = performance.now();
+
+  // Initialize RNG: FDV, Drop%, the price path and the holder share each get their own sub-stream;
+  // the fifth lays out Latin hypercube / Sobol points
+  const seed = model.seed ?? randomSeed();
+  const [fdvRng, dropRng, pathRng, shareRng, designRng] = createStreams(seed, 5);
+
+  // Latin hypercube and Sobol points feed the first draws of FDV, Drop% and holder share;
+  // the price path stays pseudo-random
+  const sampling = model.sampling ?? 'pseudoRandom';
+  const point = new Float64Array(3 * DIMENSIONS_PER_VARIABLE);
+  const pointSet = createPointSet(sampling, model.numSimulations, point.length, designRng);
+  const design = pointSet
+    ? [fdvRng, dropRng, shareRng].map((rng, k) => new DesignSource(point, k * DIMENSIONS_PER_VARIABLE, DIMENSIONS_PER_VARIABLE, rng))
+    : null;
+  const [fdvSource, dropSource, shareSource]: RandomSource[] = design ?? [fdvRng, dropRng, shareRng];
+
+  // Allocate
+  const values = new Float64Array(model.numSimulations);
+  const { realize } = model;
+  const realized = realize ? new Float64Array(model.numSimulations) : null;
+  const progressInterval = getProgressInterval(model.numSimulations);
+  const { dependence } = model;
+  const pair: UniformPair = { u: 0, v: 0 };
+  const { sampleHolderShare } = model;
+  const factors: VarianceFactor[] = sampleHolderShare ? ['fdv', 'drop', 'holderShare'] : ['fdv', 'drop'];
+  const logFactors = new Float64Array(factors.length);
+  const logSums = createLogVarianceSums(factors.length);
+  // Auto-stop would cut a Latin hypercube short and unbalance the replicates
+  const targetPrecision = pointSet ? undefined : model.targetPrecision;
+  let numSamples = model.numSimulations;
+  let nextCheck = AUTO_STOP_FIRST_CHECK;
+
+  // Run simulation
+  for (let i = 0; i < model.numSimulations; i++) {
+    if (pointSet) {
+      pointSet.nextPoint(point);
+      for (const source of design) source.reset();
+    }
+
+    let fdv: number;
+    let dropPct: number;
+    if (dependence) {
+      // Both variables come from one joint draw, so a single stream drives it
+      dependence.copula(fdvSource, pair);
+      fdv = dependence.sampleFDV(pair.u, fdvSource);
+      dropPct = dependence.sampleDrop(pair.v, dropSource);
+    } else {
+      fdv = model.sampleFDV(fdvSource);
+      dropPct = model.sampleDrop(dropSource);
+    }
+
+    const holderShare = sampleHolderShare ? sampleHolderShare(shareSource) : 1;
+
+    // Core formula: value_per_nft = (FDV × Drop% × Holder Share) / NFT_Supply
+    values[i] = (fdv * dropPct * holderShare) / model.nftSupply;
+    // Zero draws have no log; they are left out of the variance breakdown
+    if (fdv > 0 && dropPct > 0 && holderShare > 0) {
+      logFactors[0] = Math.log(fdv);
+      logFactors[1] = Math.log(dropPct);
+      if (sampleHolderShare) logFactors[2] = Math.log(holderShare);
+      addLogSample(logSums, logFactors);
+    }
+    if (realized) realized[i] = realize(values[i], pathRng);
+    reportProgress(options, values, i + 1, progressInterval);
+
+    if (targetPrecision && i + 1 === nextCheck) {
+      if (reachedPrecision(values, i + 1, targetPrecision)) {
+        numSamples = i + 1;
+        break;
+      }
+      nextCheck *= 2;
+    }
+  }
+
+  // Auto-stop ends between reporting boundaries: close the progress at the samples drawn
+  if (numSamples < values.length) {
+    options?.onProgress?.({ completed: numSamples, total: numSamples, interimMedian: estimateInterimMedian(values, numSamples) });
+  }
+
+  // Drop the unused tail when auto-stop ended the run early
+  const drawn = numSamples < values.length ? values.slice(0, numSamples) : values;
+  const drawnRealized = realized && numSamples < realized.length ? realized.slice(0, numSamples) : realized;
+
+  const sorted = new Float64Array(drawn).sort();
+  const summary = summarizeSorted(drawn, sorted, thresholds);
+  const intervals = pointSet
+    ? computeReplicateIntervals(drawn, summary.stats, summary.thresholdProbs)
+    : computeIntervals(sorted, summary.stats, summary.thresholdProbs);
+  const samplingEfficiency = pointSet ? computeSamplingEfficiency(sorted, summary.stats, intervals) : undefined;
+  const realizedSummary = drawnRealized ? summarize(drawnRealized, thresholds) : undefined;
+  const varianceDrivers = computeVarianceDrivers(logSums, factors);
+  const allocations = model.allocations?.map(({ name, factor }) => ({
+    name,
+    factor,
+    ...scaleSummary(summary, sorted, factor, thresholds)
+  }));
+
+  const executionTimeMs = performance.now() - startTime;
+
+  return {
+    ...summary,
+    ...(realizedSummary ? { realized: realizedSummary } : {}),
+    ...(allocations ? { allocations } : {}),
+    ...(varianceDrivers ? { varianceDrivers } : {}),
+    intervals,
+    numSamples,
+    sampling,
+    ...(samplingEfficiency ? { samplingEfficiency } : {}),
+    worstCase: model.worstCase,
+    bestCase: model.bestCase,
+    executionTimeMs,
+    seed,
+    ...(options?.retainValues ? { values: drawn } : {})
+  };
+}
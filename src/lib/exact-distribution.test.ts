@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PARAMS, createSimpleModel, runSimpleSimulation } from './simple-monte-carlo';
+import { ConfidenceInterval } from './engine-core';
+import { computeExactResults } from './exact-distribution';
+
+const THRESHOLDS = [60, 120, 300];
+
+// Twice the 95% half-width (about 4σ): sampling luck cannot fail the check, a real bias still does
+function expectWithin(value: number, interval: ConfidenceInterval) {
+  const centre = (interval.low + interval.high) / 2;
+  const halfWidth = interval.high - interval.low;
+  expect(value).toBeGreaterThanOrEqual(centre - halfWidth);
+  expect(value).toBeLessThanOrEqual(centre + halfWidth);
+}
+
+describe('computeExactResults (classic model)', () => {
+  const params = { ...DEFAULT_PARAMS, numSimulations: 200_000, seed: 42 };
+  const monteCarlo = runSimpleSimulation(params, THRESHOLDS);
+  const exact = computeExactResults(createSimpleModel(params), THRESHOLDS);
+
+  it('has an exact form', () => {
+    expect(exact).not.toBeNull();
+  });
+
+  it.each(['mean', 'median', 'p10', 'p90'] as const)('%s agrees with Monte Carlo', (stat) => {
+    expectWithin(exact.stats[stat], monteCarlo.intervals.stats[stat]);
+  });
+
+  it.each(THRESHOLDS)('P(≥ %d) agrees with Monte Carlo', (threshold) => {
+    expectWithin(exact.thresholdProbs[threshold], monteCarlo.intervals.thresholdProbs[threshold]);
+  });
+
+  it('matches the sampled range bounds', () => {
+    expect(exact.stats.min).toBeCloseTo(monteCarlo.worstCase, 6);
+    expect(exact.stats.max).toBeCloseTo(monteCarlo.bestCase, 6);
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ADVANCED_PARAMS, runAdvancedSimulation } from './advanced-monte-carlo';
+import { poolForecasts } from './opinion-pool';
+
+const THRESHOLD = 500;
+
+function simulate(fdvMin: number, fdvMax: number, seed: number) {
+  const params = { ...DEFAULT_ADVANCED_PARAMS, numSimulations: 50_000, seed, fdvRanges: [{ ...DEFAULT_ADVANCED_PARAMS.fdvRanges[0], min: fdvMin, max: fdvMax }] };
+  return runAdvancedSimulation(params, [THRESHOLD], { retainValues: true });
+}
+
+describe('poolForecasts', () => {
+  const low = simulate(20, 100, 1);
+  const high = simulate(60, 200, 2);
+
+  it.each(['linear', 'logarithmic'] as const)('%s pool of identical analysts is that analyst', (method) => {
+    const pooled = poolForecasts([low.values, low.values], [1, 3], method, [THRESHOLD]);
+    expect(pooled.stats.median / low.stats.median).toBeCloseTo(1, 1);
+    expect(pooled.thresholdProbs[THRESHOLD]).toBeCloseTo(low.thresholdProbs[THRESHOLD], 2);
+  });
+
+  it('linear pool averages threshold probabilities and means with the weights', () => {
+    const pooled = poolForecasts([low.values, high.values], [1, 3], 'linear', [THRESHOLD]);
+    expect(pooled.weights).toEqual([0.25, 0.75]);
+    expect(pooled.thresholdProbs[THRESHOLD]).toBeCloseTo(0.25 * low.thresholdProbs[THRESHOLD] + 0.75 * high.thresholdProbs[THRESHOLD], 2);
+    expect(pooled.stats.mean).toBeCloseTo(0.25 * low.stats.mean + 0.75 * high.stats.mean, 6);
+  });
+
+  it('logarithmic pool concentrates between the analysts', () => {
+    const linear = poolForecasts([low.values, high.values], [1, 1], 'linear', [THRESHOLD]);
+    const log = poolForecasts([low.values, high.values], [1, 1], 'logarithmic', [THRESHOLD]);
+    expect(log.stats.median).toBeGreaterThan(low.stats.median);
+    expect(log.stats.median).toBeLessThan(high.stats.median);
+    expect(log.stats.p90 / log.stats.p10).toBeLessThan(linear.stats.p90 / linear.stats.p10);
+  });
+});
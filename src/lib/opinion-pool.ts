@@ -0,0 +1,229 @@
+// Opinion pooling: one consensus distribution from several analysts' Advanced scenarios
+//
+// Each analyst's scenario is simulated on its own, from its own params and seed, so every
+// individual run reproduces by itself. The values are binned on one shared log grid and pooled
+// with normalized weights wᵢ:
+//   • Linear pool (mixture): p(x) = Σ wᵢ·pᵢ(x). Keeps every analyst's spread, so
+//     disagreement shows up as a wider consensus.
+//   • Logarithmic pool: p(x) ∝ Π pᵢ(x)^wᵢ. Concentrates where the analysts agree; an outcome
+//     any analyst rules out is ruled out. Each density is smoothed over ±1 bin first, so
+//     sampling noise in sparse tail bins does not zero the product.
+//
+// Tolerance: percentiles are interpolated in log space within a bin of the shared grid
+// (POOL_BINS across the analysts' combined 0.1%–99.9% range). The linear pool's mean is exact
+// (Σ wᵢ·meanᵢ from the samples); the logarithmic pool's mean comes from the grid's bin centres,
+// with values beyond the grid counted in the edge bins, so it understates heavy upper tails.
+
+import { AdvancedSimulationParams } from './advanced-monte-carlo';
+import { SimulationStats } from './engine-core';
+
+export type PoolingMethod = 'linear' | 'logarithmic';
+
+export const POOLING_METHODS: Record<PoolingMethod, { label: string; description: string }> = {
+  linear: {
+    label: 'Linear (mixture)',
+    description: 'Weighted average of the distributions; keeps every view, so disagreement widens the consensus'
+  },
+  logarithmic: {
+    label: 'Logarithmic',
+    description: 'Weighted geometric average; concentrates where the analysts agree'
+  }
+};
+
+export const MIN_ANALYSTS = 2;
+export const MAX_ANALYSTS = 5;
+const POOL_BINS = 400;
+const GRID_TAIL = 0.001;
+
+export interface Analyst {
+  id: string;
+  name: string;
+  weight: number;  // Relative; normalized across the analysts
+  params: AdvancedSimulationParams;
+  thresholds: number[];
+}
+
+// Every threshold any analyst asked about
+export function poolThresholds(analysts: Analyst[]): number[] {
+  return Array.from(new Set(analysts.flatMap(a => a.thresholds))).sort((a, b) => a - b);
+}
+
+export interface PoolGridPoint {
+  value: number;       // Geometric centre of the bin
+  analysts: number[];  // Probability per decade, per analyst
+  pooled: number;
+}
+
+export type PooledStat = 'p5' | 'p10' | 'p25' | 'median' | 'p75' | 'p90' | 'p95' | 'mean';
+
+export interface PooledDistribution {
+  method: PoolingMethod;
+  weights: number[];  // Normalized
+  grid: PoolGridPoint[];
+  stats: Pick<SimulationStats, PooledStat>;
+  thresholdProbs: Record<number, number>;
+}
+
+export function normalizeWeights(weights: number[]): number[] {
+  const clamped = weights.map(w => Math.max(0, w));
+  const total = clamped.reduce((a, b) => a + b, 0);
+  return total > 0 ? clamped.map(w => w / total) : weights.map(() => 1 / weights.length);
+}
+
+// Problems with the analyst set, as messages for the pooling page
+export function validateAnalysts(analysts: Analyst[]): string[] {
+  const errors: string[] = [];
+  if (analysts.length < MIN_ANALYSTS || analysts.length > MAX_ANALYSTS) {
+    errors.push(`Add ${MIN_ANALYSTS}–${MAX_ANALYSTS} analysts`);
+  }
+  if (analysts.some(a => !(a.weight >= 0))) {
+    errors.push('Weights must be 0 or more');
+  } else if (!analysts.some(a => a.weight > 0)) {
+    errors.push('At least one analyst needs a weight above 0');
+  }
+  return errors;
+}
+
+function sampleMean(values: Float64Array): number {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += values[i];
+  return sum / values.length;
+}
+
+function sortedQuantile(sorted: Float64Array, p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+// Shared log grid edges covering every analyst's central 99.8%
+function createLogEdges(sortedValues: Float64Array[]): number[] {
+  const positive = (sorted: Float64Array) => sorted.find(v => v > 0) ?? 1;
+  let low = Math.min(...sortedValues.map(s => Math.max(sortedQuantile(s, GRID_TAIL), positive(s))));
+  let high = Math.max(...sortedValues.map(s => sortedQuantile(s, 1 - GRID_TAIL)));
+  if (!(high > low)) {
+    low /= 1.1;
+    high = low * 1.21;
+  }
+  const logLow = Math.log(low);
+  const step = (Math.log(high) - logLow) / POOL_BINS;
+  return Array.from({ length: POOL_BINS + 1 }, (_, i) => Math.exp(logLow + i * step));
+}
+
+// Probability mass per bin; values beyond the grid count in the edge bins
+function binMass(values: Float64Array, edges: number[]): Float64Array {
+  const mass = new Float64Array(POOL_BINS);
+  const logLow = Math.log(edges[0]);
+  const step = Math.log(edges[1]) - logLow;
+  for (let i = 0; i < values.length; i++) {
+    const position = values[i] > 0 ? Math.floor((Math.log(values[i]) - logLow) / step) : 0;
+    mass[Math.min(POOL_BINS - 1, Math.max(0, position))] += 1 / values.length;
+  }
+  return mass;
+}
+
+// [1, 2, 1] / 4 smoothing over neighbouring bins
+function smoothMass(mass: Float64Array): Float64Array {
+  const smoothed = new Float64Array(mass.length);
+  for (let k = 0; k < mass.length; k++) {
+    const left = mass[Math.max(0, k - 1)];
+    const right = mass[Math.min(mass.length - 1, k + 1)];
+    smoothed[k] = (left + 2 * mass[k] + right) / 4;
+  }
+  return smoothed;
+}
+
+function poolMass(masses: Float64Array[], weights: number[], method: PoolingMethod): Float64Array | null {
+  const pooled = new Float64Array(POOL_BINS);
+  if (method === 'linear') {
+    masses.forEach((mass, i) => {
+      for (let k = 0; k < POOL_BINS; k++) pooled[k] += weights[i] * mass[k];
+    });
+  } else {
+    const smoothed = masses.map(smoothMass);
+    for (let k = 0; k < POOL_BINS; k++) {
+      let logSum = 0;
+      for (let i = 0; i < smoothed.length; i++) {
+        if (weights[i] === 0) continue;
+        logSum += smoothed[i][k] > 0 ? weights[i] * Math.log(smoothed[i][k]) : -Infinity;
+      }
+      pooled[k] = Math.exp(logSum);
+    }
+  }
+  const total = pooled.reduce((a, b) => a + b, 0);
+  if (!(total > 0)) return null;
+  for (let k = 0; k < POOL_BINS; k++) pooled[k] /= total;
+  return pooled;
+}
+
+// P(value ≤ x), with each bin's mass spread evenly in log value
+function gridCdf(mass: Float64Array, edges: number[], x: number): number {
+  if (x <= edges[0]) return 0;
+  if (x >= edges[POOL_BINS]) return 1;
+  const step = Math.log(edges[1] / edges[0]);
+  const position = Math.log(x / edges[0]) / step;
+  const k = Math.floor(position);
+  let below = 0;
+  for (let j = 0; j < k; j++) below += mass[j];
+  return below + (position - k) * mass[k];
+}
+
+function gridQuantile(mass: Float64Array, edges: number[], p: number): number {
+  let cumulative = 0;
+  for (let k = 0; k < POOL_BINS; k++) {
+    if (cumulative + mass[k] >= p && mass[k] > 0) {
+      const within = (p - cumulative) / mass[k];
+      return edges[k] * Math.pow(edges[k + 1] / edges[k], within);
+    }
+    cumulative += mass[k];
+  }
+  return edges[POOL_BINS];
+}
+
+// Pool the analysts' simulated values; null when the logarithmic pool is empty
+// (no value that every weighted analyst considers possible)
+export function poolForecasts(
+  values: Float64Array[],
+  rawWeights: number[],
+  method: PoolingMethod,
+  thresholds: number[]
+): PooledDistribution | null {
+  const weights = normalizeWeights(rawWeights);
+  const sortedValues = values.map(v => v.slice().sort());
+  const edges = createLogEdges(sortedValues);
+  const masses = values.map(v => binMass(v, edges));
+  const pooled = poolMass(masses, weights, method);
+  if (!pooled) return null;
+
+  const perDecade = (mass: number, k: number) => mass / Math.log10(edges[k + 1] / edges[k]);
+  const grid = Array.from({ length: POOL_BINS }, (_, k) => ({
+    value: Math.sqrt(edges[k] * edges[k + 1]),
+    analysts: masses.map(mass => perDecade(mass[k], k)),
+    pooled: perDecade(pooled[k], k)
+  }));
+
+  let mean = 0;
+  if (method === 'linear') {
+    values.forEach((v, i) => { mean += weights[i] * sampleMean(v); });
+  } else {
+    for (let k = 0; k < POOL_BINS; k++) mean += pooled[k] * grid[k].value;
+  }
+  const quantile = (p: number) => gridQuantile(pooled, edges, p);
+  const thresholdProbs: Record<number, number> = {};
+  for (const threshold of thresholds) thresholdProbs[threshold] = 1 - gridCdf(pooled, edges, threshold);
+
+  return {
+    method,
+    weights,
+    grid,
+    stats: {
+      p5: quantile(0.05),
+      p10: quantile(0.1),
+      p25: quantile(0.25),
+      median: quantile(0.5),
+      p75: quantile(0.75),
+      p90: quantile(0.9),
+      p95: quantile(0.95),
+      mean
+    },
+    thresholdProbs
+  };
+}
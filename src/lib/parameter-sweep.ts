@@ -0,0 +1,122 @@
+// Parameter sweep for Classic mode: two inputs varied over a grid, one run per cell
+//
+// Every cell uses the same seed and sample count, so neighbouring cells differ only through
+// their inputs. The UI runs the sweep in the simulation worker and cancels it by terminating
+// the worker; progress is reported once per time-boxed batch of cells, not per cell.
+
+import { DEFAULT_SEED, runEngine } from './engine-core';
+import { SimpleSimulationParams, createSimpleModel, validateParams } from './simple-monte-carlo';
+
+export type SweepField = 'fdvMinM' | 'fdvMaxM' | 'dropMinPct' | 'dropMaxPct' | 'nftSupply';
+
+export const SWEEP_FIELDS: Record<SweepField, { label: string; unit: 'millions' | 'percent' | 'count' }> = {
+  fdvMinM: { label: 'FDV Min', unit: 'millions' },
+  fdvMaxM: { label: 'FDV Max', unit: 'millions' },
+  dropMinPct: { label: 'Drop% Min', unit: 'percent' },
+  dropMaxPct: { label: 'Drop% Max', unit: 'percent' },
+  nftSupply: { label: 'NFT Supply', unit: 'count' },
+};
+
+export const MIN_SWEEP_STEPS = 2;
+export const MAX_SWEEP_STEPS = 15;
+// Samples per cell; a sweep is many runs, so each is capped
+export const SWEEP_SAMPLES = 20_000;
+// Time spent running cells between progress reports
+const BATCH_BUDGET_MS = 40;
+
+export interface SweepAxis {
+  field: SweepField;
+  from: number;
+  to: number;
+  steps: number;
+}
+
+export interface SweepCell {
+  x: number;
+  y: number;
+  median: number;
+  p10: number;
+  p90: number;
+  thresholdProbs: Record<number, number>;
+}
+
+export interface SweepResult {
+  base: SimpleSimulationParams;
+  xAxis: SweepAxis;
+  yAxis: SweepAxis;
+  xValues: number[];
+  yValues: number[];
+  thresholds: number[];
+  seed: number;
+  numSamples: number;
+  cells: (SweepCell | null)[][];  // cells[row][col], row = y index; null = invalid inputs
+}
+
+export interface SweepOptions {
+  onProgress?: (completed: number, total: number) => void;
+}
+
+export function validateSweepAxes(xAxis: SweepAxis, yAxis: SweepAxis): string[] {
+  const errors: string[] = [];
+  if (xAxis.field === yAxis.field) {
+    errors.push('Choose two different parameters');
+  }
+  for (const [name, axis] of [['X', xAxis], ['Y', yAxis]] as const) {
+    if (!Number.isFinite(axis.from) || !Number.isFinite(axis.to) || axis.from <= 0 || axis.to <= 0) {
+      errors.push(`${name} axis: From and To must be greater than 0`);
+    } else if (axis.from === axis.to) {
+      errors.push(`${name} axis: From and To must differ`);
+    }
+    if (!Number.isInteger(axis.steps) || axis.steps < MIN_SWEEP_STEPS || axis.steps > MAX_SWEEP_STEPS) {
+      errors.push(`${name} axis: Steps must be a whole number from ${MIN_SWEEP_STEPS} to ${MAX_SWEEP_STEPS}`);
+    }
+  }
+  return errors;
+}
+
+// Evenly spaced values from `from` to `to`; NFT supply is kept whole
+export function createAxisValues(axis: SweepAxis): number[] {
+  return Array.from({ length: axis.steps }, (_, i) => {
+    const value = axis.from + ((axis.to - axis.from) * i) / (axis.steps - 1);
+    return axis.field === 'nftSupply' ? Math.round(value) : value;
+  });
+}
+
+function runCell(params: SimpleSimulationParams, thresholds: number[], x: number, y: number): SweepCell | null {
+  if (validateParams(params).length > 0) return null;
+  const { stats, thresholdProbs } = runEngine(createSimpleModel(params), thresholds);
+  return { x, y, median: stats.median, p10: stats.p10, p90: stats.p90, thresholdProbs };
+}
+
+export function runParameterSweep(
+  base: SimpleSimulationParams,
+  xAxis: SweepAxis,
+  yAxis: SweepAxis,
+  thresholds: number[],
+  options: SweepOptions = {}
+): SweepResult {
+  const { onProgress } = options;
+  const seed = base.seed ?? DEFAULT_SEED;
+  const numSamples = Math.min(base.numSimulations, SWEEP_SAMPLES);
+  const xValues = createAxisValues(xAxis);
+  const yValues = createAxisValues(yAxis);
+  const cells: (SweepCell | null)[][] = yValues.map(() => []);
+
+  const total = xValues.length * yValues.length;
+  let completed = 0;
+  while (completed < total) {
+    const batchStart = performance.now();
+    while (completed < total && performance.now() - batchStart < BATCH_BUDGET_MS) {
+      const row = Math.floor(completed / xValues.length);
+      const col = completed % xValues.length;
+      const x = xValues[col];
+      const y = yValues[row];
+      const params = { ...base, [xAxis.field]: x, [yAxis.field]: y, numSimulations: numSamples, seed, targetPrecision: undefined };
+      cells[row][col] = runCell(params, thresholds, x, y);
+      completed++;
+    }
+    onProgress?.(completed, total);
+  }
+
+  return { base, xAxis, yAxis, xValues, yValues, thresholds, seed, numSamples, cells };
+}
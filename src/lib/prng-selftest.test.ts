@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { runPrngSelfTests } from './prng-selftest';
+
+describe('runPrngSelfTests', () => {
+  // 200k draws per test keeps the run quick while the statistics stay meaningful
+  const results = runPrngSelfTests(20240601, 200_000);
+
+  it('runs every self-test', () => {
+    expect(results).toHaveLength(6);
+  });
+
+  it.each(results.map(r => [r.name, r] as const))('%s passes', (_name, r) => {
+    expect(r.passed, `p = ${r.pValue}`).toBe(true);
+  });
+});
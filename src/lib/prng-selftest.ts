@@ -0,0 +1,129 @@
+// Statistical self-tests for the PRNG layer
+// Cheap smoke checks (not a substitute for TestU01): they catch broken seeding,
+// bad bit extraction or overlapping sub-streams. Each test reports a p-value and
+// fails below SIGNIFICANCE, so a healthy generator fails a given test ~0.1% of the time.
+
+import { Xoshiro128, createStreams } from './prng';
+import { chiSquareSurvival, normalCdf } from './stats-math';
+
+export interface PrngTestResult {
+  name: string;
+  statistic: number;
+  pValue: number;
+  passed: boolean;
+}
+
+const SIGNIFICANCE = 0.001;
+const UNIFORMITY_BINS = 100;
+
+function result(name: string, statistic: number, pValue: number): PrngTestResult {
+  return { name, statistic, pValue, passed: pValue >= SIGNIFICANCE };
+}
+
+// Two-sided p-value for a statistic that is standard normal under the null
+function twoSidedNormal(z: number): number {
+  return 2 * (1 - normalCdf(Math.abs(z)));
+}
+
+// Pearson correlation of two equal-length samples
+function correlation(a: Float64Array, b: Float64Array): number {
+  const n = a.length;
+  let sumA = 0, sumB = 0;
+  for (let i = 0; i < n; i++) { sumA += a[i]; sumB += b[i]; }
+  const meanA = sumA / n;
+  const meanB = sumB / n;
+  let cov = 0, varA = 0, varB = 0;
+  for (let i = 0; i < n; i++) {
+    const da = a[i] - meanA;
+    const db = b[i] - meanB;
+    cov += da * db;
+    varA += da * da;
+    varB += db * db;
+  }
+  return cov / Math.sqrt(varA * varB);
+}
+
+function draw(rng: { next(): number }, n: number): Float64Array {
+  const out = new Float64Array(n);
+  for (let i = 0; i < n; i++) out[i] = rng.next();
+  return out;
+}
+
+// Chi-square goodness of fit against U[0, 1) on equal-width bins
+function testUniformity(seed: number, n: number): PrngTestResult {
+  const rng = new Xoshiro128(seed);
+  const counts = new Float64Array(UNIFORMITY_BINS);
+  for (let i = 0; i < n; i++) counts[Math.floor(rng.next() * UNIFORMITY_BINS)]++;
+  const expected = n / UNIFORMITY_BINS;
+  let chi2 = 0;
+  for (const c of counts) chi2 += ((c - expected) * (c - expected)) / expected;
+  return result('Uniformity (χ², 100 bins)', chi2, chiSquareSurvival(chi2, UNIFORMITY_BINS - 1));
+}
+
+// Lag-1 serial correlation; √n · r is ~N(0, 1) for independent draws
+function testSerialCorrelation(seed: number, n: number): PrngTestResult {
+  const values = draw(new Xoshiro128(seed), n + 1);
+  const r = correlation(values.subarray(0, n), values.subarray(1, n + 1));
+  const z = r * Math.sqrt(n);
+  return result('Serial correlation (lag 1)', r, twoSidedNormal(z));
+}
+
+// Correlation between the FDV and Drop% sub-streams of one seed
+function testStreamIndependence(seed: number, n: number): PrngTestResult {
+  const [a, b] = createStreams(seed, 2);
+  const r = correlation(draw(a, n), draw(b, n));
+  return result('Sub-stream independence', r, twoSidedNormal(r * Math.sqrt(n)));
+}
+
+// Correlation between the streams of adjacent seeds (the old xorshift seeding failed this)
+function testAdjacentSeeds(seed: number, n: number): PrngTestResult {
+  const r = correlation(draw(new Xoshiro128(seed), n), draw(new Xoshiro128(seed + 1), n));
+  return result('Adjacent seed independence', r, twoSidedNormal(r * Math.sqrt(n)));
+}
+
+// Draws must carry more than 32 bits: x · 2^32 is an integer with probability 2^-21
+// per draw at 53-bit resolution, but always with a 32-bit generator
+function testResolution(seed: number, n: number): PrngTestResult {
+  const rng = new Xoshiro128(seed);
+  let coarse = 0;
+  for (let i = 0; i < n; i++) {
+    const scaled = rng.next() * 4294967296;
+    if (scaled === Math.floor(scaled)) coarse++;
+  }
+  const expected = n / 2097152;
+  // Poisson upper tail P(X ≥ coarse), exact enough for the tiny means involved
+  let cdf = 0;
+  let term = Math.exp(-expected);
+  for (let k = 0; k < coarse; k++) {
+    cdf += term;
+    term *= expected / (k + 1);
+  }
+  return result('53-bit resolution', coarse, Math.max(0, 1 - cdf));
+}
+
+// Same seed must replay the same stream, and jump() must land on a different one
+function testReproducibility(seed: number): PrngTestResult {
+  const a = draw(new Xoshiro128(seed), 1000);
+  const b = draw(new Xoshiro128(seed), 1000);
+  const jumped = draw(new Xoshiro128(seed).jump(), 1000);
+  let same = true;
+  let overlap = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) same = false;
+    if (a[i] === jumped[i]) overlap++;
+  }
+  const passed = same && overlap === 0;
+  return { name: 'Reproducibility and jump', statistic: overlap, pValue: passed ? 1 : 0, passed };
+}
+
+// Run every self-test; 1M draws per test take well under a second
+export function runPrngSelfTests(seed: number = 20240601, n: number = 1_000_000): PrngTestResult[] {
+  return [
+    testUniformity(seed, n),
+    testSerialCorrelation(seed, n),
+    testStreamIndependence(seed, n),
+    testAdjacentSeeds(seed, n),
+    testResolution(seed, n),
+    testReproducibility(seed)
+  ];
+}
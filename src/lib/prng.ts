@@ -0,0 +1,149 @@
+// Pseudo-random number generation for the Monte Carlo engines
+//
+// Generator: xoshiro128** 1.1 (Blackman & Vigna, https://prng.di.unimi.it/)
+// - 128-bit state, period 2^128 − 1, passes BigCrush
+// - All arithmetic is 32-bit, so it stays fast in JavaScript without BigInt
+// - Doubles are built from two outputs (27 + 26 bits) for full 53-bit resolution in [0, 1)
+//
+// Seeding: the 32-bit seed is expanded into the 128-bit state with SplitMix32, so nearby
+// seeds (42, 43, …) produce unrelated states.
+//
+// Streams: jump() advances the state by 2^64 outputs and longJump() by 2^96 outputs.
+// Each model variable draws from its own jumped sub-stream, and parallel workers take
+// long-jumped blocks, so streams never overlap in practice.
+
+// Anything that produces uniforms in [0, 1); samplers only depend on this
+export interface RandomSource {
+  next(): number;
+}
+
+// Jump polynomials from the reference implementation (xoshiro128starstar.c)
+const JUMP = [0x8764000b, 0xf542d2d3, 0x6fa035c3, 0x77f2db5b];
+const LONG_JUMP = [0xb523952e, 0x0b6f099f, 0xccf5a0ef, 0x1c580662];
+
+// 2^-53, 2^26
+const DOUBLE_UNIT = 1 / 9007199254740992;
+const TWO_POW_26 = 67108864;
+
+function rotl(x: number, k: number): number {
+  return (x << k) | (x >>> (32 - k));
+}
+
+// SplitMix32 output function; `state` is advanced by the golden-ratio increment per call
+function splitMix32(state: number): number {
+  let z = state;
+  z = Math.imul(z ^ (z >>> 16), 0x21f0aaad);
+  z = Math.imul(z ^ (z >>> 15), 0x735a2d97);
+  return (z ^ (z >>> 15)) >>> 0;
+}
+
+export class Xoshiro128 implements RandomSource {
+  private s0: number;
+  private s1: number;
+  private s2: number;
+  private s3: number;
+
+  constructor(seed: number) {
+    let state = seed >>> 0;
+    const words: number[] = [];
+    for (let i = 0; i < 4; i++) {
+      state = (state + 0x9e3779b9) >>> 0;
+      words.push(splitMix32(state));
+    }
+    // The all-zero state is the one fixed point of the generator
+    if ((words[0] | words[1] | words[2] | words[3]) === 0) words[0] = 1;
+    [this.s0, this.s1, this.s2, this.s3] = words;
+  }
+
+  // Next raw 32-bit output
+  nextUint32(): number {
+    const result = Math.imul(rotl(Math.imul(this.s1, 5), 7), 9) >>> 0;
+    const t = this.s1 << 9;
+
+    this.s2 ^= this.s0;
+    this.s3 ^= this.s1;
+    this.s1 ^= this.s2;
+    this.s0 ^= this.s3;
+    this.s2 ^= t;
+    this.s3 = rotl(this.s3, 11);
+
+    return result;
+  }
+
+  // Uniform double in [0, 1) with 53 bits of resolution
+  next(): number {
+    const high = this.nextUint32() >>> 5;
+    const low = this.nextUint32() >>> 6;
+    return (high * TWO_POW_26 + low) * DOUBLE_UNIT;
+  }
+
+  // Independent copy of the current state
+  clone(): Xoshiro128 {
+    const copy = Object.create(Xoshiro128.prototype) as Xoshiro128;
+    copy.s0 = this.s0;
+    copy.s1 = this.s1;
+    copy.s2 = this.s2;
+    copy.s3 = this.s3;
+    return copy;
+  }
+
+  // Advance by 2^64 outputs
+  jump(): this {
+    return this.applyJump(JUMP);
+  }
+
+  // Advance by 2^96 outputs
+  longJump(): this {
+    return this.applyJump(LONG_JUMP);
+  }
+
+  // Hand the current 2^64-output block to a new generator and move this one past it
+  split(): Xoshiro128 {
+    const child = this.clone();
+    this.jump();
+    return child;
+  }
+
+  private applyJump(polynomial: number[]): this {
+    let s0 = 0;
+    let s1 = 0;
+    let s2 = 0;
+    let s3 = 0;
+    for (const word of polynomial) {
+      for (let b = 0; b < 32; b++) {
+        if (word & (1 << b)) {
+          s0 ^= this.s0;
+          s1 ^= this.s1;
+          s2 ^= this.s2;
+          s3 ^= this.s3;
+        }
+        this.nextUint32();
+      }
+    }
+    this.s0 = s0;
+    this.s1 = s1;
+    this.s2 = s2;
+    this.s3 = s3;
+    return this;
+  }
+}
+
+// Carve `count` consecutive 2^64-output sub-streams off `base` (advancing it past them)
+export function splitStreams(base: Xoshiro128, count: number): Xoshiro128[] {
+  const streams: Xoshiro128[] = [];
+  for (let i = 0; i < count; i++) streams.push(base.split());
+  return streams;
+}
+
+// Sub-streams for one run: stream k is the seeded generator jumped k times
+export function createStreams(seed: number, count: number): Xoshiro128[] {
+  return splitStreams(new Xoshiro128(seed), count);
+}
+
+// Generator for parallel worker `index`: one 2^96-output block per worker,
+// which splitStreams can divide further into per-variable sub-streams
+export function createWorkerStream(seed: number, index: number): Xoshiro128 {
+  const rng = new Xoshiro128(seed);
+  for (let i = 0; i < index; i++) rng.longJump();
+  return rng;
+}
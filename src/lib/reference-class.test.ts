@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ADVANCED_PARAMS, validateAdvancedParams } from './advanced-monte-carlo';
+import { ReferenceLaunch, createEmpiricalRange, filterLaunches, launchSchema, logBandwidth, parseReferenceDataset } from './reference-class';
+import { BUNDLED_LAUNCHES } from './reference-launches';
+
+const launch = (overrides: Partial<ReferenceLaunch>): ReferenceLaunch => ({
+  name: 'Launch',
+  launchDate: '2024-01',
+  chain: 'ethereum',
+  nftRelated: true,
+  fdvM: 100,
+  airdropPct: 10,
+  ...overrides
+});
+
+describe('parseReferenceDataset', () => {
+  it('reads quoted CSV cells and "" escapes', () => {
+    const csv = [
+      'name,launchDate,chain,nftRelated,fdvM,airdropPct,nftHolderSharePct',
+      '"Pudgy, Inc.",2024-12,solana,yes,"1,000",12,',
+      '"The ""Blur"" drop",2023-02,ethereum,false,400,12.5,50'
+    ].join('\r\n');
+    const result = parseReferenceDataset(csv);
+    expect(result.ok).toBe(true);
+    if (result.ok === false) return;
+    // "1,000" is one cell, and not a number
+    expect(result.skipped).toEqual(['Row 1: fdvM: Expected number, received nan']);
+    expect(result.launches).toEqual([
+      { name: 'The "Blur" drop', launchDate: '2023-02', chain: 'ethereum', nftRelated: false, fdvM: 400, airdropPct: 12.5, nftHolderSharePct: 50 }
+    ]);
+  });
+
+  it.each([
+    ['an array', (rows: unknown[]) => JSON.stringify(rows)],
+    ['{ launches }', (rows: unknown[]) => JSON.stringify({ launches: rows })]
+  ])('reads JSON as %s', (_name, wrap) => {
+    const result = parseReferenceDataset(wrap([launch({ name: 'A' }), launch({ name: 'B', fdvM: 250 })]));
+    expect(result.ok && result.launches.map(l => l.fdvM)).toEqual([100, 250]);
+  });
+
+  it('reports each skipped row with its first problem', () => {
+    const result = parseReferenceDataset(JSON.stringify([
+      launch({ name: 'Good' }),
+      { ...launch({}), launchDate: '2024' },
+      { ...launch({}), airdropPct: 120 },
+      { ...launch({}), chain: undefined }
+    ]));
+    expect(result.ok && result.skipped).toEqual([
+      'Row 2: launchDate: Expected YYYY-MM',
+      'Row 3: airdropPct: Number must be less than or equal to 100',
+      'Row 4: chain: Required'
+    ]);
+  });
+
+  it('rejects files with no usable rows', () => {
+    expect(parseReferenceDataset('{"launches": 3}')).toEqual({ ok: false, message: 'Expected an array of launches or { "launches": [...] }.' });
+    expect(parseReferenceDataset('[{"name": ')).toEqual({ ok: false, message: 'The file is not valid JSON.' });
+    expect(parseReferenceDataset('name,chain\nA,ethereum')).toEqual({ ok: false, message: 'No rows match the dataset format.' });
+  });
+
+  it('accepts every bundled launch', () => {
+    expect(BUNDLED_LAUNCHES.every(l => launchSchema.safeParse(l).success)).toBe(true);
+  });
+});
+
+describe('filterLaunches', () => {
+  const launches = [
+    launch({ name: 'old', launchDate: '2021-06' }),
+    launch({ name: 'defi', nftRelated: false }),
+    launch({ name: 'sol', chain: 'solana', launchDate: '2025-03' })
+  ];
+
+  it('applies each filter and their combination', () => {
+    const names = (filter: Parameters<typeof filterLaunches>[1]) => filterLaunches(launches, filter).map(l => l.name);
+    expect(names({ nftRelatedOnly: false })).toEqual(['old', 'defi', 'sol']);
+    expect(names({ nftRelatedOnly: true })).toEqual(['old', 'sol']);
+    expect(names({ nftRelatedOnly: false, fromYear: 2024 })).toEqual(['defi', 'sol']);
+    expect(names({ nftRelatedOnly: true, fromYear: 2022, chain: 'ethereum' })).toEqual([]);
+    expect(names({ nftRelatedOnly: false, chain: 'solana' })).toEqual(['sol']);
+  });
+});
+
+describe('logBandwidth', () => {
+  it('falls back to a ±10% bump when every value is equal', () => {
+    expect(logBandwidth([50, 50, 50])).toBe(0.1);
+  });
+
+  it('follows Silverman\'s rule on log values', () => {
+    // Logs 0–4: sd 1.581, IQR 2 → spread min(1.581, 2 / 1.349) = 1.483
+    const values = [0, 1, 2, 3, 4].map(Math.exp);
+    expect(logBandwidth(values)).toBeCloseTo(0.9 * (2 / 1.34898) * Math.pow(5, -0.2), 4);
+  });
+});
+
+describe('createEmpiricalRange', () => {
+  const values = [3.3, 12, 48, 150, 2200];
+
+  it.each(['resample', 'kde'] as const)('%s range encloses its samples and passes validation', (smoothing) => {
+    for (const variable of ['fdv', 'drop'] as const) {
+      const range = createEmpiricalRange(variable === 'drop' ? values.map(v => Math.min(v, 90)) : values, variable, smoothing);
+      expect(range.min).toBeLessThanOrEqual(Math.min(...range.samples));
+      expect(range.max).toBeGreaterThanOrEqual(Math.max(...range.samples));
+      if (variable === 'drop') expect(range.max).toBeLessThanOrEqual(100);
+      const field = variable === 'fdv' ? 'fdvRanges' : 'dropRanges';
+      expect(validateAdvancedParams({ ...DEFAULT_ADVANCED_PARAMS, [field]: [range] })).toEqual([]);
+    }
+  });
+
+  it('leaves room for the kernel tails only when smoothing', () => {
+    expect(createEmpiricalRange(values, 'fdv', 'resample')).toMatchObject({ min: 3.3, max: 2200, bandwidth: 0 });
+    const kde = createEmpiricalRange(values, 'fdv', 'kde');
+    expect(kde.bandwidth).toBeGreaterThan(0);
+    expect(kde.min).toBeLessThan(3.3);
+    expect(kde.max).toBeGreaterThan(2200);
+  });
+});
@@ -0,0 +1,239 @@
+// Reference-class forecasting: FDV and Airdrop % distributions from past token launches
+//
+// Dataset format, one launch per row (JSON array, { launches: [...] }, or CSV with a header):
+//   name, launchDate (YYYY-MM), chain, nftRelated (true/false), fdvM (FDV at TGE, $M),
+//   airdropPct (community airdrop, % of total supply), and optionally token,
+//   nftHolderSharePct (share of the airdrop going to NFT holders, %) and collectionSupply.
+//
+// A filtered set of launches becomes one empirical range: either the observed values
+// resampled as-is, or a kernel density estimate in log space (values span orders of
+// magnitude), with Silverman's rule-of-thumb bandwidth.
+
+import { z } from 'zod';
+import { AdvancedSimulationParams, CustomRange, generateRangeId, usesMarketCap } from './advanced-monte-carlo';
+import { normalQuantile } from './stats-math';
+
+export interface ReferenceLaunch {
+  name: string;
+  token?: string;
+  launchDate: string;           // YYYY-MM
+  chain: string;
+  nftRelated: boolean;
+  fdvM: number;                 // FDV at TGE, $M
+  airdropPct: number;           // Community airdrop, % of total supply
+  nftHolderSharePct?: number;   // Share of the airdrop going to NFT holders, %
+  collectionSupply?: number;
+}
+
+export interface ReferenceFilter {
+  nftRelatedOnly: boolean;
+  fromYear?: number;
+  chain?: string;  // Absent = any chain
+}
+
+// The launches behind an empirical range, kept with the params so results can show them
+export interface ReferenceClass {
+  datasetName: string;
+  filter: ReferenceFilter;
+  launches: ReferenceLaunch[];
+}
+
+export type ReferenceVariable = 'fdv' | 'drop';
+
+export const REFERENCE_VARIABLE_LABELS: Record<ReferenceVariable, string> = {
+  fdv: 'FDV',
+  drop: 'Airdrop %'
+};
+export type EmpiricalSmoothing = 'resample' | 'kde';
+
+export const EMPIRICAL_SMOOTHING: Record<EmpiricalSmoothing, { label: string; description: string }> = {
+  resample: {
+    label: 'Resample',
+    description: 'Draws only the observed values'
+  },
+  kde: {
+    label: 'Smoothed (KDE)',
+    description: 'Spreads each observed value over a lognormal bump, filling the gaps between them'
+  }
+};
+
+export const MIN_REFERENCE_LAUNCHES = 3;
+// Kernel tails kept beyond the outermost values, in bandwidths
+const KDE_TAIL_BANDWIDTHS = 3;
+
+export const launchSchema = z.object({
+  name: z.string().min(1),
+  token: z.string().optional(),
+  launchDate: z.string().regex(/^\d{4}-\d{2}$/, 'Expected YYYY-MM'),
+  chain: z.string().min(1),
+  nftRelated: z.boolean(),
+  fdvM: z.number().finite().positive(),
+  airdropPct: z.number().finite().positive().max(100),
+  nftHolderSharePct: z.number().finite().min(0).max(100).optional(),
+  collectionSupply: z.number().int().positive().optional()
+});
+
+export type ReferenceDatasetResult =
+  | { ok: true; launches: ReferenceLaunch[]; skipped: string[] }
+  | { ok: false; message: string };
+
+const NUMERIC_COLUMNS = ['fdvM', 'airdropPct', 'nftHolderSharePct', 'collectionSupply'];
+
+// Split one CSV line, honouring double-quoted fields
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+// CSV rows as objects typed for the schema; blank cells are left out
+function parseCsvRows(text: string): Record<string, unknown>[] {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  const header = splitCsvLine(lines[0] ?? '');
+  return lines.slice(1).map(line => {
+    const row: Record<string, unknown> = {};
+    splitCsvLine(line).forEach((cell, i) => {
+      const key = header[i];
+      if (!key || cell === '') return;
+      if (key === 'nftRelated') {
+        row[key] = /^(true|yes|1)$/i.test(cell);
+      } else if (NUMERIC_COLUMNS.includes(key)) {
+        row[key] = Number(cell);
+      } else {
+        row[key] = cell;
+      }
+    });
+    return row;
+  });
+}
+
+// Parse a JSON or CSV dataset; rows that do not fit the format are skipped and reported
+export function parseReferenceDataset(text: string): ReferenceDatasetResult {
+  let rows: unknown[];
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(trimmed);
+    } catch {
+      return { ok: false, message: 'The file is not valid JSON.' };
+    }
+    const list = Array.isArray(raw) ? raw : (raw as { launches?: unknown })?.launches;
+    if (!Array.isArray(list)) return { ok: false, message: 'Expected an array of launches or { "launches": [...] }.' };
+    rows = list;
+  } else {
+    rows = parseCsvRows(trimmed);
+  }
+
+  const launches: ReferenceLaunch[] = [];
+  const skipped: string[] = [];
+  rows.forEach((row, index) => {
+    const parsed = launchSchema.safeParse(row);
+    if (parsed.success) {
+      launches.push(parsed.data as ReferenceLaunch);
+    } else {
+      const issue = parsed.error.issues[0];
+      skipped.push(`Row ${index + 1}: ${issue.path.join('.') || 'row'}: ${issue.message}`);
+    }
+  });
+  if (launches.length === 0) return { ok: false, message: 'No rows match the dataset format.' };
+  return { ok: true, launches, skipped };
+}
+
+export function launchYear(launch: ReferenceLaunch): number {
+  return parseInt(launch.launchDate.slice(0, 4));
+}
+
+export function filterLaunches(launches: ReferenceLaunch[], filter: ReferenceFilter): ReferenceLaunch[] {
+  return launches.filter(launch =>
+    (!filter.nftRelatedOnly || launch.nftRelated) &&
+    (filter.fromYear === undefined || launchYear(launch) >= filter.fromYear) &&
+    (!filter.chain || launch.chain === filter.chain)
+  );
+}
+
+// Short description such as "NFT-related • 2024+ • solana"
+export function describeFilter(filter: ReferenceFilter): string {
+  const parts = [
+    filter.nftRelatedOnly ? 'NFT-related' : undefined,
+    filter.fromYear !== undefined ? `${filter.fromYear}+` : undefined,
+    filter.chain
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' • ') : 'All launches';
+}
+
+export function launchChains(launches: ReferenceLaunch[]): string[] {
+  return Array.from(new Set(launches.map(launch => launch.chain))).sort();
+}
+
+export function referenceValues(launches: ReferenceLaunch[], variable: ReferenceVariable): number[] {
+  return launches.map(launch => (variable === 'fdv' ? launch.fdvM : launch.airdropPct));
+}
+
+// Silverman's rule of thumb on log values: 0.9 · min(sd, IQR / 1.34) · n^(-1/5)
+export function logBandwidth(values: number[]): number {
+  const logs = values.map(v => Math.log(v)).sort((a, b) => a - b);
+  const n = logs.length;
+  const mean = logs.reduce((a, b) => a + b, 0) / n;
+  const sd = Math.sqrt(logs.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / Math.max(1, n - 1));
+  const iqr = logs[Math.floor(0.75 * (n - 1))] - logs[Math.floor(0.25 * (n - 1))];
+  const spread = iqr > 0 ? Math.min(sd, iqr / (2 * normalQuantile(0.75))) : sd;
+  // All values equal: fall back to a ±10% bump
+  return spread > 0 ? 0.9 * spread * Math.pow(n, -0.2) : 0.1;
+}
+
+// One empirical range over the reference values
+export function createEmpiricalRange(
+  values: number[],
+  variable: ReferenceVariable,
+  smoothing: EmpiricalSmoothing
+): CustomRange {
+  const low = Math.min(...values);
+  const high = Math.max(...values);
+  const bandwidth = smoothing === 'kde' ? Number(logBandwidth(values).toFixed(3)) : 0;
+  const tail = Math.exp(KDE_TAIL_BANDWIDTHS * bandwidth);
+  const upper = variable === 'drop' ? Math.min(100, high * tail) : high * tail;
+  return {
+    id: generateRangeId(),
+    // Rounded for display, never inside the observed values
+    min: Math.min(low, Number((low / tail).toPrecision(4))),
+    max: Math.max(high, Number(upper.toPrecision(4))),
+    distributionType: 'empirical',
+    samples: values,
+    bandwidth,
+    weight: 100
+  };
+}
+
+// Reference classes still behind an empirical range of the params, by variable
+export function activeReferenceClasses(params: AdvancedSimulationParams): [ReferenceVariable, ReferenceClass][] {
+  const ranges: Record<ReferenceVariable, CustomRange[]> = {
+    fdv: usesMarketCap(params) ? [] : params.fdvRanges,
+    drop: params.dropRanges
+  };
+  return (Object.keys(ranges) as ReferenceVariable[])
+    .filter(variable => params.referenceClasses?.[variable] && ranges[variable].some(r => r.distributionType === 'empirical'))
+    .map(variable => [variable, params.referenceClasses[variable]]);
+}
@@ -0,0 +1,26 @@
+// Bundled reference dataset of past token launches
+//
+// APPROXIMATE figures, rounded from public reporting around each launch: FDV uses the
+// early trading price × total supply, which moved a lot in the first days, and airdrop
+// shares count the allocation claimable at TGE. Treat them as a starting point and load
+// a checked dataset of your own (same fields, JSON or CSV) for real decisions.
+
+import { ReferenceLaunch } from './reference-class';
+
+export const BUNDLED_DATASET_NAME = 'Bundled sample (approximate)';
+
+export const BUNDLED_LAUNCHES: ReferenceLaunch[] = [
+  { name: 'SuperRare', token: 'RARE', launchDate: '2021-08', chain: 'ethereum', nftRelated: true, fdvM: 1500, airdropPct: 15 },
+  { name: 'ENS', token: 'ENS', launchDate: '2021-11', chain: 'ethereum', nftRelated: false, fdvM: 4000, airdropPct: 25 },
+  { name: 'LooksRare', token: 'LOOKS', launchDate: '2022-01', chain: 'ethereum', nftRelated: true, fdvM: 2000, airdropPct: 12 },
+  { name: 'ApeCoin', token: 'APE', launchDate: '2022-03', chain: 'ethereum', nftRelated: true, fdvM: 8000, airdropPct: 15, nftHolderSharePct: 100, collectionSupply: 30000 },
+  { name: 'Blur', token: 'BLUR', launchDate: '2023-02', chain: 'ethereum', nftRelated: true, fdvM: 2500, airdropPct: 12 },
+  { name: 'Arbitrum', token: 'ARB', launchDate: '2023-03', chain: 'arbitrum', nftRelated: false, fdvM: 12000, airdropPct: 11.6 },
+  { name: 'Jito', token: 'JTO', launchDate: '2023-12', chain: 'solana', nftRelated: false, fdvM: 2500, airdropPct: 10 },
+  { name: 'Jupiter', token: 'JUP', launchDate: '2024-01', chain: 'solana', nftRelated: false, fdvM: 6000, airdropPct: 10 },
+  { name: 'Tensor', token: 'TNSR', launchDate: '2024-04', chain: 'solana', nftRelated: true, fdvM: 1500, airdropPct: 12.5 },
+  { name: 'Magic Eden', token: 'ME', launchDate: '2024-12', chain: 'solana', nftRelated: true, fdvM: 5000, airdropPct: 12.5 },
+  { name: 'Pudgy Penguins', token: 'PENGU', launchDate: '2024-12', chain: 'solana', nftRelated: true, fdvM: 3500, airdropPct: 25.9, collectionSupply: 8888 },
+  { name: 'Azuki', token: 'ANIME', launchDate: '2025-01', chain: 'arbitrum', nftRelated: true, fdvM: 500, airdropPct: 37.5, nftHolderSharePct: 50, collectionSupply: 10000 },
+  { name: 'Zora', token: 'ZORA', launchDate: '2025-04', chain: 'base', nftRelated: true, fdvM: 300, airdropPct: 10 }
+];
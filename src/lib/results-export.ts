@@ -0,0 +1,185 @@
+// Export of simulation results for use outside the app (spreadsheets, notebooks)
+//
+// - JSON: the full results object plus the inputs and seed that produced it
+// - CSV: the same content as consecutive tables separated by blank lines
+// - Raw samples: one value per NFT per draw, as a single-column CSV or as
+//   little-endian float64 binary (numpy: np.fromfile(path, dtype='<f8'))
+
+import { SimulationResults } from './engine-core';
+import { Scenario, serializeScenario } from './scenario';
+
+export const RESULTS_EXPORT_VERSION = 1;
+
+export interface ResultsExport {
+  version: number;
+  exportedAt: string;
+  mode: Scenario['mode'];
+  params: object;
+  thresholds: number[];
+  seed: number;
+  numSamples: number;
+  stats: SimulationResults['stats'];
+  histogram: SimulationResults['histogram'];
+  exceedance: SimulationResults['exceedance'];
+  thresholdProbs: SimulationResults['thresholdProbs'];
+  intervals?: SimulationResults['intervals'];  // 95% Monte Carlo CIs
+  sampling: NonNullable<SimulationResults['sampling']>;
+  samplingEfficiency?: SimulationResults['samplingEfficiency'];
+  realized?: SimulationResults['realized'];
+  allocations?: SimulationResults['allocations'];
+  worstCase: number;
+  bestCase: number;
+  executionTimeMs: number;
+}
+
+export function buildResultsExport(scenario: Scenario, results: SimulationResults): ResultsExport {
+  const { mode, params, thresholds } = serializeScenario(scenario);
+  return {
+    version: RESULTS_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    mode,
+    params,
+    thresholds,
+    seed: results.seed,
+    numSamples: results.numSamples ?? scenario.params.numSimulations,
+    stats: results.stats,
+    histogram: results.histogram,
+    exceedance: results.exceedance,
+    thresholdProbs: results.thresholdProbs,
+    intervals: results.intervals,
+    sampling: results.sampling ?? 'pseudoRandom',
+    samplingEfficiency: results.samplingEfficiency,
+    realized: results.realized,
+    allocations: results.allocations,
+    worstCase: results.worstCase,
+    bestCase: results.bestCase,
+    executionTimeMs: results.executionTimeMs
+  };
+}
+
+export function resultsToJson(data: ResultsExport): string {
+  return JSON.stringify(data, null, 2);
+}
+
+function csvCell(value: unknown): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRow(cells: unknown[]): string {
+  return cells.map(csvCell).join(',');
+}
+
+// Flatten nested params into dotted keys, e.g. fdvRanges.0.min
+function flattenParams(value: unknown, prefix: string, rows: [string, unknown][]): void {
+  if (value !== null && typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      flattenParams(child, prefix ? `${prefix}.${key}` : key, rows);
+    }
+  } else if (value !== undefined) {
+    rows.push([prefix, value]);
+  }
+}
+
+export function resultsToCsv(data: ResultsExport): string {
+  const params: [string, unknown][] = [];
+  flattenParams(data.params, '', params);
+
+  const run = [
+    csvRow(['field', 'value']),
+    csvRow(['mode', data.mode]),
+    csvRow(['seed', data.seed]),
+    csvRow(['numSamples', data.numSamples]),
+    csvRow(['sampling', data.sampling]),
+    ...(data.samplingEfficiency
+      ? [
+          csvRow(['samplingEfficiencyMedian', data.samplingEfficiency.median]),
+          csvRow(['samplingEfficiencyMean', data.samplingEfficiency.mean])
+        ]
+      : []),
+    csvRow(['worstCase', data.worstCase]),
+    csvRow(['bestCase', data.bestCase]),
+    csvRow(['executionTimeMs', data.executionTimeMs]),
+    csvRow(['exportedAt', data.exportedAt])
+  ];
+  const inputs = [csvRow(['param', 'value']), ...params.map(([key, value]) => csvRow([key, value]))];
+  const statIntervals: Partial<Record<string, { low: number; high: number }>> = data.intervals?.stats ?? {};
+  const probIntervals: Partial<Record<string, { low: number; high: number }>> = data.intervals?.thresholdProbs ?? {};
+  const stats = [
+    csvRow(['stat', 'value', 'ci95Low', 'ci95High']),
+    ...Object.entries(data.stats).map(([key, value]) => csvRow([key, value, statIntervals[key]?.low ?? '', statIntervals[key]?.high ?? '']))
+  ];
+  const thresholds = [
+    csvRow(['threshold', 'probability', 'ci95Low', 'ci95High']),
+    ...Object.entries(data.thresholdProbs).map(([threshold, prob]) =>
+      csvRow([threshold, prob, probIntervals[threshold]?.low ?? '', probIntervals[threshold]?.high ?? ''])
+    )
+  ];
+  const histogram = [
+    csvRow(['binStart', 'binEnd', 'count', 'density']),
+    ...data.histogram.map(bin => csvRow([bin.binStart, bin.binEnd, bin.count, bin.density]))
+  ];
+
+  const exceedance = [
+    csvRow(['value', 'probAtLeast']),
+    ...(data.exceedance ?? []).map(point => csvRow([point.value, point.prob]))
+  ];
+
+  const tables = [run, inputs, stats, thresholds, histogram, exceedance];
+  if (data.realized) {
+    // Vesting runs: realized-value summary next to the value at TGE
+    tables.push(
+      [csvRow(['realizedStat', 'value']), ...Object.entries(data.realized.stats).map(([key, value]) => csvRow([key, value]))],
+      [
+        csvRow(['threshold', 'realizedProbability']),
+        ...Object.entries(data.realized.thresholdProbs).map(([threshold, prob]) => csvRow([threshold, prob]))
+      ]
+    );
+  }
+
+  if (data.allocations && data.allocations.length > 0) {
+    // Rarity tiers: one row per tier (and holding) with its stats and threshold probabilities
+    const statKeys = Object.keys(data.allocations[0].stats) as (keyof SimulationResults['stats'])[];
+    tables.push([
+      csvRow(['tier', 'factor', ...statKeys, ...data.thresholds.map(t => `probAtLeast_${t}`)]),
+      ...data.allocations.map(a =>
+        csvRow([a.name, a.factor, ...statKeys.map(key => a.stats[key]), ...data.thresholds.map(t => a.thresholdProbs[t] ?? '')])
+      )
+    ]);
+  }
+
+  return tables.map(table => table.join('\n')).join('\n\n') + '\n';
+}
+
+// Single-column CSV of raw values per NFT
+export function samplesToCsv(values: Float64Array): string {
+  const lines = new Array<string>(values.length + 1);
+  lines[0] = 'value_per_nft';
+  for (let i = 0; i < values.length; i++) lines[i + 1] = String(values[i]);
+  return lines.join('\n') + '\n';
+}
+
+// Raw values as little-endian float64, independent of the platform byte order
+export function samplesToBinary(values: Float64Array): ArrayBuffer {
+  const buffer = new ArrayBuffer(values.length * 8);
+  const view = new DataView(buffer);
+  for (let i = 0; i < values.length; i++) view.setFloat64(i * 8, values[i], true);
+  return buffer;
+}
+
+export function exportFileName(data: ResultsExport, kind: string, extension: string): string {
+  return `airdrop-${data.mode}-${kind}-seed${data.seed}.${extension}`;
+}
+
+// Trigger a browser download for generated content
+export function downloadFile(content: BlobPart, fileName: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke after the click has been handled so the download can start
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
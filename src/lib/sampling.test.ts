@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_ADVANCED_PARAMS, runAdvancedSimulation } from './advanced-monte-carlo';
+import { EngineModel, runEngine } from './engine-core';
+import { Xoshiro128 } from './prng';
+import { MAX_SOBOL_DIMENSIONS, SAMPLING_REPLICATES, SamplingStrategy, createPointSet } from './sampling';
+
+const STRATEGIES: SamplingStrategy[] = ['pseudoRandom', 'latinHypercube', 'sobol'];
+
+// Design points of a run, grouped by replicate (sample i belongs to replicate i mod R)
+function replicatePoints(strategy: SamplingStrategy, numSamples: number, dimensions: number): Float64Array[][] {
+  const pointSet = createPointSet(strategy, numSamples, dimensions, new Xoshiro128(9));
+  if (!pointSet) throw new Error(`${strategy} has no design`);
+  const replicates: Float64Array[][] = Array.from({ length: SAMPLING_REPLICATES }, () => []);
+  for (let i = 0; i < numSamples; i++) {
+    const point = new Float64Array(dimensions);
+    pointSet.nextPoint(point);
+    replicates[i % SAMPLING_REPLICATES].push(point);
+  }
+  return replicates;
+}
+
+// Whether the coordinates hit each of `slices` equal slices of [0, 1) exactly once
+function oncePerSlice(coordinates: number[], slices: number): boolean {
+  const hits = new Uint32Array(slices);
+  for (const x of coordinates) hits[Math.floor(x * slices)]++;
+  return hits.every(count => count === 1);
+}
+
+describe('Latin hypercube', () => {
+  it('puts one draw in every slice of every coordinate, per replicate', () => {
+    // 1003 samples: replicates of 101 and 100 points
+    const replicates = replicatePoints('latinHypercube', 1003, 12);
+    for (const points of replicates) {
+      for (let d = 0; d < 12; d++) expect(oncePerSlice(points.map(p => p[d]), points.length)).toBe(true);
+    }
+  });
+});
+
+describe('Sobol', () => {
+  const SIZE = 256;
+  const replicates = replicatePoints('sobol', SIZE * SAMPLING_REPLICATES, MAX_SOBOL_DIMENSIONS);
+
+  it('stratifies every dimension at each power of two, per replicate', () => {
+    for (const points of replicates) {
+      for (let d = 0; d < MAX_SOBOL_DIMENSIONS; d++) {
+        for (const size of [2, 16, SIZE]) expect(oncePerSlice(points.slice(0, size).map(p => p[d]), size)).toBe(true);
+      }
+    }
+  });
+
+  it('fills every elementary box of the first two dimensions once (a (0, m, 2)-net)', () => {
+    for (const points of replicates) {
+      for (let bits = 0; bits <= 8; bits++) {
+        const rows = 2 ** bits;
+        const cols = SIZE / rows;
+        const boxes = new Set(points.map(p => Math.floor(p[0] * rows) * cols + Math.floor(p[1] * cols)));
+        expect(boxes.size).toBe(SIZE);
+      }
+    }
+  });
+
+  it('reproduces the Joe & Kuo points of dimension 3 after removing the shift', () => {
+    // Direction numbers 1/2, 3/4, 3/8 (s = 2, a = 1, m = 1, 3) visited in Gray-code order. The
+    // digital shift XORs every point with the same word, which the first point reveals.
+    const expected = [0, 0.5, 0.25, 0.75, 0.625, 0.125, 0.875, 0.375];
+    const bits = (x: number) => Math.floor(x * 2 ** 32) >>> 0;
+    for (const points of replicates) {
+      const shift = bits(points[0][2]);
+      const unshifted = points.slice(0, 8).map(p => ((bits(p[2]) ^ shift) >>> 0) / 2 ** 32);
+      expect(unshifted).toEqual(expected);
+    }
+  });
+});
+
+// A smooth model: value = FDV × Drop% with both uniform
+const smoothModel = (sampling: SamplingStrategy): EngineModel => ({
+  nftSupply: 1,
+  numSimulations: 20_000,
+  seed: 5,
+  sampleFDV: rng => 100 + 900 * rng.next(),
+  sampleDrop: rng => 0.05 + 0.1 * rng.next(),
+  sampling,
+  worstCase: 5,
+  bestCase: 135
+});
+
+describe('sampling strategies', () => {
+  it.each(STRATEGIES)('%s reproduces a seeded run exactly', (sampling) => {
+    const params = { ...DEFAULT_ADVANCED_PARAMS, numSimulations: 5000, seed: 21, sampling };
+    const first = runAdvancedSimulation(params, [100], { retainValues: true });
+    const second = runAdvancedSimulation(params, [100], { retainValues: true });
+    expect(second.values).toEqual(first.values);
+    const reseeded = runAdvancedSimulation({ ...params, seed: 22 }, [100], { retainValues: true });
+    expect(reseeded.values).not.toEqual(first.values);
+  });
+
+  it.each(['latinHypercube', 'sobol'] as const)('%s gives narrower intervals than pseudo-random on a smooth model', (sampling) => {
+    const width = ({ low, high }: { low: number; high: number }) => high - low;
+    const pseudo = runEngine(smoothModel('pseudoRandom'), [50]);
+    const design = runEngine(smoothModel(sampling), [50]);
+    expect(width(design.intervals.stats.mean)).toBeLessThan(width(pseudo.intervals.stats.mean) / 2);
+    expect(width(design.intervals.stats.median)).toBeLessThan(width(pseudo.intervals.stats.median));
+    expect(width(design.intervals.thresholdProbs[50])).toBeLessThan(width(pseudo.intervals.thresholdProbs[50]));
+    expect(design.samplingEfficiency?.mean).toBeGreaterThan(2);
+  });
+});
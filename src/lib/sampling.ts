@@ -0,0 +1,224 @@
+// Sampling strategies for the Monte Carlo engine
+//
+// Pseudo-random: independent xoshiro128** draws (the default).
+// Latin hypercube: every coordinate is stratified into n equal slices with one point per slice,
+//   the slices shuffled independently per coordinate.
+// Sobol: low-discrepancy points (Joe & Kuo direction numbers) with a random digital shift.
+//
+// Each model variable gets a block of coordinates; its sampler's first draws per sample read
+// those coordinates through DesignSource and any further draws (e.g. rejection sampling) fall
+// back to the variable's pseudo-random stream. So every existing inverse-CDF sampler is used
+// unchanged.
+//
+// Error estimates: LHS and Sobol points are not independent, so the usual i.i.d. intervals do
+// not apply. The run is split into interleaved replicates (independent shuffles or shifts) and
+// the error of each estimate comes from the spread between replicates.
+
+import { RandomSource } from './prng';
+
+export type SamplingStrategy = 'pseudoRandom' | 'latinHypercube' | 'sobol';
+
+export const SAMPLING_STRATEGIES: Record<SamplingStrategy, { label: string; description: string }> = {
+  pseudoRandom: { label: 'Pseudo-random', description: 'Independent random draws' },
+  latinHypercube: { label: 'Latin hypercube', description: 'Stratified: every slice of each input is sampled once' },
+  sobol: { label: 'Sobol (quasi-random)', description: 'Low-discrepancy points that fill the space evenly' },
+};
+
+export function isSamplingStrategy(value: string): value is SamplingStrategy {
+  return value in SAMPLING_STRATEGIES;
+}
+
+// Error message for a strategy choice, or null when it is usable. LHS needs the sample count
+// up front and both designs estimate their error from whole replicates, so auto-stop is
+// pseudo-random only.
+export function validateSampling(sampling: string | undefined, targetPrecision: number | undefined): string | null {
+  if (sampling === undefined) return null;
+  if (!isSamplingStrategy(sampling)) return 'Unknown sampling strategy';
+  if (sampling !== 'pseudoRandom' && targetPrecision !== undefined) {
+    return 'Auto-stop works with pseudo-random sampling only';
+  }
+  return null;
+}
+
+// Coordinates reserved for each model variable (FDV, Drop%, holder share)
+export const DIMENSIONS_PER_VARIABLE = 4;
+// Independent replicates used to estimate the error of LHS and Sobol runs
+export const SAMPLING_REPLICATES = 10;
+
+// Produces the design point of each sample, in draw order
+export interface PointSet {
+  nextPoint(out: Float64Array): void;
+}
+
+// Reads the current design point for the first `count` draws, then falls back
+export class DesignSource implements RandomSource {
+  private used = 0;
+
+  constructor(
+    private readonly point: Float64Array,
+    private readonly offset: number,
+    private readonly count: number,
+    private readonly fallback: RandomSource
+  ) {}
+
+  // Start of a new sample
+  reset(): void {
+    this.used = 0;
+  }
+
+  next(): number {
+    return this.used < this.count ? this.point[this.offset + this.used++] : this.fallback.next();
+  }
+}
+
+// Replicate of sample i (its index within the replicate is floor(i / R)); replicates are interleaved so
+// every prefix of the run covers all of them
+function replicateOf(i: number): number {
+  return i % SAMPLING_REPLICATES;
+}
+
+function replicateSize(numSamples: number, replicate: number): number {
+  return Math.ceil((numSamples - replicate) / SAMPLING_REPLICATES);
+}
+
+// Random integer in [0, n)
+function randomIndex(rng: RandomSource, n: number): number {
+  return Math.floor(rng.next() * n);
+}
+
+function createLatinHypercube(numSamples: number, dimensions: number, rng: RandomSource): PointSet {
+  // strata[d][offset_r + k] = slice of coordinate d for point k of replicate r
+  const offsets: number[] = [];
+  let total = 0;
+  for (let r = 0; r < SAMPLING_REPLICATES; r++) {
+    offsets.push(total);
+    total += Math.max(0, replicateSize(numSamples, r));
+  }
+  const strata = Array.from({ length: dimensions }, () => {
+    const slices = new Uint32Array(total);
+    for (let r = 0; r < SAMPLING_REPLICATES; r++) {
+      const size = replicateSize(numSamples, r);
+      const start = offsets[r];
+      for (let k = 0; k < size; k++) slices[start + k] = k;
+      // Fisher-Yates shuffle within the replicate
+      for (let k = size - 1; k > 0; k--) {
+        const j = randomIndex(rng, k + 1);
+        const tmp = slices[start + k];
+        slices[start + k] = slices[start + j];
+        slices[start + j] = tmp;
+      }
+    }
+    return slices;
+  });
+
+  let i = 0;
+  return {
+    nextPoint(out) {
+      const r = replicateOf(i);
+      const k = Math.floor(i / SAMPLING_REPLICATES);
+      const size = replicateSize(numSamples, r);
+      for (let d = 0; d < dimensions; d++) {
+        out[d] = (strata[d][offsets[r] + k] + rng.next()) / size;
+      }
+      i++;
+    }
+  };
+}
+
+// Joe & Kuo (2008) new-joe-kuo-6.21201, dimensions 2-16: degree s, polynomial a, initial m_1..m_s
+const SOBOL_PARAMETERS: [number, number, number[]][] = [
+  [1, 0, [1]],
+  [2, 1, [1, 3]],
+  [3, 1, [1, 3, 1]],
+  [3, 2, [1, 1, 1]],
+  [4, 1, [1, 1, 3, 3]],
+  [4, 4, [1, 3, 5, 13]],
+  [5, 2, [1, 1, 5, 5, 17]],
+  [5, 4, [1, 1, 5, 5, 5]],
+  [5, 7, [1, 1, 7, 11, 19]],
+  [5, 11, [1, 1, 5, 1, 1]],
+  [5, 13, [1, 1, 1, 3, 11]],
+  [5, 14, [1, 3, 5, 5, 31]],
+  [6, 1, [1, 3, 3, 9, 7, 49]],
+  [6, 13, [1, 1, 1, 15, 21, 21]],
+  [6, 16, [1, 3, 1, 13, 27, 49]],
+];
+
+export const MAX_SOBOL_DIMENSIONS = SOBOL_PARAMETERS.length + 1;
+
+const SOBOL_BITS = 32;
+const TWO_POW_32 = 4294967296;
+
+// 32 direction numbers per dimension, scaled to 32-bit integers
+function sobolDirections(dimension: number): Uint32Array {
+  const v = new Uint32Array(SOBOL_BITS);
+  if (dimension === 0) {
+    // First dimension: van der Corput sequence in base 2
+    for (let i = 0; i < SOBOL_BITS; i++) v[i] = (1 << (31 - i)) >>> 0;
+    return v;
+  }
+  const [s, a, m] = SOBOL_PARAMETERS[dimension - 1];
+  for (let i = 0; i < SOBOL_BITS; i++) {
+    if (i < s) {
+      v[i] = (m[i] << (31 - i)) >>> 0;
+    } else {
+      let value = v[i - s] ^ (v[i - s] >>> s);
+      for (let k = 1; k < s; k++) {
+        if ((a >>> (s - 1 - k)) & 1) value ^= v[i - k];
+      }
+      v[i] = value >>> 0;
+    }
+  }
+  return v;
+}
+
+function createSobol(dimensions: number, rng: RandomSource): PointSet {
+  if (dimensions > MAX_SOBOL_DIMENSIONS) {
+    throw new Error(`Sobol sampling supports at most ${MAX_SOBOL_DIMENSIONS} dimensions`);
+  }
+  const directions = Array.from({ length: dimensions }, (_, d) => sobolDirections(d));
+  // One random digital shift per replicate and dimension
+  const shifts = Array.from({ length: SAMPLING_REPLICATES }, () =>
+    Array.from({ length: dimensions }, () => Math.floor(rng.next() * TWO_POW_32) >>> 0)
+  );
+  // Unshifted point k, advanced in Gray-code order once per round of replicates
+  const x = new Uint32Array(dimensions);
+  let k = 0;
+  let i = 0;
+
+  return {
+    nextPoint(out) {
+      const r = replicateOf(i);
+      if (r === 0 && i > 0) {
+        // Flip the direction number of the lowest zero bit of k
+        let c = 0;
+        while ((k >>> c) & 1) c++;
+        for (let d = 0; d < dimensions; d++) x[d] ^= directions[d][c];
+        k++;
+      }
+      const shift = shifts[r];
+      for (let d = 0; d < dimensions; d++) {
+        // Offset by half a grid step so no coordinate is exactly 0
+        out[d] = (((x[d] ^ shift[d]) >>> 0) + 0.5) / TWO_POW_32;
+      }
+      i++;
+    }
+  };
+}
+
+// Design points for a run, or null for pseudo-random sampling
+export function createPointSet(
+  strategy: SamplingStrategy,
+  numSamples: number,
+  dimensions: number,
+  rng: RandomSource
+): PointSet | null {
+  switch (strategy) {
+    case 'latinHypercube':
+      return createLatinHypercube(numSamples, dimensions, rng);
+    case 'sobol':
+      return createSobol(dimensions, rng);
+    default:
+      return null;
+  }
+}
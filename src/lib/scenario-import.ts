@@ -0,0 +1,249 @@
+// Import of scenario files authored outside the app (spreadsheets, scripts)
+//
+// File format (version 1): { version: 1, mode: 'classic' | 'advanced', params, thresholds? }
+// Exported results files have the same top-level fields and import as-is.
+// Unversioned files are migrated: either { mode, params, thresholds? } or bare params,
+// with the mode inferred from the fields present.
+//
+// The zod schema checks structure and types; a file that fails it is rejected as a whole and
+// its issues are reported as file-level messages (nothing was loaded to point at). Files that
+// pass are loaded and checked with the regular validators, so out-of-range values show up
+// inline on the form, exactly like hand-entered ones.
+//
+// Share links and saved scenarios go through the same migrations and schema (parseScenario),
+// so a stale or hand-edited one cannot put malformed values into the form or the engine.
+
+import { z } from 'zod';
+import { SimpleSimulationParams, validateParams } from './simple-monte-carlo';
+import { AdvancedSimulationParams, AdvancedValidationError, generateRangeId, validateAdvancedParams } from './advanced-monte-carlo';
+import { DEFAULT_THRESHOLDS, Scenario } from './scenario';
+import { launchSchema } from './reference-class';
+
+export const SCENARIO_FILE_VERSION = 1;
+
+const finite = z.number().finite();
+
+const samplingSchema = z.enum(['pseudoRandom', 'latinHypercube', 'sobol']);
+
+const rangeSchema = z.object({
+  id: z.string().optional(),
+  min: finite,
+  max: finite,
+  distributionType: z.enum([
+    'uniform',
+    'linearDecreasing',
+    'linearIncreasing',
+    'predictionCentric',
+    'logUniform',
+    'lognormal',
+    'pert',
+    'triangular',
+    'trapezoid',
+    'truncatedExponential',
+    'empirical'
+  ]),
+  expectedMin: finite.optional(),
+  expectedMax: finite.optional(),
+  mode: finite.optional(),
+  plateauMin: finite.optional(),
+  plateauMax: finite.optional(),
+  median: finite.optional(),
+  sigma: finite.optional(),
+  halfLife: finite.optional(),
+  samples: z.array(finite).optional(),
+  bandwidth: finite.optional(),
+  weight: finite
+});
+
+const classicParamsSchema = z.object({
+  nftSupply: finite,
+  fdvMinM: finite,
+  fdvMaxM: finite,
+  dropMinPct: finite,
+  dropMaxPct: finite,
+  numSimulations: z.number().int(),
+  seed: z.number().int().optional(),
+  targetPrecision: finite.optional(),
+  sampling: samplingSchema.optional()
+});
+
+const referenceClassSchema = z.object({
+  datasetName: z.string(),
+  filter: z.object({
+    nftRelatedOnly: z.boolean(),
+    fromYear: z.number().int().optional(),
+    chain: z.string().optional()
+  }),
+  launches: z.array(launchSchema)
+});
+
+const advancedParamsSchema = z.object({
+  nftSupply: finite,
+  valuationBasis: z.enum(['fdv', 'marketCap']).optional(),
+  fdvRanges: z.array(rangeSchema),
+  marketCapRanges: z.array(rangeSchema).optional(),
+  floatRanges: z.array(rangeSchema).optional(),
+  dropRanges: z.array(rangeSchema),
+  holderShareRanges: z.array(rangeSchema).optional(),
+  numSimulations: z.number().int(),
+  seed: z.number().int().optional(),
+  targetPrecision: finite.optional(),
+  sampling: samplingSchema.optional(),
+  correlation: z.object({
+    copula: z.enum(['gaussian', 'clayton', 'gumbel']),
+    rankCorrelation: finite
+  }).optional(),
+  vesting: z.object({
+    tgeUnlockPct: finite,
+    cliffMonths: finite,
+    linearMonths: finite,
+    annualDriftPct: finite,
+    annualVolatilityPct: finite
+  }).optional(),
+  rarityTiers: z.array(z.object({
+    name: z.string(),
+    count: z.number().int(),
+    multiplier: finite,
+    held: z.number().int()
+  })).optional(),
+  referenceClasses: z.object({
+    fdv: referenceClassSchema.optional(),
+    drop: referenceClassSchema.optional()
+  }).optional()
+});
+
+const thresholdsSchema = z.array(finite.positive()).optional();
+
+const scenarioFileSchema = z.discriminatedUnion('mode', [
+  z.object({ version: z.literal(SCENARIO_FILE_VERSION), mode: z.literal('classic'), params: classicParamsSchema, thresholds: thresholdsSchema }),
+  z.object({ version: z.literal(SCENARIO_FILE_VERSION), mode: z.literal('advanced'), params: advancedParamsSchema, thresholds: thresholdsSchema })
+]);
+
+type FileDocument = Record<string, unknown> & { version: number };
+
+const RANGE_LABELS = {
+  fdvRanges: 'FDV',
+  marketCapRanges: 'Market Cap',
+  floatRanges: 'Circulating Float',
+  dropRanges: 'Airdrop %',
+  holderShareRanges: 'Holder Share'
+};
+type RangeField = keyof typeof RANGE_LABELS;
+const RANGE_FIELDS = Object.keys(RANGE_LABELS) as RangeField[];
+
+// MIGRATIONS[n] upgrades a version-n file to version n + 1 (version 0 = unversioned)
+const MIGRATIONS: Record<number, (doc: FileDocument) => FileDocument> = {
+  0: (doc) => {
+    const wrapped: Record<string, unknown> = 'params' in doc ? doc : { params: doc };
+    const params = wrapped.params as Record<string, unknown> | undefined;
+    const mode = wrapped.mode ?? (params && 'fdvRanges' in params ? 'advanced' : 'classic');
+    return { ...wrapped, version: 1, mode };
+  }
+};
+
+export type ScenarioImportResult =
+  | {
+      ok: true;
+      scenario: Scenario;
+      // Values that load but need fixing before a run, keyed like the form's own errors
+      errors: AdvancedValidationError[];
+      migratedFrom?: number;
+    }
+  | { ok: false; message: string; issues: string[] };
+
+function reject(message: string, issues: string[] = []): ScenarioImportResult {
+  return { ok: false, message, issues };
+}
+
+// Describe a schema issue by where it sits in the file, e.g. "FDV range 2: max: Required"
+function describeIssue(issue: z.ZodIssue): string {
+  const [section, field, index, ...rest] = issue.path;
+  if (section !== 'params' || field === undefined) {
+    return section === undefined ? issue.message : `${String(section)}: ${issue.message}`;
+  }
+  if (typeof field === 'string' && field in RANGE_LABELS && typeof index === 'number') {
+    const detail = rest.length > 0 ? `${rest.join('.')}: ` : '';
+    return `${RANGE_LABELS[field as RangeField]} range ${index + 1}: ${detail}${issue.message}`;
+  }
+  return `${issue.path.slice(1).join('.')}: ${issue.message}`;
+}
+
+// Fresh ids for every range set in the loaded params
+function withRangeIds(params: AdvancedSimulationParams): AdvancedSimulationParams {
+  const withIds: AdvancedSimulationParams = { ...params };
+  for (const field of RANGE_FIELDS) {
+    const ranges = params[field];
+    if (ranges) withIds[field] = ranges.map(range => ({ ...range, id: generateRangeId() }));
+  }
+  return withIds;
+}
+
+type ParsedDocument =
+  | { ok: true; scenario: Scenario; migratedFrom?: number }
+  | { ok: false; message: string; issues: string[] };
+
+// Migrate a scenario document of any version and check it against the schema
+function parseDocument(raw: unknown): ParsedDocument {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { ok: false, message: 'The file does not contain a scenario object.', issues: [] };
+  }
+
+  const version = (raw as Record<string, unknown>).version ?? 0;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    return { ok: false, message: `Unrecognized file version "${String(version)}".`, issues: [] };
+  }
+  if (version > SCENARIO_FILE_VERSION) {
+    return {
+      ok: false,
+      message: `This file was created by a newer version (v${version}). Files up to v${SCENARIO_FILE_VERSION} can be imported.`,
+      issues: []
+    };
+  }
+
+  let doc: FileDocument = { ...(raw as Record<string, unknown>), version };
+  while (doc.version < SCENARIO_FILE_VERSION) {
+    const step = MIGRATIONS[doc.version];
+    if (!step) return { ok: false, message: `Files of version ${doc.version} can no longer be imported.`, issues: [] };
+    doc = step(doc);
+  }
+
+  const parsed = scenarioFileSchema.safeParse(doc);
+  if (!parsed.success) {
+    return { ok: false, message: 'The file does not match the scenario format.', issues: parsed.error.issues.map(describeIssue) };
+  }
+
+  // The schema guarantees every required field is present
+  const thresholds = parsed.data.thresholds ?? DEFAULT_THRESHOLDS;
+  const migratedFrom = version < SCENARIO_FILE_VERSION ? version : undefined;
+
+  if (parsed.data.mode === 'classic') {
+    return { ok: true, scenario: { mode: 'classic', params: parsed.data.params as SimpleSimulationParams, thresholds }, migratedFrom };
+  }
+  const params = withRangeIds(parsed.data.params as AdvancedSimulationParams);
+  return { ok: true, scenario: { mode: 'advanced', params, thresholds }, migratedFrom };
+}
+
+// Parse file contents into a scenario, migrating older versions
+export function importScenario(text: string): ScenarioImportResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return reject('The file is not valid JSON.');
+  }
+
+  const parsed = parseDocument(raw);
+  if (parsed.ok === false) return parsed;
+  const { scenario, migratedFrom } = parsed;
+  const errors = scenario.mode === 'classic' ? validateParams(scenario.params) : validateAdvancedParams(scenario.params);
+  return { ok: true, scenario, errors, migratedFrom };
+}
+
+// Rebuild a scenario from a share link or saved library entry, or null if it is malformed.
+// These hold the current file format without its version stamp (links and the library
+// version their own containers), and go through the same migrations and schema as files.
+export function parseScenario(raw: unknown): Scenario | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const parsed = parseDocument({ ...raw, version: SCENARIO_FILE_VERSION });
+  return parsed.ok ? parsed.scenario : null;
+}
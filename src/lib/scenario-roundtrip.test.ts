@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_ADVANCED_PARAMS, createDefaultHolderShareRanges, runAdvancedSimulation } from './advanced-monte-carlo';
+import { createDefaultTiers } from './allocation';
+import { DEFAULT_PARAMS } from './simple-monte-carlo';
+import { Scenario, hasSameInputs, serializeScenario } from './scenario';
+import { SCENARIO_FILE_VERSION, importScenario, parseScenario } from './scenario-import';
+import { buildResultsExport, resultsToJson } from './results-export';
+import { LIBRARY_STORAGE_KEY, loadLibrary, saveLibrary } from './scenario-storage';
+import { decodeScenario, encodeScenario } from './scenario-url';
+
+// Minimal in-memory localStorage; `full` makes writes fail like an exceeded quota
+function createMemoryStorage() {
+  const items = new Map<string, string>();
+  return {
+    full: false,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem(key: string, value: string) {
+      if (this.full) throw new DOMException('Quota exceeded', 'QuotaExceededError');
+      items.set(key, value);
+    },
+    removeItem: (key: string) => items.delete(key),
+    clear: () => items.clear()
+  };
+}
+
+const advanced: Scenario = {
+  mode: 'advanced',
+  params: {
+    ...DEFAULT_ADVANCED_PARAMS,
+    numSimulations: 5000,
+    seed: 7,
+    sampling: 'latinHypercube',
+    fdvRanges: [
+      { id: 'a', min: 20, max: 100, distributionType: 'pert', mode: 40, weight: 70 },
+      { id: 'b', min: 100, max: 400, distributionType: 'lognormal', median: 150, sigma: 0.5, weight: 30 }
+    ],
+    holderShareRanges: createDefaultHolderShareRanges(),
+    correlation: { copula: 'clayton', rankCorrelation: -0.3 },
+    vesting: { tgeUnlockPct: 25, cliffMonths: 3, linearMonths: 12, annualDriftPct: -30, annualVolatilityPct: 100 },
+    rarityTiers: createDefaultTiers(DEFAULT_ADVANCED_PARAMS.nftSupply)
+  },
+  thresholds: [60, 120, 300]
+};
+
+const classic: Scenario = { mode: 'classic', params: { ...DEFAULT_PARAMS, seed: 3 }, thresholds: [100] };
+
+describe('scenario round trip', () => {
+  let storage: ReturnType<typeof createMemoryStorage>;
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    vi.stubGlobal('localStorage', storage);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it.each([advanced, classic])('keeps $mode inputs through link, library and file import', async (scenario) => {
+    const fromLink = await decodeScenario(await encodeScenario(scenario));
+    expect(fromLink).not.toBeNull();
+    expect(hasSameInputs(fromLink, scenario)).toBe(true);
+    expect(fromLink.thresholds).toEqual(scenario.thresholds);
+
+    const now = new Date().toISOString();
+    expect(saveLibrary([{ id: 's1', name: 'Shared', createdAt: now, updatedAt: now, scenario: fromLink }])).toBe(true);
+    const [fromLibrary] = loadLibrary().scenarios;
+    expect(hasSameInputs(fromLibrary.scenario, scenario)).toBe(true);
+
+    const file = JSON.stringify({ version: SCENARIO_FILE_VERSION, ...serializeScenario(fromLibrary.scenario) });
+    const imported = importScenario(file);
+    expect(imported.ok).toBe(true);
+    if (imported.ok === false) return;
+    expect(imported.errors).toEqual([]);
+    expect(hasSameInputs(imported.scenario, scenario)).toBe(true);
+  });
+
+  it('imports an exported results file as its scenario', () => {
+    const results = runAdvancedSimulation(advanced.params, advanced.thresholds);
+    const imported = importScenario(resultsToJson(buildResultsExport(advanced, results)));
+    expect(imported.ok && hasSameInputs(imported.scenario, advanced)).toBe(true);
+  });
+
+  it('rejects malformed link and library payloads', () => {
+    const serialized = serializeScenario(advanced);
+    expect(parseScenario({ ...serialized, params: { ...serialized.params, vesting: { tgeUnlockPct: '25' } } })).toBeNull();
+    expect(parseScenario({ ...serialized, params: { ...serialized.params, correlation: { copula: 'frank', rankCorrelation: 0.2 } } })).toBeNull();
+
+    storage.setItem(LIBRARY_STORAGE_KEY, JSON.stringify({
+      version: 1,
+      scenarios: [{ id: 'bad', name: 'Bad', createdAt: '', updatedAt: '', scenario: { ...serialized, params: { ...serialized.params, seed: 1.5 } } }]
+    }));
+    const loaded = loadLibrary();
+    expect(loaded.scenarios).toEqual([]);
+    expect(loaded.unreadable).toHaveLength(1);
+  });
+
+  it('writes entries it cannot read back on the next save', () => {
+    const serialized = serializeScenario(advanced);
+    const invalid = { id: 'old', name: 'Old', createdAt: '', updatedAt: '', scenario: { ...serialized, params: { ...serialized.params, fdvRanges: [{ min: 'low' }] } } };
+    const valid = { id: 'ok', name: 'Ok', createdAt: '', updatedAt: '', scenario: serialized };
+    storage.setItem(LIBRARY_STORAGE_KEY, JSON.stringify({ version: 1, scenarios: [valid, invalid] }));
+
+    const loaded = loadLibrary();
+    expect(loaded.scenarios.map(s => s.id)).toEqual(['ok']);
+    expect(loaded.unreadable).toEqual([invalid]);
+
+    expect(saveLibrary([], loaded.unreadable)).toBe(true);
+    const stored = JSON.parse(storage.getItem(LIBRARY_STORAGE_KEY) ?? '{}');
+    expect(stored.scenarios).toEqual([invalid]);
+    expect(loadLibrary().unreadable).toEqual([invalid]);
+  });
+
+  it('backs up a library it cannot read before anything overwrites it', () => {
+    storage.setItem(LIBRARY_STORAGE_KEY, '{"version": 1, "scenarios": [');
+    const loaded = loadLibrary();
+    expect(loaded.scenarios).toEqual([]);
+    expect(loaded.backupKey).toBeDefined();
+    expect(storage.getItem(loaded.backupKey ?? '')).toBe('{"version": 1, "scenarios": [');
+
+    storage.setItem(LIBRARY_STORAGE_KEY, JSON.stringify({ version: 99, scenarios: [] }));
+    expect(loadLibrary().backupKey).toBe(`${LIBRARY_STORAGE_KEY}:v99-backup`);
+  });
+
+  it('reports a failed library write and leaves storage unchanged', () => {
+    storage.full = true;
+    const now = new Date().toISOString();
+    expect(saveLibrary([{ id: 's1', name: 'Full', createdAt: now, updatedAt: now, scenario: advanced }])).toBe(false);
+    expect(storage.getItem(LIBRARY_STORAGE_KEY)).toBeNull();
+  });
+});
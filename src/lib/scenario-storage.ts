@@ -0,0 +1,125 @@
+// Saved scenario library persisted in localStorage
+//
+// The stored document is versioned. When its shape changes, bump LIBRARY_VERSION and add a
+// migration from the previous version to MIGRATIONS so existing saves are upgraded on load.
+// Ranges are stored without ids and re-validated on load, so additions to CustomRange only
+// need a migration when an existing field changes meaning. Entries that still fail validation
+// are kept verbatim and written back on every save, and a document that cannot be read at all
+// is copied to a backup key first, so a save never discards what an older build stored.
+
+import { SimulationResults } from './engine-core';
+import { Scenario, SerializedScenario, serializeScenario } from './scenario';
+import { parseScenario } from './scenario-import';
+
+export interface SavedScenario {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  scenario: Scenario;
+  // Summary of the last run of these exact inputs, if there was one
+  results?: SimulationResults;
+}
+
+interface StoredScenario {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  scenario: SerializedScenario;
+  results?: SimulationResults;
+}
+
+interface StoredLibrary {
+  version: number;
+  scenarios: StoredScenario[];
+}
+
+export interface LoadedLibrary {
+  scenarios: SavedScenario[];
+  // Stored entries this build cannot read, passed back to saveLibrary untouched
+  unreadable: unknown[];
+  // Where the stored document was copied when none of it could be read
+  backupKey?: string;
+}
+
+export const LIBRARY_STORAGE_KEY = 'airdrop-oracle:scenarios';
+export const LIBRARY_VERSION = 1;
+
+// MIGRATIONS[n] upgrades a version-n document to version n + 1
+const MIGRATIONS: Record<number, (library: StoredLibrary) => StoredLibrary> = {};
+
+export function generateScenarioId(): string {
+  return crypto.randomUUID();
+}
+
+function migrate(library: StoredLibrary): StoredLibrary | null {
+  let current = library;
+  while (current.version < LIBRARY_VERSION) {
+    const step = MIGRATIONS[current.version];
+    if (!step) return null;
+    current = step(current);
+  }
+  return current;
+}
+
+function toSaved(stored: StoredScenario): SavedScenario | null {
+  if (!stored || typeof stored !== 'object' || typeof stored.id !== 'string') return null;
+  const scenario = parseScenario(stored.scenario);
+  if (!scenario) return null;
+  return { ...stored, scenario };
+}
+
+function toStored(saved: SavedScenario): StoredScenario {
+  return { ...saved, scenario: serializeScenario(saved.scenario) };
+}
+
+function backUp(raw: string, label: string): LoadedLibrary {
+  const backupKey = `${LIBRARY_STORAGE_KEY}:${label}-backup`;
+  try {
+    localStorage.setItem(backupKey, raw);
+  } catch {
+    return { scenarios: [], unreadable: [] };
+  }
+  return { scenarios: [], unreadable: [], backupKey };
+}
+
+export function loadLibrary(): LoadedLibrary {
+  const raw = localStorage.getItem(LIBRARY_STORAGE_KEY);
+  if (!raw) return { scenarios: [], unreadable: [] };
+
+  let library: StoredLibrary;
+  try {
+    library = JSON.parse(raw);
+  } catch {
+    return backUp(raw, 'unreadable');
+  }
+  if (!library || typeof library.version !== 'number' || !Array.isArray(library.scenarios)) {
+    return backUp(raw, 'unreadable');
+  }
+
+  // Saved by a newer build: keep a copy instead of overwriting it on the next save
+  if (library.version > LIBRARY_VERSION) return backUp(raw, `v${library.version}`);
+
+  const migrated = migrate(library);
+  if (!migrated) return backUp(raw, `v${library.version}`);
+
+  const loaded: LoadedLibrary = { scenarios: [], unreadable: [] };
+  for (const stored of migrated.scenarios) {
+    const saved = toSaved(stored);
+    if (saved) loaded.scenarios.push(saved);
+    else loaded.unreadable.push(stored);
+  }
+  return loaded;
+}
+
+// False when the browser refuses the write (usually QuotaExceededError); storage is then unchanged
+export function saveLibrary(scenarios: SavedScenario[], unreadable: unknown[] = []): boolean {
+  const library = { version: LIBRARY_VERSION, scenarios: [...scenarios.map(toStored), ...unreadable] };
+  try {
+    localStorage.setItem(LIBRARY_STORAGE_KEY, JSON.stringify(library));
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,60 @@
+// Shareable scenario links
+// Format: `<version>.<payload>` where payload is base64url(deflate-raw(JSON)).
+// The version prefix lets old links be migrated or rejected when the format changes.
+
+import { Scenario, SerializedScenario, serializeScenario } from './scenario';
+import { parseScenario } from './scenario-import';
+
+export const SCENARIO_URL_VERSION = 1;
+
+interface SharedScenarioV1 extends SerializedScenario {
+  v: 1;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+export async function encodeScenario(scenario: Scenario): Promise<string> {
+  const shared: SharedScenarioV1 = { v: 1, ...serializeScenario(scenario) };
+  const json = new TextEncoder().encode(JSON.stringify(shared));
+  const compressed = await transform(json, new CompressionStream('deflate-raw'));
+  return `${SCENARIO_URL_VERSION}.${toBase64Url(compressed)}`;
+}
+
+// Returns null for malformed links or versions this build does not understand
+export async function decodeScenario(code: string): Promise<Scenario | null> {
+  const separator = code.indexOf('.');
+  if (separator < 0) return null;
+  const version = Number(code.slice(0, separator));
+  if (version !== SCENARIO_URL_VERSION) return null;
+
+  try {
+    const bytes = await transform(fromBase64Url(code.slice(separator + 1)), new DecompressionStream('deflate-raw'));
+    const shared = JSON.parse(new TextDecoder().decode(bytes)) as SharedScenarioV1;
+    if (shared.v !== SCENARIO_URL_VERSION) return null;
+    return parseScenario(shared);
+  } catch {
+    return null;
+  }
+}
+
+// Absolute link that opens the app with this scenario
+export async function buildShareUrl(scenario: Scenario): Promise<string> {
+  return `${window.location.origin}/s/${await encodeScenario(scenario)}`;
+}
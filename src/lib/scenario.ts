@@ -0,0 +1,62 @@
+// A scenario is everything needed to reproduce a run: mode, inputs (including seed) and thresholds
+
+import { SimpleSimulationParams } from './simple-monte-carlo';
+import { AdvancedSimulationParams, CustomRange } from './advanced-monte-carlo';
+
+export type ScenarioMode = 'classic' | 'advanced';
+
+export const DEFAULT_THRESHOLDS = [60, 120, 300];
+
+export type Scenario =
+  | { mode: 'classic'; params: SimpleSimulationParams; thresholds: number[] }
+  | { mode: 'advanced'; params: AdvancedSimulationParams; thresholds: number[] };
+
+// Range ids are UI bookkeeping only; strip them before persisting or sharing
+export type StoredRange = Omit<CustomRange, 'id'>;
+
+// Plain-JSON form of a scenario used by share links and saved scenarios
+export interface SerializedScenario {
+  mode: ScenarioMode;
+  params: object;
+  thresholds: number[];
+}
+
+// Range sets that only exist for some Advanced models
+const OPTIONAL_RANGE_FIELDS = ['marketCapRanges', 'floatRanges', 'holderShareRanges'] as const;
+
+export function stripRangeIds(ranges: CustomRange[]): StoredRange[] {
+  return ranges.map(({ id, ...rest }) => rest);
+}
+
+export function serializeScenario(scenario: Scenario): SerializedScenario {
+  if (scenario.mode === 'classic') {
+    return { mode: scenario.mode, params: scenario.params, thresholds: scenario.thresholds };
+  }
+  const params: Record<string, unknown> = {
+    ...scenario.params,
+    fdvRanges: stripRangeIds(scenario.params.fdvRanges),
+    dropRanges: stripRangeIds(scenario.params.dropRanges)
+  };
+  for (const field of OPTIONAL_RANGE_FIELDS) {
+    const ranges = scenario.params[field];
+    if (ranges) params[field] = stripRangeIds(ranges);
+  }
+  return { mode: scenario.mode, params, thresholds: scenario.thresholds };
+}
+
+// JSON with sorted keys, so equal inputs compare equal regardless of property order
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Whether two scenarios have the same mode and simulation inputs (thresholds are ignored)
+export function hasSameInputs(a: Scenario, b: Scenario): boolean {
+  return stableStringify(serializeScenario(a).params) === stableStringify(serializeScenario(b).params) && a.mode === b.mode;
+}
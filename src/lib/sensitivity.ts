@@ -0,0 +1,240 @@
+// Sensitivity analysis: which inputs move the result
+//
+// One-at-a-time: each input (Classic bounds, Advanced range bounds and weights) is pushed
+// down and up and the model rerun. Every run uses the same seed and sample count, so the
+// difference from the baseline reflects the input change rather than Monte Carlo noise.
+//
+// Sobol first-order indices: share of Var(value) explained by each random factor alone,
+// estimated with the Saltelli (2010) pick-freeze scheme. The indices treat the factors as
+// independent; with a copula the FDV and Drop% marginals are kept but their dependence is not.
+//
+// The analysis is dozens of full runs, so the UI sends it to the simulation worker.
+
+import { EngineModel, DEFAULT_SEED, Sampler, VarianceFactor, runEngine } from './engine-core';
+import { createStreams } from './prng';
+import { SimpleSimulationParams, createSimpleModel, validateParams } from './simple-monte-carlo';
+import { AdvancedSimulationParams, CustomRange, createAdvancedModel, usesMarketCap, validateAdvancedParams } from './advanced-monte-carlo';
+import { Scenario } from './scenario';
+
+// Samples per run; sensitivity needs many runs, so each is capped
+export const SENSITIVITY_SAMPLES = 50_000;
+// Relative change applied to bounds and range sets
+export const BOUND_PERTURBATION = 0.2;
+// Relative change applied to a single range's weight
+export const WEIGHT_PERTURBATION = 0.5;
+
+export interface SensitivityOutcome {
+  median: number;
+  p90: number;
+}
+
+export interface SensitivityInput {
+  label: string;
+  lowLabel: string;
+  highLabel: string;
+  low: SensitivityOutcome | null;   // null = the perturbed inputs are invalid
+  high: SensitivityOutcome | null;
+}
+
+export interface SobolIndex {
+  factor: VarianceFactor;
+  firstOrder: number;
+}
+
+export interface SensitivityReport {
+  scenario: Scenario;
+  seed: number;
+  numSamples: number;
+  baseline: SensitivityOutcome;
+  inputs: SensitivityInput[];
+  sobol: SobolIndex[];
+  sobolIgnoresDependence: boolean;  // The model has a copula the indices do not account for
+}
+
+export interface SensitivityOptions {
+  onProgress?: (completed: number, total: number) => void;
+}
+
+interface Perturbation {
+  label: string;
+  lowLabel: string;
+  highLabel: string;
+  low: EngineModel | null;
+  high: EngineModel | null;
+}
+
+const CLASSIC_BOUNDS = [
+  { key: 'fdvMinM', label: 'FDV Min' },
+  { key: 'fdvMaxM', label: 'FDV Max' },
+  { key: 'dropMinPct', label: 'Drop% Min' },
+  { key: 'dropMaxPct', label: 'Drop% Max' },
+] as const;
+
+type AdvancedRangeField = 'fdvRanges' | 'marketCapRanges' | 'floatRanges' | 'dropRanges' | 'holderShareRanges';
+
+const ADVANCED_RANGE_SETS: { field: AdvancedRangeField; label: string }[] = [
+  { field: 'fdvRanges', label: 'FDV' },
+  { field: 'marketCapRanges', label: 'Market Cap' },
+  { field: 'floatRanges', label: 'Circulating Float' },
+  { field: 'dropRanges', label: 'Airdrop %' },
+  { field: 'holderShareRanges', label: 'Holder Share' },
+];
+
+function percentLabel(change: number): string {
+  return `${change > 0 ? '+' : '−'}${Math.round(Math.abs(change) * 100)}%`;
+}
+
+function classicModel(params: SimpleSimulationParams): EngineModel | null {
+  return validateParams(params).length === 0 ? createSimpleModel(params) : null;
+}
+
+function advancedModel(params: AdvancedSimulationParams): EngineModel | null {
+  return validateAdvancedParams(params).length === 0 ? createAdvancedModel(params) : null;
+}
+
+function classicPerturbations(params: SimpleSimulationParams): Perturbation[] {
+  return CLASSIC_BOUNDS.map(({ key, label }) => ({
+    label,
+    lowLabel: percentLabel(-BOUND_PERTURBATION),
+    highLabel: percentLabel(BOUND_PERTURBATION),
+    low: classicModel({ ...params, [key]: params[key] * (1 - BOUND_PERTURBATION) }),
+    high: classicModel({ ...params, [key]: params[key] * (1 + BOUND_PERTURBATION) })
+  }));
+}
+
+function isActiveRangeSet(params: AdvancedSimulationParams, field: AdvancedRangeField): boolean {
+  if (field === 'fdvRanges') return !usesMarketCap(params);
+  if (field === 'marketCapRanges' || field === 'floatRanges') return usesMarketCap(params);
+  return !!params[field];
+}
+
+// Each range's Min and Max, then each range's weight in sets with a choice of ranges.
+// (Scaling a whole set is not informative: the value is linear in every factor.)
+function advancedPerturbations(params: AdvancedSimulationParams): Perturbation[] {
+  const perturbations: Perturbation[] = [];
+  for (const { field, label } of ADVANCED_RANGE_SETS.filter(({ field }) => isActiveRangeSet(params, field))) {
+    const ranges = params[field];
+    const withRange = (range: CustomRange, change: Partial<CustomRange>) =>
+      advancedModel({ ...params, [field]: ranges.map(r => (r === range ? { ...r, ...change } : r)) });
+
+    ranges.forEach((range, index) => {
+      const name = ranges.length > 1 ? `${label} range ${index + 1}` : label;
+      for (const bound of ['min', 'max'] as const) {
+        perturbations.push({
+          label: `${name} ${bound === 'min' ? 'Min' : 'Max'}`,
+          lowLabel: percentLabel(-BOUND_PERTURBATION),
+          highLabel: percentLabel(BOUND_PERTURBATION),
+          low: withRange(range, { [bound]: range[bound] * (1 - BOUND_PERTURBATION) }),
+          high: withRange(range, { [bound]: range[bound] * (1 + BOUND_PERTURBATION) })
+        });
+      }
+      if (ranges.length > 1) {
+        perturbations.push({
+          label: `${name} weight`,
+          lowLabel: `${percentLabel(-WEIGHT_PERTURBATION)} weight`,
+          highLabel: `${percentLabel(WEIGHT_PERTURBATION)} weight`,
+          low: withRange(range, { weight: range.weight * (1 - WEIGHT_PERTURBATION) }),
+          high: withRange(range, { weight: range.weight * (1 + WEIGHT_PERTURBATION) })
+        });
+      }
+    });
+  }
+  return perturbations;
+}
+
+// Value at TGE only: vesting and rarity tiers are dropped to keep each run cheap, and
+// auto-stop is off so every run draws the same samples
+function runOutcome(model: EngineModel, numSamples: number, seed: number): SensitivityOutcome {
+  const { stats } = runEngine(
+    { ...model, numSimulations: numSamples, seed, realize: undefined, allocations: undefined, targetPrecision: undefined },
+    []
+  );
+  return { median: stats.median, p90: stats.p90 };
+}
+
+function drawColumn(sample: Sampler, count: number, rng: { next(): number }): Float64Array {
+  const column = new Float64Array(count);
+  for (let j = 0; j < count; j++) column[j] = sample(rng);
+  return column;
+}
+
+// Saltelli (2010): S_i = E[f(B) × (f(A_B^i) − f(A))] / Var(f), where A_B^i is A with column i from B
+export function estimateFirstOrderIndices(model: EngineModel, numSamples: number, seed: number): SobolIndex[] {
+  const factors: { factor: VarianceFactor; sample: Sampler }[] = [
+    { factor: 'fdv', sample: model.sampleFDV },
+    { factor: 'drop', sample: model.sampleDrop }
+  ];
+  if (model.sampleHolderShare) factors.push({ factor: 'holderShare', sample: model.sampleHolderShare });
+
+  const streams = createStreams(seed, factors.length * 2);
+  const a = factors.map(({ sample }, k) => drawColumn(sample, numSamples, streams[2 * k]));
+  const b = factors.map(({ sample }, k) => drawColumn(sample, numSamples, streams[2 * k + 1]));
+
+  // The value is a product of the factors; the 1 / NFT_Supply constant cancels out.
+  // `fromB` picks the factor columns taken from B.
+  const evaluate = (j: number, fromB: (k: number) => boolean): number => {
+    let value = 1;
+    for (let k = 0; k < factors.length; k++) value *= fromB(k) ? b[k][j] : a[k][j];
+    return value;
+  };
+
+  const fA = new Float64Array(numSamples);
+  const fB = new Float64Array(numSamples);
+  let sum = 0;
+  let sumSq = 0;
+  for (let j = 0; j < numSamples; j++) {
+    fA[j] = evaluate(j, () => false);
+    fB[j] = evaluate(j, () => true);
+    sum += fA[j] + fB[j];
+    sumSq += fA[j] * fA[j] + fB[j] * fB[j];
+  }
+  const mean = sum / (2 * numSamples);
+  const variance = sumSq / (2 * numSamples) - mean * mean;
+
+  return factors.map(({ factor }, i) => {
+    if (!(variance > 0)) return { factor, firstOrder: 0 };
+    let acc = 0;
+    for (let j = 0; j < numSamples; j++) acc += fB[j] * (evaluate(j, k => k === i) - fA[j]);
+    return { factor, firstOrder: acc / numSamples / variance };
+  });
+}
+
+// Runs the baseline, every perturbation and the Sobol estimate, reporting after each step
+export function runSensitivityAnalysis(scenario: Scenario, options: SensitivityOptions = {}): SensitivityReport {
+  const { onProgress } = options;
+  const seed = scenario.params.seed ?? DEFAULT_SEED;
+  const numSamples = Math.min(scenario.params.numSimulations, SENSITIVITY_SAMPLES);
+  const baseModel = scenario.mode === 'classic' ? createSimpleModel(scenario.params) : createAdvancedModel(scenario.params);
+  const perturbations = scenario.mode === 'classic'
+    ? classicPerturbations(scenario.params)
+    : advancedPerturbations(scenario.params);
+
+  // Baseline + two runs per perturbation + Sobol
+  const total = 2 + perturbations.length * 2;
+  let completed = 0;
+  const step = <T>(work: () => T): T => {
+    const result = work();
+    onProgress?.(++completed, total);
+    return result;
+  };
+
+  const baseline = step(() => runOutcome(baseModel, numSamples, seed));
+  const inputs: SensitivityInput[] = perturbations.map(({ label, lowLabel, highLabel, low, high }) => ({
+    label,
+    lowLabel,
+    highLabel,
+    low: step(() => low && runOutcome(low, numSamples, seed)),
+    high: step(() => high && runOutcome(high, numSamples, seed))
+  }));
+  const sobol = step(() => estimateFirstOrderIndices(baseModel, numSamples, seed));
+
+  return {
+    scenario,
+    seed,
+    numSamples,
+    baseline,
+    inputs,
+    sobol,
+    sobolIgnoresDependence: !!baseModel.dependence
+  };
+}
@@ -1,6 +1,12 @@
 // Simple Monte Carlo Engine with Fixed 3-Part FDV Mixture Distribution
 // No sliders, no user-configurable distributions - all auto-determined
 
+import { EngineModel, SimulationResults, SimulationStats, MAX_TARGET_PRECISION, isValidSeed, isValidTargetPrecision, runEngine } from './engine-core';
+import { SimulationRunOptions } from './simulation-progress';
+import { SamplingStrategy, validateSampling } from './sampling';
+
+export type { HistogramBin } from './engine-core';
+
 export interface SimpleSimulationParams {
   nftSupply: number;
   fdvMinM: number;  // FDV min in MILLIONS
@@ -9,36 +15,14 @@ export interface SimpleSimulationParams {
   dropMaxPct: number;  // Drop% max as percentage (e.g., 50 = 50%)
   numSimulations: number;
   seed?: number;
+  // Auto-stop once the median is known to ± this % (95% confidence); numSimulations is then the maximum
+  targetPrecision?: number;
+  sampling?: SamplingStrategy;  // Absent = pseudo-random
 }
 
-export interface SimpleSimulationResults {
-  stats: SimpleStats;
-  histogram: HistogramBin[];
-  thresholdProbs: Record<number, number>;
-  worstCase: number;
-  bestCase: number;
-  executionTimeMs: number;
-}
-
-export interface SimpleStats {
-  mean: number;
-  median: number;
-  p5: number;
-  p10: number;
-  p25: number;
-  p75: number;
-  p90: number;
-  p95: number;
-  min: number;
-  max: number;
-}
-
-export interface HistogramBin {
-  binStart: number;
-  binEnd: number;
-  count: number;
-  density: number;
-}
+// Classic mode shares the engine core's results shape
+export type SimpleSimulationResults = SimulationResults;
+export type SimpleStats = SimulationStats;
 
 export interface ValidationError {
   field: string;
@@ -82,31 +66,18 @@ export function validateParams(params: SimpleSimulationParams): ValidationError[
     errors.push({ field: 'numSimulations', message: 'Simulations must be at least 1,000' });
   }
 
-  return errors;
-}
-
-// Fast PRNG (xorshift128+)
-class SeededRandom {
-  private s0: number;
-  private s1: number;
-
-  constructor(seed: number) {
-    this.s0 = seed >>> 0;
-    this.s1 = (seed * 1812433253 + 1) >>> 0;
-    for (let i = 0; i < 20; i++) this.next();
+  if (params.seed !== undefined && !isValidSeed(params.seed)) {
+    errors.push({ field: 'seed', message: 'Seed must be a whole number between 0 and 4,294,967,295' });
   }
-
-  next(): number {
-    let s1 = this.s0;
-    const s0 = this.s1;
-    this.s0 = s0;
-    s1 ^= s1 << 23;
-    s1 ^= s1 >>> 17;
-    s1 ^= s0;
-    s1 ^= s0 >>> 26;
-    this.s1 = s1;
-    return (this.s0 >>> 0) / 4294967296;
+  if (params.targetPrecision !== undefined && !isValidTargetPrecision(params.targetPrecision)) {
+    errors.push({ field: 'targetPrecision', message: `Target precision must be between 0 and ${MAX_TARGET_PRECISION}%` });
+  }
+  const samplingError = validateSampling(params.sampling, params.targetPrecision);
+  if (samplingError) {
+    errors.push({ field: 'sampling', message: samplingError });
   }
+
+  return errors;
 }
 
 // FDV Mixture Distribution Zones
@@ -239,6 +210,9 @@ const W_A = 0.50;  // Psychological Floor
 const W_B = 0.40;  // Success & Balance
 const W_C = 0.10;  // Generosity Spike
 
+// Zone C decay rate per unit of Drop% as a decimal (strong decay)
+const ZONE_C_DECAY = 8;
+
 // Zone A — "Psychological Floor" (50% weight)
 // Range: [z0, z1]
 // Shape: probability increases with value (toward z1)
@@ -290,7 +264,7 @@ function sampleZoneB(z1: number, z2: number, u: number): number {
 // PDF ∝ exp(-k * (x - z2)), using truncated exponential sampling
 function sampleZoneC(z2: number, z3: number, u: number): number {
   const range = z3 - z2;
-  const k = 8;  // decay rate (strong decay)
+  const k = ZONE_C_DECAY;
   
   // Truncated exponential on [0, range] then shift by z2
   // CDF: F(x) = (1 - exp(-k*x)) / (1 - exp(-k*range))
@@ -327,79 +301,55 @@ function sampleDropPercentage(pMin: number, pMax: number, u1: number, u2: number
   }
 }
 
-// Percentile from sorted array
-function percentile(sorted: Float64Array, p: number): number {
-  const n = sorted.length;
-  const rank = (p / 100) * (n - 1);
-  const lower = Math.floor(rank);
-  const upper = Math.ceil(rank);
-  const weight = rank - lower;
-  if (upper >= n) return sorted[n - 1];
-  return sorted[lower] * (1 - weight) + sorted[upper] * weight;
-}
+// ============================================
+// CDFs (same distributions as the samplers above, for the exact computation)
+// ============================================
 
-// Histogram with log-scale bins
-function createHistogram(values: Float64Array, numBins: number = 40): HistogramBin[] {
-  const sorted = new Float64Array(values).sort();
-  const minVal = Math.max(sorted[0], 0.01);
-  const maxVal = sorted[sorted.length - 1];
-  
-  const logMin = Math.log10(minVal);
-  const logMax = Math.log10(maxVal);
-  const binWidth = (logMax - logMin) / numBins;
-  
-  const bins: HistogramBin[] = [];
-  for (let i = 0; i < numBins; i++) {
-    const binStart = Math.pow(10, logMin + i * binWidth);
-    const binEnd = Math.pow(10, logMin + (i + 1) * binWidth);
-    bins.push({ binStart, binEnd, count: 0, density: 0 });
-  }
-  
-  for (let i = 0; i < values.length; i++) {
-    const val = values[i];
-    if (val < minVal) continue;
-    const logVal = Math.log10(val);
-    const binIndex = Math.min(Math.floor((logVal - logMin) / binWidth), numBins - 1);
-    bins[binIndex].count++;
-  }
-  
-  const total = values.length;
-  for (const bin of bins) {
-    bin.density = bin.count / total;
+function fdvMixtureCdf({ zones }: FDVZones, x: number): number {
+  let cdf = 0;
+  for (const zone of zones) {
+    if (x >= zone.max) {
+      cdf += zone.weight;
+    } else if (x > zone.min) {
+      const t = (x - zone.min) / (zone.max - zone.min);
+      cdf += zone.weight * (zone.type === 'uniform' ? t : 1 - (1 - t) * (1 - t));
+    }
   }
-  
-  return bins;
+  return cdf;
 }
 
-// Binary search for threshold probabilities
-function calcThresholdProbs(sorted: Float64Array, thresholds: number[]): Record<number, number> {
-  const result: Record<number, number> = {};
-  const n = sorted.length;
-  
-  for (const threshold of thresholds) {
-    let left = 0;
-    let right = n;
-    while (left < right) {
-      const mid = (left + right) >>> 1;
-      if (sorted[mid] < threshold) {
-        left = mid + 1;
-      } else {
-        right = mid;
-      }
-    }
-    result[threshold] = (n - left) / n;
+// Drop% zone model CDF, with pMin, pMax and x as decimals
+function dropPercentageCdf(pMin: number, pMax: number, x: number): number {
+  if (x <= pMin) return 0;
+  if (x >= pMax) return 1;
+  const W = pMax - pMin;
+  if (W < 0.0001) return (x - pMin) / W;
+
+  const z1 = pMin + F1 * W;
+  const z2 = pMin + F2 * W;
+  if (x <= z1) {
+    // Zone A: ((x - z0) / (z1 - z0))^2
+    const t = (x - pMin) / (z1 - pMin);
+    return W_A * t * t;
   }
-  
-  return result;
+  if (x <= z2) {
+    // Zone B: plateau, then linear decline (areas as in sampleZoneB)
+    const bandWidth = z2 - z1;
+    const plateauEnd = z1 + PLATEAU_FRACTION * bandWidth;
+    const plateauWidth = plateauEnd - z1;
+    const declineWidth = z2 - plateauEnd;
+    const plateauWeight = plateauWidth / (plateauWidth + 0.5 * declineWidth);
+    if (x <= plateauEnd) return W_A + W_B * plateauWeight * ((x - z1) / plateauWidth);
+    const t = (x - plateauEnd) / declineWidth;
+    return W_A + W_B * (plateauWeight + (1 - plateauWeight) * (1 - (1 - t) * (1 - t)));
+  }
+  // Zone C: truncated exponential
+  const normFactor = 1 - Math.exp(-ZONE_C_DECAY * (pMax - z2));
+  return W_A + W_B + W_C * (1 - Math.exp(-ZONE_C_DECAY * (x - z2))) / normFactor;
 }
 
-// Main simulation
-export function runSimpleSimulation(
-  params: SimpleSimulationParams,
-  thresholds: number[] = [60, 120, 300]
-): SimpleSimulationResults {
-  const startTime = performance.now();
-  
+// Engine model for Classic params (also used by the sensitivity analysis)
+export function createSimpleModel(params: SimpleSimulationParams): EngineModel {
   // Convert user's Drop% range to decimals
   const pMin = params.dropMinPct / 100;
   const pMax = params.dropMaxPct / 100;
@@ -407,75 +357,42 @@ export function runSimpleSimulation(
   // Calculate FDV zones based on user's min/max
   const fdvZones = calculateFDVZones(params.fdvMinM, params.fdvMaxM);
   
-  // Initialize RNG
-  const seed = params.seed ?? Math.floor(Math.random() * 2147483647);
-  const rng = new SeededRandom(seed);
-  
-  // Allocate
-  const values = new Float64Array(params.numSimulations);
-  
-  // Run simulation
-  for (let i = 0; i < params.numSimulations; i++) {
-    const u1 = rng.next(); // For FDV zone selection
-    const u2 = rng.next(); // For within-zone FDV sampling
-    const u3 = rng.next(); // For Drop% group selection
-    const u4 = rng.next(); // For within-group Drop% sampling
-    
-    // FDV: 3-part mixture distribution
-    const fdv = sampleFDVMixture(fdvZones, u1, u2);
-    
-    // Drop%: Range-invariant 3-group behavioral model
-    const dropPct = sampleDropPercentage(pMin, pMax, u3, u4);
-    
-    // Core formula: value_per_nft = (FDV × Drop%) / NFT_Supply
-    values[i] = (fdv * dropPct) / params.nftSupply;
-  }
-  
-  // Sort for statistics
-  const sorted = new Float64Array(values).sort();
-  
-  // Stats
-  let sum = 0;
-  for (let i = 0; i < values.length; i++) sum += values[i];
-  const mean = sum / values.length;
-  
-  const stats: SimpleStats = {
-    mean,
-    median: percentile(sorted, 50),
-    p5: percentile(sorted, 5),
-    p10: percentile(sorted, 10),
-    p25: percentile(sorted, 25),
-    p75: percentile(sorted, 75),
-    p90: percentile(sorted, 90),
-    p95: percentile(sorted, 95),
-    min: sorted[0],
-    max: sorted[sorted.length - 1]
-  };
-  
-  // Histogram
-  const histogram = createHistogram(values);
-  
-  // Thresholds
-  const thresholdProbs = calcThresholdProbs(sorted, thresholds);
-  
   // Anchors (use user's drop% range for worst/best case)
   const fdvMin = params.fdvMinM * 1_000_000;
   const fdvMax = params.fdvMaxM * 1_000_000;
-  const worstCase = (fdvMin * pMin) / params.nftSupply;
-  const bestCase = (fdvMax * pMax) / params.nftSupply;
-  
-  const executionTimeMs = performance.now() - startTime;
   
   return {
-    stats,
-    histogram,
-    thresholdProbs,
-    worstCase,
-    bestCase,
-    executionTimeMs
+    nftSupply: params.nftSupply,
+    numSimulations: params.numSimulations,
+    seed: params.seed,
+    // FDV: 3-part mixture distribution (u1 zone selection, u2 within zone)
+    sampleFDV: (rng) => sampleFDVMixture(fdvZones, rng.next(), rng.next()),
+    // Drop%: Range-invariant 3-group behavioral model (u3 group selection, u4 within group)
+    sampleDrop: (rng) => sampleDropPercentage(pMin, pMax, rng.next(), rng.next()),
+    worstCase: (fdvMin * pMin) / params.nftSupply,
+    bestCase: (fdvMax * pMax) / params.nftSupply,
+    targetPrecision: params.targetPrecision === undefined ? undefined : params.targetPrecision / 100,
+    sampling: params.sampling,
+    exactFactors: [
+      {
+        min: Math.min(...fdvZones.zones.map(z => z.min)),
+        max: Math.max(...fdvZones.zones.map(z => z.max)),
+        cdf: (x) => fdvMixtureCdf(fdvZones, x)
+      },
+      { min: pMin, max: pMax, cdf: (x) => dropPercentageCdf(pMin, pMax, x) }
+    ]
   };
 }
 
+// Main simulation
+export function runSimpleSimulation(
+  params: SimpleSimulationParams,
+  thresholds: number[] = [60, 120, 300],
+  options?: SimulationRunOptions
+): SimpleSimulationResults {
+  return runEngine(createSimpleModel(params), thresholds, options);
+}
+
 // Default params
 export const DEFAULT_PARAMS: SimpleSimulationParams = {
   nftSupply: 8888,
@@ -0,0 +1,52 @@
+// Progress reporting shared by the Monte Carlo engines
+// Engines stay synchronous; the optional callback lets a caller (e.g. the worker) stream progress
+
+export interface SimulationProgress {
+  completed: number;
+  total: number;
+  interimMedian: number;
+}
+
+export interface SimulationRunOptions {
+  onProgress?: (progress: SimulationProgress) => void;
+  // Keep the raw per-NFT values on the results (for sample exports); off by default to save memory
+  retainValues?: boolean;
+}
+
+// Number of progress reports per run
+const PROGRESS_STEPS = 50;
+
+// Max values used for the interim median estimate
+const INTERIM_SAMPLE_SIZE = 5000;
+
+// How many samples to run between progress reports
+export function getProgressInterval(total: number): number {
+  return Math.max(10_000, Math.ceil(total / PROGRESS_STEPS));
+}
+
+// Median of the first `completed` values, estimated from an evenly strided subsample
+// so reporting stays cheap even for 1M-sample runs
+export function estimateInterimMedian(values: Float64Array, completed: number): number {
+  if (completed === 0) return 0;
+  const stride = Math.max(1, Math.floor(completed / INTERIM_SAMPLE_SIZE));
+  const subsample: number[] = [];
+  for (let i = 0; i < completed; i += stride) subsample.push(values[i]);
+  subsample.sort((a, b) => a - b);
+  return subsample[Math.floor(subsample.length / 2)];
+}
+
+// Emit a progress report when a reporting boundary is reached
+export function reportProgress(
+  options: SimulationRunOptions | undefined,
+  values: Float64Array,
+  completed: number,
+  interval: number
+): void {
+  if (!options?.onProgress) return;
+  if (completed % interval !== 0 && completed !== values.length) return;
+  options.onProgress({
+    completed,
+    total: values.length,
+    interimMedian: estimateInterimMedian(values, completed)
+  });
+}
@@ -0,0 +1,107 @@
+// Vesting / unlock schedule with a simulated token price path
+//
+// The airdrop unlocks a share at TGE, then nothing until the cliff, then the rest in equal
+// monthly tranches over the linear period (all at once at the cliff when it is 0 months).
+// Each tranche is assumed to be sold the moment it unlocks, at the simulated price.
+//
+// Price path: geometric Brownian motion relative to the TGE price,
+//   P(t) / P(0) = exp((μ − σ²/2)·t + σ·W(t)),  t in years
+// so realized value = value at TGE × Σ tranche share × P(t_unlock) / P(0).
+
+import { RandomSource } from './prng';
+
+export interface VestingParams {
+  tgeUnlockPct: number;         // Share unlocked at TGE, percentage (0-100)
+  cliffMonths: number;          // Months after TGE before the remainder starts unlocking
+  linearMonths: number;         // Months over which the remainder unlocks monthly
+  annualDriftPct: number;       // Price drift μ, percent per year (e.g. -30)
+  annualVolatilityPct: number;  // Price volatility σ, percent per year (e.g. 100)
+}
+
+export interface UnlockTranche {
+  month: number;
+  share: number;  // Fraction of the allocation (tranches sum to 1)
+}
+
+export const MAX_VESTING_MONTHS = 120;
+
+export const DEFAULT_VESTING: VestingParams = {
+  tgeUnlockPct: 25,
+  cliffMonths: 3,
+  linearMonths: 12,
+  annualDriftPct: 0,
+  annualVolatilityPct: 100
+};
+
+// Problems with a schedule, as messages for the Advanced form
+export function validateVesting(vesting: VestingParams): string[] {
+  const errors: string[] = [];
+  const isWholeMonths = (m: number) => Number.isInteger(m) && m >= 0 && m <= MAX_VESTING_MONTHS;
+
+  if (!(vesting.tgeUnlockPct >= 0 && vesting.tgeUnlockPct <= 100)) {
+    errors.push('TGE unlock must be between 0% and 100%');
+  }
+  if (!isWholeMonths(vesting.cliffMonths)) {
+    errors.push(`Cliff must be a whole number of months between 0 and ${MAX_VESTING_MONTHS}`);
+  }
+  if (!isWholeMonths(vesting.linearMonths)) {
+    errors.push(`Linear unlock must be a whole number of months between 0 and ${MAX_VESTING_MONTHS}`);
+  }
+  if (!Number.isFinite(vesting.annualDriftPct) || Math.abs(vesting.annualDriftPct) > 500) {
+    errors.push('Drift must be between -500% and 500% per year');
+  }
+  if (!(vesting.annualVolatilityPct >= 0 && vesting.annualVolatilityPct <= 500)) {
+    errors.push('Volatility must be between 0% and 500% per year');
+  }
+  return errors;
+}
+
+export function createUnlockSchedule(vesting: VestingParams): UnlockTranche[] {
+  const tgeShare = vesting.tgeUnlockPct / 100;
+  const remainder = 1 - tgeShare;
+  const tranches: UnlockTranche[] = [];
+
+  if (tgeShare > 0) tranches.push({ month: 0, share: tgeShare });
+  if (remainder <= 0) return tranches;
+
+  if (vesting.linearMonths === 0) {
+    tranches.push({ month: vesting.cliffMonths, share: remainder });
+  } else {
+    const monthly = remainder / vesting.linearMonths;
+    for (let m = 1; m <= vesting.linearMonths; m++) {
+      tranches.push({ month: vesting.cliffMonths + m, share: monthly });
+    }
+  }
+  return tranches;
+}
+
+// Standard normal via Box-Muller
+function sampleNormal(rng: RandomSource): number {
+  const u1 = 1 - rng.next();  // (0, 1] so the log is finite
+  const u2 = rng.next();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+// Maps a value at TGE to the realized value of selling every tranche on unlock,
+// walking one price path per call
+export function createVestingRealizer(vesting: VestingParams): (valueAtTge: number, rng: RandomSource) => number {
+  const tranches = createUnlockSchedule(vesting);
+  const mu = vesting.annualDriftPct / 100;
+  const sigma = vesting.annualVolatilityPct / 100;
+  const driftPerYear = mu - (sigma * sigma) / 2;
+
+  return (valueAtTge, rng) => {
+    let logPrice = 0;
+    let month = 0;
+    let realizedShare = 0;
+    for (const tranche of tranches) {
+      if (tranche.month > month) {
+        const dt = (tranche.month - month) / 12;
+        logPrice += driftPerYear * dt + sigma * Math.sqrt(dt) * sampleNormal(rng);
+        month = tranche.month;
+      }
+      realizedShare += tranche.share * Math.exp(logPrice);
+    }
+    return valueAtTge * realizedShare;
+  };
+}
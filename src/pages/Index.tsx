@@ -1,7 +1,35 @@
+import { useEffect, useState } from "react";
+import { useParams } from "react-router-dom";
 import { SimpleMonteCarloSimulator } from "@/components/simulation/SimpleMonteCarloSimulator";
+import { Scenario } from "@/lib/scenario";
+import { decodeScenario } from "@/lib/scenario-url";
 
 const Index = () => {
-  return <SimpleMonteCarloSimulator />;
+  // Present when opened through a share link (/s/:scenario)
+  const { scenario: code } = useParams();
+  const [decoded, setDecoded] = useState<{ code: string; scenario: Scenario | null } | null>(null);
+
+  useEffect(() => {
+    if (!code) return;
+    let cancelled = false;
+    decodeScenario(code).then((scenario) => {
+      if (!cancelled) setDecoded({ code, scenario });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [code]);
+
+  // Wait for the shared scenario before mounting so it seeds the initial state
+  if (code && decoded?.code !== code) return null;
+
+  return (
+    <SimpleMonteCarloSimulator
+      key={code ?? "default"}
+      initialScenario={decoded?.scenario ?? undefined}
+      invalidShareLink={!!code && !decoded?.scenario}
+    />
+  );
 };
 
 export default Index;
@@ -0,0 +1,36 @@
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft } from "lucide-react";
+import { OpinionPool } from "@/components/simulation/OpinionPool";
+import { useScenarioLibrary } from "@/hooks/use-scenario-library";
+
+const Pool = () => {
+  const { scenarios } = useScenarioLibrary();
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b bg-card">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Pool Forecasts</h1>
+            <p className="text-sm text-muted-foreground mt-1">
+              Combine several analysts' Advanced scenarios into one consensus distribution
+            </p>
+          </div>
+          <Button variant="outline" size="sm" asChild className="h-9">
+            <Link to="/">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Simulator
+            </Link>
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6">
+        <OpinionPool library={scenarios} />
+      </main>
+    </div>
+  );
+};
+
+export default Pool;
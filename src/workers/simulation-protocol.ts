@@ -0,0 +1,47 @@
+// Message protocol between the UI thread and the simulation worker
+
+import type { SimpleSimulationParams } from "@/lib/simple-monte-carlo";
+import type { AdvancedSimulationParams } from "@/lib/advanced-monte-carlo";
+import type { SimulationParams } from "@/lib/monte-carlo";
+import type { SimulationResults } from "@/lib/engine-core";
+import type { SimulationProgress } from "@/lib/simulation-progress";
+import type { Scenario } from "@/lib/scenario";
+import type { SensitivityReport } from "@/lib/sensitivity";
+import type { SweepAxis, SweepResult } from "@/lib/parameter-sweep";
+
+export type SimulationJob =
+  | { engine: 'classic'; params: SimpleSimulationParams; thresholds: number[] }
+  | { engine: 'advanced'; params: AdvancedSimulationParams; thresholds: number[] }
+  | { engine: 'legacy'; params: SimulationParams; thresholds: number[] };
+
+export interface WorkerRunRequest {
+  type: 'run';
+  id: number;
+  job: SimulationJob;
+  retainValues?: boolean;
+}
+
+// Analyses built from many engine runs, each answered with the matching AnalysisResults entry
+export type AnalysisJob =
+  | { kind: 'sensitivity'; scenario: Scenario }
+  | { kind: 'sweep'; base: SimpleSimulationParams; xAxis: SweepAxis; yAxis: SweepAxis; thresholds: number[] };
+
+export interface AnalysisResults {
+  sensitivity: SensitivityReport;
+  sweep: SweepResult;
+}
+
+export interface WorkerAnalysisRequest {
+  type: 'analysis';
+  id: number;
+  job: AnalysisJob;
+}
+
+export type WorkerRequest = WorkerRunRequest | WorkerAnalysisRequest;
+
+export type WorkerResponse =
+  | { type: 'progress'; id: number; progress: SimulationProgress }
+  | { type: 'result'; id: number; results: SimulationResults }
+  | { type: 'analysisProgress'; id: number; completed: number; total: number }
+  | { type: 'analysisResult'; id: number; result: AnalysisResults[AnalysisJob['kind']] }
+  | { type: 'error'; id: number; message: string };
@@ -0,0 +1,57 @@
+// Dedicated worker that runs the Monte Carlo engines off the main thread
+// Thin transport only: the engines themselves stay synchronous and callable directly
+
+import { runSimpleSimulation } from "@/lib/simple-monte-carlo";
+import { runAdvancedSimulation } from "@/lib/advanced-monte-carlo";
+import { runSimulation } from "@/lib/monte-carlo";
+import { runSensitivityAnalysis } from "@/lib/sensitivity";
+import { runParameterSweep } from "@/lib/parameter-sweep";
+import type { SimulationResults } from "@/lib/engine-core";
+import type { SimulationRunOptions } from "@/lib/simulation-progress";
+import type { AnalysisJob, AnalysisResults, SimulationJob, WorkerRequest, WorkerResponse } from "./simulation-protocol";
+
+const ctx = self as unknown as Worker;
+
+function post(message: WorkerResponse, transfer: Transferable[] = []) {
+  ctx.postMessage(message, transfer);
+}
+
+function runJob(job: SimulationJob, options: SimulationRunOptions): SimulationResults {
+  switch (job.engine) {
+    case 'classic':
+      return runSimpleSimulation(job.params, job.thresholds, options);
+    case 'advanced':
+      return runAdvancedSimulation(job.params, job.thresholds, options);
+    case 'legacy':
+      return runSimulation(job.params, job.thresholds, options);
+  }
+}
+
+function runAnalysis(job: AnalysisJob, onProgress: (completed: number, total: number) => void): AnalysisResults[AnalysisJob['kind']] {
+  switch (job.kind) {
+    case 'sensitivity':
+      return runSensitivityAnalysis(job.scenario, { onProgress });
+    case 'sweep':
+      return runParameterSweep(job.base, job.xAxis, job.yAxis, job.thresholds, { onProgress });
+  }
+}
+
+ctx.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  const { id } = request;
+  try {
+    if (request.type === 'analysis') {
+      const result = runAnalysis(request.job, (completed, total) => post({ type: 'analysisProgress', id, completed, total }));
+      post({ type: 'analysisResult', id, result });
+      return;
+    }
+    const results = runJob(request.job, {
+      onProgress: (progress) => post({ type: 'progress', id, progress }),
+      retainValues: request.retainValues
+    });
+    // Hand raw samples over without copying them
+    post({ type: 'result', id, results }, results.values ? [results.values.buffer] : []);
+  } catch (error) {
+    post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+  }
+};